@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef, type SetStateAction } from "react"
 import { useSearchParams, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -8,124 +8,118 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
-import { Plus, Trash2, Copy, Upload, Share, Settings, SplitSquareVertical } from "lucide-react"
+import {
+  Plus,
+  Trash2,
+  Copy,
+  Upload,
+  Share,
+  Settings,
+  SplitSquareVertical,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import LZString from "lz-string"
 import React from "react"
 import { Switch } from "@/components/ui/switch"
-
-interface Shareholder {
-  name: string
-  shares: number
-  percentage: number
-}
-
-interface FundingRound {
-  id: string
-  type: "funding"
-  name: string
-  currency: "GBP" | "USD" | "EUR"
-  investmentAmount: number
-  valuationType: "pre-money" | "post-money"
-  valuationSource: "manual" | "reference"
-  manualValuation: number
-  referenceRoundId: string
-  discountPercentage: number
-  calculatedValuation: number
-  preMoneyValuation: number
-  postMoneyValuation: number
-  newInvestorName: string
-  capTable: Shareholder[]
-  order: number
-  totalSharesAfter: number
-  newSharesIssued: number
-}
-
-interface OptionPool {
-  id: string
-  type: "option-pool"
-  name: string
-  percentage: number
-  capTable: Shareholder[]
-  order: number
-  totalSharesAfter: number
-  newSharesIssued: number
-}
-
-type Event = FundingRound | OptionPool
-
-interface ExchangeRates {
-  "USD-GBP": number
-  "GBP-USD": number
-  "USD-EUR": number
-  "EUR-USD": number
-  "GBP-EUR": number
-  "EUR-GBP": number
+import {
+  type AntiDilutionType,
+  type CapTableBasis,
+  type ConversionBasis,
+  type ConvertibleNote,
+  type Currency,
+  type DistributionType,
+  type Event,
+  type ExchangeRates,
+  type FundingRound,
+  type HolderRole,
+  type InitialHolder,
+  type InputDistribution,
+  type ModelVariable,
+  type OptionGrant,
+  type OptionPool,
+  type ProRataParticipant,
+  type RoundInvestor,
+  type Safe,
+  type SecondarySale,
+  type SecondarySeller,
+  type ShareBuyback,
+  type StockSplit,
+  type Warrant,
+  type Exercise,
+  type Shareholder,
+  DEFAULT_PRIMARY_EXCHANGE_RATES,
+  TEAM_ROLES,
+  calculateVestedOptions,
+  convertCurrency,
+  deriveAllExchangeRates,
+  getCapTableOnBasis,
+  getIssuedShares,
+  getInitialCapTable,
+  getLeadInvestorName,
+  getRoundFormulaName,
+  getRoundNameError,
+  getVariableError,
+  getShareClassName,
+  recalculateAllEvents,
+  renameRound,
+} from "@/lib/dilution-engine"
+import { getShareClassError } from "@/lib/exit-waterfall"
+import { formatCurrency, formatPricePerShare } from "@/lib/format"
+import { type GoalSeekInput, applyGoalSeekInput } from "@/lib/goal-seek"
+import { ExitWaterfall } from "@/components/exit-waterfall"
+import { ExitPayoutChart } from "@/components/exit-payout-chart"
+import { GoalSeek } from "@/components/goal-seek"
+import { MonteCarlo } from "@/components/monte-carlo"
+import { OwnershipChart } from "@/components/ownership-chart"
+import { ScenarioDiff } from "@/components/scenario-diff"
+import { SensitivityAnalysis } from "@/components/sensitivity-analysis"
+import { SharePriceHistory } from "@/components/share-price-history"
+import { VestingSchedule } from "@/components/vesting-schedule"
+import { type SavedState, type Scenario, createScenario, restoreSavedState } from "@/lib/saved-state"
+
+const HOLDER_ROLE_LABELS: Record<HolderRole, string> = {
+  founder: "Founder",
+  employee: "Employee",
+  angel: "Angel",
+  advisor: "Advisor",
 }
 
-interface ModelData {
-  founderName: string
-  initialShares: number
-  events: Event[]
+// Deep copy under a new id, for cloning and comparison
+const copyScenario = (scenario: Scenario, id: string, name: string): Scenario => ({
+  ...JSON.parse(JSON.stringify(scenario)),
+  id,
+  name,
+})
+
+const ANTI_DILUTION_LABELS: Record<AntiDilutionType, string> = {
+  none: "None",
+  "full-ratchet": "Full ratchet",
+  "broad-based": "Broad-based weighted average",
+  "narrow-based": "Narrow-based weighted average",
 }
 
-interface SavedState {
-  comparisonMode: boolean
-  exchangeRates: {
-    "USD-GBP": number
-    "USD-EUR": number
-  }
-  modelA: {
-    founderName: string
-    initialShares: number
-    events: Omit<Event, "capTable">[]
-  }
-  modelB?: {
-    founderName: string
-    initialShares: number
-    events: Omit<Event, "capTable">[]
-  }
-}
-
-// Default exchange rates (primary rates)
-const DEFAULT_PRIMARY_EXCHANGE_RATES = {
-  "USD-GBP": 0.79,
-  "USD-EUR": 0.92,
+const DISTRIBUTION_LABELS: Record<DistributionType, string> = {
+  uniform: "Uniform",
+  triangular: "Triangular",
+  lognormal: "Lognormal",
 }
 
-// Function to derive all exchange rates from primary ones
-const deriveAllExchangeRates = (primaryRates: { "USD-GBP": number; "USD-EUR": number }): ExchangeRates => {
-  const usdGbp = primaryRates["USD-GBP"]
-  const usdEur = primaryRates["USD-EUR"]
-
-  const gbpUsd = usdGbp > 0 ? 1 / usdGbp : 0
-  const gbpEur = usdGbp > 0 ? usdEur / usdGbp : 0
-  const eurGbp = usdEur > 0 ? usdGbp / usdEur : 0
-  const eurUsd = usdEur > 0 ? 1 / usdEur : 0
-
-  return {
-    "USD-GBP": usdGbp,
-    "GBP-USD": Number(gbpUsd.toFixed(4)),
-    "USD-EUR": usdEur,
-    "EUR-USD": Number(eurUsd.toFixed(4)),
-    "GBP-EUR": Number(gbpEur.toFixed(4)),
-    "EUR-GBP": Number(eurGbp.toFixed(4)),
-  }
+const CONVERSION_BASIS_LABELS: Record<ConversionBasis, string> = {
+  cap: "valuation cap",
+  discount: "discount",
+  round: "round price",
 }
 
 export default function StartupDilutionCalculator() {
-  // State for comparison mode
-  const [comparisonMode, setComparisonMode] = useState(false)
-
-  // Model A state (primary model)
-  const [founderNameA, setFounderNameA] = useState("Founders")
-  const [initialSharesA, setInitialSharesA] = useState(10000000)
-  const [eventsA, setEventsA] = useState<Event[]>([])
+  // Scenarios, in display order; the active one is shown when not comparing
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => [createScenario("scenario-1", "Scenario 1")])
+  const [activeScenarioId, setActiveScenarioId] = useState("scenario-1")
 
-  // Model B state (comparison model)
-  const [founderNameB, setFounderNameB] = useState("Founders")
-  const [initialSharesB, setInitialSharesB] = useState(10000000)
-  const [eventsB, setEventsB] = useState<Event[]>([])
+  // State for comparison mode: the scenarios shown side by side
+  const [comparisonMode, setComparisonMode] = useState(false)
+  const [comparedScenarioIds, setComparedScenarioIds] = useState<string[]>([])
 
   // Shared state
   const [primaryExchangeRates, setPrimaryExchangeRates] = useState(DEFAULT_PRIMARY_EXCHANGE_RATES)
@@ -136,9 +130,14 @@ export default function StartupDilutionCalculator() {
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [showExchangeSettings, setShowExchangeSettings] = useState(false)
   const [feedbackMessage, setFeedbackMessage] = useState("")
-  const [activeInsertionPointA, setActiveInsertionPointA] = useState<string | null>(null)
-  const [activeInsertionPointB, setActiveInsertionPointB] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState("modelA")
+  const [activeInsertionPoint, setActiveInsertionPoint] = useState<string | null>(null)
+  const [exitValue, setExitValue] = useState(0)
+  const [exitCurrency, setExitCurrency] = useState<Currency>("USD")
+  const [sweepMinExitValue, setSweepMinExitValue] = useState(0)
+  const [sweepMaxExitValue, setSweepMaxExitValue] = useState(100000000)
+  const [baseCurrency, setBaseCurrency] = useState<Currency>("USD")
+  const [vestingDate, setVestingDate] = useState(() => new Date().toISOString().slice(0, 10))
+  const [capTableBasis, setCapTableBasis] = useState<CapTableBasis>("fully-diluted")
 
   const searchParams = useSearchParams()
   const router = useRouter()
@@ -149,15 +148,10 @@ export default function StartupDilutionCalculator() {
     setAllExchangeRates(deriveAllExchangeRates(primaryExchangeRates))
   }, [primaryExchangeRates])
 
-  // Recalculate all events when exchange rates change
+  // Recalculate every scenario when exchange rates change
   useEffect(() => {
-    if (eventsA.length > 0) {
-      setEventsA((prevEvents) => recalculateAllEvents(prevEvents, founderNameA, initialSharesA))
-    }
-    if (comparisonMode && eventsB.length > 0) {
-      setEventsB((prevEvents) => recalculateAllEvents(prevEvents, founderNameB, initialSharesB))
-    }
-  }, [allExchangeRates, founderNameA, founderNameB, initialSharesA, initialSharesB])
+    setScenarios((prevScenarios) => prevScenarios.map(recalculateScenario))
+  }, [allExchangeRates])
 
   // Load state from URL on mount
   useEffect(() => {
@@ -195,18 +189,111 @@ export default function StartupDilutionCalculator() {
     }
   }, [feedbackMessage])
 
+  const getScenario = (scenarioId: string) => scenarios.find((s) => s.id === scenarioId) || scenarios[0]
+
+  const recalculateScenario = (scenario: Scenario): Scenario => ({
+    ...scenario,
+    events: recalculateAllEvents(scenario.events, scenario.initialHolders, allExchangeRates, scenario.variables),
+  })
+
+  // Setter for one field of a scenario, used like the setter from useState. Holders and variables
+  // feed every event, so changing them recalculates the scenario.
+  const getScenarioSetter =
+    <K extends "initialHolders" | "events" | "variables">(scenarioId: string, field: K) =>
+    (value: SetStateAction<Scenario[K]>) =>
+      setScenarios((prevScenarios) =>
+        prevScenarios.map((scenario) => {
+          if (scenario.id !== scenarioId) return scenario
+          const updated = {
+            ...scenario,
+            [field]: typeof value === "function" ? value(scenario[field]) : value,
+          }
+          return field === "events" ? updated : recalculateScenario(updated)
+        }),
+      )
+
+  // Sorted copies are cached per events array, so panels that rerun the engine only recompute on event changes
+  const sortedEventsCache = useRef(new WeakMap<Event[], Event[]>())
+  const getSortedEvents = (scenario: Scenario) => {
+    let sorted = sortedEventsCache.current.get(scenario.events)
+    if (!sorted) {
+      sorted = [...scenario.events].sort((a, b) => a.order - b.order)
+      sortedEventsCache.current.set(scenario.events, sorted)
+    }
+    return sorted
+  }
+
+  const addScenario = () => {
+    const id = `scenario-${Date.now()}`
+    setScenarios((prevScenarios) => [...prevScenarios, createScenario(id, `Scenario ${prevScenarios.length + 1}`)])
+    setActiveScenarioId(id)
+  }
+
+  const cloneScenario = (scenarioId: string) => {
+    const source = getScenario(scenarioId)
+    const id = `scenario-${Date.now()}`
+    setScenarios((prevScenarios) => {
+      const index = prevScenarios.findIndex((s) => s.id === scenarioId)
+      const clone = copyScenario(source, id, `${source.name} (copy)`)
+      return [...prevScenarios.slice(0, index + 1), clone, ...prevScenarios.slice(index + 1)]
+    })
+    setActiveScenarioId(id)
+    if (comparisonMode) setComparedScenarioIds((prevIds) => [...prevIds, id])
+  }
+
+  const renameScenario = (scenarioId: string, name: string) => {
+    setScenarios((prevScenarios) => prevScenarios.map((s) => (s.id === scenarioId ? { ...s, name } : s)))
+  }
+
+  // The last scenario can't be deleted
+  const deleteScenario = (scenarioId: string) => {
+    if (scenarios.length <= 1) return
+
+    const index = scenarios.findIndex((s) => s.id === scenarioId)
+    const remaining = scenarios.filter((s) => s.id !== scenarioId)
+    setScenarios(remaining)
+    setComparedScenarioIds((prevIds) => prevIds.filter((id) => id !== scenarioId))
+    if (activeScenarioId === scenarioId) {
+      setActiveScenarioId(remaining[Math.min(index, remaining.length - 1)].id)
+    }
+  }
+
+  // Moves a scenario one place left (-1) or right (1)
+  const moveScenario = (scenarioId: string, direction: -1 | 1) => {
+    setScenarios((prevScenarios) => {
+      const index = prevScenarios.findIndex((s) => s.id === scenarioId)
+      const target = index + direction
+      if (index < 0 || target < 0 || target >= prevScenarios.length) return prevScenarios
+
+      const reordered = [...prevScenarios]
+      ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+      return reordered
+    })
+  }
+
+  const toggleComparedScenario = (scenarioId: string, compared: boolean) => {
+    setComparedScenarioIds((prevIds) =>
+      compared ? [...prevIds.filter((id) => id !== scenarioId), scenarioId] : prevIds.filter((id) => id !== scenarioId),
+    )
+  }
+
   // Enable comparison mode
   const enableComparisonMode = () => {
     if (!comparisonMode) {
-      // Clone model A to model B
-      setFounderNameB(founderNameA)
-      setInitialSharesB(initialSharesA)
-      setEventsB(JSON.parse(JSON.stringify(eventsA)))
+      // Compare the active scenario with the next one, cloning it when it's the only scenario
+      const index = scenarios.findIndex((s) => s.id === activeScenarioId)
+      const otherId = scenarios[index + 1]?.id || scenarios[index - 1]?.id || `scenario-${Date.now()}`
+      if (scenarios.length === 1) {
+        setScenarios((prevScenarios) => [
+          ...prevScenarios,
+          copyScenario(getScenario(activeScenarioId), otherId, `Scenario ${prevScenarios.length + 1}`),
+        ])
+      }
+      setComparedScenarioIds([activeScenarioId, otherId])
       setComparisonMode(true)
-      setActiveTab("modelA")
       toast({
         title: "Comparison Mode Enabled",
-        description: "You can now compare two different scenarios side by side",
+        description: "Choose the scenarios to compare side by side",
       })
     }
   }
@@ -215,63 +302,24 @@ export default function StartupDilutionCalculator() {
   const disableComparisonMode = () => {
     if (comparisonMode) {
       setComparisonMode(false)
-      setActiveTab("modelA")
       toast({
         title: "Comparison Mode Disabled",
-        description: "Returned to single model view",
-      })
-    }
-  }
-
-  // Copy model A to B
-  const copyModelAToB = () => {
-    if (comparisonMode) {
-      setFounderNameB(founderNameA)
-      setInitialSharesB(initialSharesA)
-      setEventsB(JSON.parse(JSON.stringify(eventsA)))
-      toast({
-        title: "Model Copied",
-        description: "Model A has been copied to Model B",
-      })
-    }
-  }
-
-  // Copy model B to A
-  const copyModelBToA = () => {
-    if (comparisonMode) {
-      setFounderNameA(founderNameB)
-      setInitialSharesA(initialSharesB)
-      setEventsA(JSON.parse(JSON.stringify(eventsB)))
-      toast({
-        title: "Model Copied",
-        description: "Model B has been copied to Model A",
+        description: "Returned to single scenario view",
       })
     }
   }
 
-  const convertCurrency = (amount: number, fromCurrency: string, toCurrency: string): number => {
-    if (fromCurrency === toCurrency) return amount
-    const rateKey = `${fromCurrency}-${toCurrency}` as keyof ExchangeRates
-    const rate = allExchangeRates[rateKey]
-    return amount * (rate || 1)
-  }
-
   const getNextOrder = (events: Event[]) => {
     return events.length > 0 ? Math.max(...events.map((e) => e.order)) + 1 : 1
   }
 
-  const addRound = (model: "A" | "B", insertAfterOrder?: number) => {
-    const events = model === "A" ? eventsA : eventsB
-    const setEvents = model === "A" ? setEventsA : setEventsB
-    const setActiveInsertionPoint = model === "A" ? setActiveInsertionPointA : setActiveInsertionPointB
-    const founderName = model === "A" ? founderNameA : founderNameB
-    const initialShares = model === "A" ? initialSharesA : initialSharesB
-
-    const roundNumber = events.filter((e) => e.type === "funding").length + 1
-    let newOrder: number
+  // Adds the event createEvent builds for its order, either after insertAfterOrder (shifting the
+  // later events down) or at the end, and recalculates the scenario
+  const insertEvent = (scenarioId: string, createEvent: (order: number) => Event, insertAfterOrder?: number) => {
+    const { events, initialHolders, variables } = getScenario(scenarioId)
+    const setEvents = getScenarioSetter(scenarioId, "events")
 
     if (insertAfterOrder !== undefined) {
-      // Insert after the specified order, shift subsequent events
       setEvents((prevEvents) => {
         const updatedEvents = prevEvents.map((event) => {
           if (event.order > insertAfterOrder) {
@@ -280,432 +328,377 @@ export default function StartupDilutionCalculator() {
           return event
         })
 
-        newOrder = insertAfterOrder + 1
-
-        const newRound: FundingRound = {
-          id: `round-${Date.now()}-${model}`,
-          type: "funding",
-          name: `Series ${String.fromCharCode(64 + roundNumber)}`,
-          currency: "USD",
-          investmentAmount: 0,
-          valuationType: "pre-money",
-          valuationSource: "manual",
-          manualValuation: 0,
-          referenceRoundId: "",
-          discountPercentage: 0,
-          calculatedValuation: 0,
-          preMoneyValuation: 0,
-          postMoneyValuation: 0,
-          newInvestorName: `Series ${String.fromCharCode(64 + roundNumber)} Investor`,
-          capTable: [],
-          order: newOrder,
-          totalSharesAfter: 0,
-          newSharesIssued: 0,
-        }
-
-        return recalculateAllEvents([...updatedEvents, newRound], founderName, initialShares)
+        return recalculateAllEvents(
+          [...updatedEvents, createEvent(insertAfterOrder + 1)],
+          initialHolders,
+          allExchangeRates,
+          variables,
+        )
       })
     } else {
-      newOrder = getNextOrder(events)
-      const newRound: FundingRound = {
-        id: `round-${Date.now()}-${model}`,
-        type: "funding",
-        name: `Series ${String.fromCharCode(64 + roundNumber)}`,
-        currency: "USD",
-        investmentAmount: 0,
-        valuationType: "pre-money",
-        valuationSource: "manual",
-        manualValuation: 0,
-        referenceRoundId: "",
-        discountPercentage: 0,
-        calculatedValuation: 0,
-        preMoneyValuation: 0,
-        postMoneyValuation: 0,
-        newInvestorName: `Series ${String.fromCharCode(64 + roundNumber)} Investor`,
-        capTable: [],
-        order: newOrder,
-        totalSharesAfter: 0,
-        newSharesIssued: 0,
-      }
-      setEvents([...events, newRound])
+      setEvents(
+        recalculateAllEvents(
+          [...events, createEvent(getNextOrder(events))],
+          initialHolders,
+          allExchangeRates,
+          variables,
+        ),
+      )
     }
     setActiveInsertionPoint(null)
   }
 
-  const addOptionPool = (model: "A" | "B", insertAfterOrder?: number) => {
-    const events = model === "A" ? eventsA : eventsB
-    const setEvents = model === "A" ? setEventsA : setEventsB
-    const setActiveInsertionPoint = model === "A" ? setActiveInsertionPointA : setActiveInsertionPointB
-    const founderName = model === "A" ? founderNameA : founderNameB
-    const initialShares = model === "A" ? initialSharesA : initialSharesB
-
-    const poolNumber = events.filter((e) => e.type === "option-pool").length + 1
-    let newOrder: number
+  const addRound = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
 
-    if (insertAfterOrder !== undefined) {
-      // Insert after the specified order, shift subsequent events
-      setEvents((prevEvents) => {
-        const updatedEvents = prevEvents.map((event) => {
-          if (event.order > insertAfterOrder) {
-            return { ...event, order: event.order + 1 }
-          }
-          return event
-        })
+    const roundNumber = events.filter((e) => e.type === "funding").length + 1
 
-        newOrder = insertAfterOrder + 1
-
-        const newPool: OptionPool = {
-          id: `pool-${Date.now()}-${model}`,
-          type: "option-pool",
-          name: `Option Pool ${poolNumber}`,
-          percentage: 10,
-          capTable: [],
-          order: newOrder,
-          totalSharesAfter: 0,
-          newSharesIssued: 0,
-        }
+    const createRound = (order: number): FundingRound => ({
+      id: `round-${Date.now()}-${scenarioId}`,
+      type: "funding",
+      name: `Series ${String.fromCharCode(64 + roundNumber)}`,
+      currency: "USD",
+      investmentAmount: 0,
+      investmentSource: "manual",
+      investmentFormula: "",
+      investmentError: "",
+      valuationType: "pre-money",
+      valuationSource: "manual",
+      manualValuation: 0,
+      valuationFormula: "",
+      referenceRoundId: "",
+      referenceAdjustment: "discount",
+      discountPercentage: 0,
+      calculatedValuation: 0,
+      valuationError: "",
+      preMoneyValuation: 0,
+      postMoneyValuation: 0,
+      investors: [
+        {
+          id: `investor-${Date.now()}-${scenarioId}`,
+          name: `Series ${String.fromCharCode(64 + roundNumber)} Investor`,
+          amount: 0,
+          fillRemaining: true,
+        },
+      ],
+      date: "",
+      shareClassName: "",
+      liquidationPreferenceMultiple: 1,
+      participating: false,
+      participationCap: 0,
+      seniority: 1,
+      targetPoolPercentage: 0,
+      proRataParticipants: [],
+      antiDilution: "none",
+      poolTopUpName: "",
+      poolTopUpShares: 0,
+      effectivePreMoneyValuation: 0,
+      valuationDistribution: null,
+      investmentDistribution: null,
+      poolDistribution: null,
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      pricePerShare: 0,
+      pricePerShareBeforeConversions: 0,
+      conversions: [],
+      proRataAllocations: [],
+      investorAllocations: [],
+      unallocatedAmount: 0,
+      antiDilutionAdjustments: [],
+    })
 
-        return recalculateAllEvents([...updatedEvents, newPool], founderName, initialShares)
-      })
-    } else {
-      newOrder = getNextOrder(events)
-      const newPool: OptionPool = {
-        id: `pool-${Date.now()}-${model}`,
-        type: "option-pool",
-        name: `Option Pool ${poolNumber}`,
-        percentage: 10,
-        capTable: [],
-        order: newOrder,
-        totalSharesAfter: 0,
-        newSharesIssued: 0,
-      }
-      setEvents(recalculateAllEvents([...events, newPool], founderName, initialShares))
-    }
-    setActiveInsertionPoint(null)
+    insertEvent(scenarioId, createRound, insertAfterOrder)
   }
 
-  const calculateValuation = (round: FundingRound, allEvents: Event[]): number => {
-    if (round.valuationSource === "manual") {
-      return round.manualValuation
-    }
-
-    // Reference valuation from another round (only future rounds)
-    const referenceRound = allEvents.find(
-      (e) => e.id === round.referenceRoundId && e.type === "funding",
-    ) as FundingRound
-
-    if (!referenceRound) {
-      console.warn(`Reference round ${round.referenceRoundId} not found for round ${round.name}`)
-      return 0
-    }
+  const addOptionPool = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
 
-    let referenceValuation =
-      round.valuationType === "pre-money" ? referenceRound.preMoneyValuation : referenceRound.postMoneyValuation
+    const poolNumber = events.filter((e) => e.type === "option-pool").length + 1
 
-    if (referenceValuation <= 0) {
-      console.warn(`Reference round ${referenceRound.name} has no valuation yet`)
-      return 0
-    }
+    const createPool = (order: number): OptionPool => ({
+      id: `pool-${Date.now()}-${scenarioId}`,
+      type: "option-pool",
+      name: `Option Pool ${poolNumber}`,
+      percentage: 10,
+      mode: "new",
+      topUpPoolName: "",
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      poolRowName: "",
+    })
 
-    // Convert currency if needed
-    if (referenceRound.currency !== round.currency) {
-      referenceValuation = convertCurrency(referenceValuation, referenceRound.currency, round.currency)
-    }
+    insertEvent(scenarioId, createPool, insertAfterOrder)
+  }
 
-    // Apply discount
-    const discountMultiplier = (100 - round.discountPercentage) / 100
-    const result = referenceValuation * discountMultiplier
+  const addSafe = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
+
+    const safeNumber = events.filter((e) => e.type === "safe").length + 1
+
+    const createSafe = (order: number): Safe => ({
+      id: `safe-${Date.now()}-${scenarioId}`,
+      type: "safe",
+      name: `SAFE ${safeNumber}`,
+      currency: "USD",
+      investmentAmount: 0,
+      safeType: "post-money",
+      valuationCap: 0,
+      discountPercentage: 0,
+      mfn: false,
+      investorName: `SAFE ${safeNumber} Investor`,
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      convertedInRoundId: "",
+      conversionPrice: 0,
+      conversionShares: 0,
+      conversionBasis: "",
+    })
 
-    return result
+    insertEvent(scenarioId, createSafe, insertAfterOrder)
   }
 
-  const recalculateAllEvents = (updatedEvents: Event[], founderName: string, initialShares: number): Event[] => {
-    // Sort events by order
-    const sortedEvents = [...updatedEvents].sort((a, b) => a.order - b.order)
-    const result: Event[] = []
-    let currentCapTable: Shareholder[] = getInitialCapTable(founderName, initialShares)
-    let currentTotalShares = initialShares
+  const addConvertibleNote = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
+
+    const noteNumber = events.filter((e) => e.type === "convertible-note").length + 1
+
+    const createNote = (order: number): ConvertibleNote => ({
+      id: `note-${Date.now()}-${scenarioId}`,
+      type: "convertible-note",
+      name: `Convertible Note ${noteNumber}`,
+      currency: "USD",
+      principal: 0,
+      interestRate: 8,
+      interestType: "simple",
+      issueDate: "",
+      maturityDate: "",
+      valuationCap: 0,
+      discountPercentage: 20,
+      investorName: `Noteholder ${noteNumber}`,
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      accruedInterest: 0,
+      convertedInRoundId: "",
+      conversionPrice: 0,
+      conversionShares: 0,
+      conversionBasis: "",
+    })
 
-    // First pass: calculate all funding rounds with manual valuations
-    // and initialize reference-based rounds with temporary values
-    const tempResults: Event[] = []
+    insertEvent(scenarioId, createNote, insertAfterOrder)
+  }
 
-    for (const event of sortedEvents) {
-      if (event.type === "funding") {
-        const round = event as FundingRound
+  const addOptionGrant = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
+
+    const grantNumber = events.filter((e) => e.type === "option-grant").length + 1
+
+    const createGrant = (order: number): OptionGrant => ({
+      id: `grant-${Date.now()}-${scenarioId}`,
+      type: "option-grant",
+      name: `Option Grant ${grantNumber}`,
+      holderName: `Employee ${grantNumber}`,
+      role: "employee",
+      poolName: "",
+      options: 0,
+      currency: "USD",
+      strikePrice: 0,
+      grantDate: "",
+      vestingMonths: 48,
+      cliffMonths: 12,
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      poolRowName: "",
+      availableOptions: 0,
+      grantedOptions: 0,
+    })
 
-        let calculatedValuation: number
-        let preMoneyValuation: number
-        let postMoneyValuation: number
+    insertEvent(scenarioId, createGrant, insertAfterOrder)
+  }
 
-        if (round.valuationSource === "manual") {
-          calculatedValuation = round.manualValuation
-        } else {
-          // For reference-based rounds, we'll calculate this in the second pass
-          calculatedValuation = 0
-        }
+  const addSecondarySale = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
+
+    const saleNumber = events.filter((e) => e.type === "secondary").length + 1
+
+    const createSale = (order: number): SecondarySale => ({
+      id: `secondary-${Date.now()}-${scenarioId}`,
+      type: "secondary",
+      name: `Secondary Sale ${saleNumber}`,
+      buyerName: `Secondary Buyer ${saleNumber}`,
+      currency: "USD",
+      pricePerShare: 0,
+      sellers: [],
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      sales: [],
+    })
 
-        // Calculate pre-money and post-money based on valuation type
-        if (round.valuationType === "pre-money") {
-          preMoneyValuation = calculatedValuation
-          postMoneyValuation = preMoneyValuation + round.investmentAmount
-        } else {
-          postMoneyValuation = calculatedValuation
-          preMoneyValuation = Math.max(0, postMoneyValuation - round.investmentAmount)
-        }
+    insertEvent(scenarioId, createSale, insertAfterOrder)
+  }
 
-        const tempRound: FundingRound = {
-          ...round,
-          calculatedValuation,
-          preMoneyValuation,
-          postMoneyValuation,
-          capTable: [],
-          totalSharesAfter: 0,
-          newSharesIssued: 0,
-        }
+  const addShareBuyback = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
+
+    const buybackNumber = events.filter((e) => e.type === "buyback").length + 1
+
+    const createBuyback = (order: number): ShareBuyback => ({
+      id: `buyback-${Date.now()}-${scenarioId}`,
+      type: "buyback",
+      name: `Share Buyback ${buybackNumber}`,
+      holderName: "",
+      quantityType: "shares",
+      quantity: 0,
+      currency: "USD",
+      pricePerShare: 0,
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      sharesCancelled: 0,
+      cost: 0,
+    })
 
-        tempResults.push(tempRound)
-      } else {
-        tempResults.push({
-          ...event,
-          totalSharesAfter: 0,
-          newSharesIssued: 0,
-        })
-      }
-    }
+    insertEvent(scenarioId, createBuyback, insertAfterOrder)
+  }
 
-    // Second pass: resolve reference-based valuations
-    // We need to do this iteratively until all references are resolved
-    let maxIterations = 10 // Prevent infinite loops
-    let hasUnresolvedReferences = true
+  const addStockSplit = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
 
-    while (hasUnresolvedReferences && maxIterations > 0) {
-      hasUnresolvedReferences = false
-      maxIterations--
+    const splitNumber = events.filter((e) => e.type === "stock-split").length + 1
 
-      for (let i = 0; i < tempResults.length; i++) {
-        const event = tempResults[i]
-        if (event.type === "funding") {
-          const round = event as FundingRound
+    const createSplit = (order: number): StockSplit => ({
+      id: `split-${Date.now()}-${scenarioId}`,
+      type: "stock-split",
+      name: `Stock Split ${splitNumber}`,
+      ratio: 2,
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+    })
 
-          if (round.valuationSource === "reference" && round.calculatedValuation === 0) {
-            // Try to resolve this reference
-            const referenceRound = tempResults.find(
-              (e) => e.id === round.referenceRoundId && e.type === "funding",
-            ) as FundingRound
-
-            if (referenceRound && (referenceRound.preMoneyValuation > 0 || referenceRound.postMoneyValuation > 0)) {
-              // Reference round has been calculated, we can now calculate this round
-              let referenceValuation =
-                round.valuationType === "pre-money"
-                  ? referenceRound.preMoneyValuation
-                  : referenceRound.postMoneyValuation
-
-              if (referenceValuation > 0) {
-                // Convert currency if needed
-                referenceValuation = convertCurrency(referenceValuation, referenceRound.currency, round.currency)
-
-                // Apply discount
-                const discountMultiplier = (100 - round.discountPercentage) / 100
-                const calculatedValuation = referenceValuation * discountMultiplier
-
-                // Update the round with calculated valuation
-                let preMoneyValuation: number
-                let postMoneyValuation: number
-
-                if (round.valuationType === "pre-money") {
-                  preMoneyValuation = calculatedValuation
-                  postMoneyValuation = preMoneyValuation + round.investmentAmount
-                } else {
-                  postMoneyValuation = calculatedValuation
-                  preMoneyValuation = Math.max(0, postMoneyValuation - round.investmentAmount)
-                }
+    insertEvent(scenarioId, createSplit, insertAfterOrder)
+  }
 
-                tempResults[i] = {
-                  ...round,
-                  calculatedValuation,
-                  preMoneyValuation,
-                  postMoneyValuation,
-                  capTable: [],
-                  totalSharesAfter: 0,
-                  newSharesIssued: 0,
-                }
-              }
-            } else {
-              // Reference not yet resolved
-              hasUnresolvedReferences = true
-            }
-          }
-        }
-      }
-    }
+  const addWarrant = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
+
+    const warrantNumber = events.filter((e) => e.type === "warrant").length + 1
+
+    const createWarrant = (order: number): Warrant => ({
+      id: `warrant-${Date.now()}-${scenarioId}`,
+      type: "warrant",
+      name: `Warrant ${warrantNumber}`,
+      holderName: "",
+      coverageType: "percentage",
+      coverage: 1,
+      currency: "USD",
+      strikePrice: 0,
+      expiryDate: "",
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      warrantShares: 0,
+    })
 
-    // Third pass: calculate cap tables and share counts in order
-    currentCapTable = getInitialCapTable(founderName, initialShares)
-    currentTotalShares = initialShares
+    insertEvent(scenarioId, createWarrant, insertAfterOrder)
+  }
 
-    for (const event of tempResults) {
-      if (event.type === "funding") {
-        const round = event as FundingRound
+  const addExercise = (scenarioId: string, insertAfterOrder?: number) => {
+    const { events } = getScenario(scenarioId)
+
+    const exerciseNumber = events.filter((e) => e.type === "exercise").length + 1
+
+    const createExercise = (order: number): Exercise => ({
+      id: `exercise-${Date.now()}-${scenarioId}`,
+      type: "exercise",
+      name: `Exercise ${exerciseNumber}`,
+      instrumentId: "",
+      quantity: 0,
+      exerciseDate: new Date().toISOString().slice(0, 10),
+      capTable: [],
+      order,
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+      holderName: "",
+      currency: "USD",
+      exercisableShares: 0,
+      sharesExercised: 0,
+      cashReceived: 0,
+    })
 
-        // Calculate cap table and shares for this funding round
-        const { capTable, totalSharesAfter, newSharesIssued } = calculateCapTableForFundingRound(
-          round,
-          currentCapTable,
-          currentTotalShares,
-        )
+    insertEvent(scenarioId, createExercise, insertAfterOrder)
+  }
 
-        const updatedRound: FundingRound = {
-          ...round,
-          capTable,
-          totalSharesAfter,
-          newSharesIssued,
-        }
+  // Initial holder changes recalculate the scenario's events through its setter
+  const addInitialHolder = (scenarioId: string) => {
+    const setInitialHolders = getScenarioSetter(scenarioId, "initialHolders")
+
+    setInitialHolders((prevHolders) => [
+      ...prevHolders,
+      {
+        id: `holder-${Date.now()}-${scenarioId}`,
+        name: `Holder ${prevHolders.length + 1}`,
+        shares: 0,
+        role: "employee",
+      },
+    ])
+  }
 
-        result.push(updatedRound)
-        currentCapTable = capTable
-        currentTotalShares = totalSharesAfter
-      } else if (event.type === "option-pool") {
-        const pool = event as OptionPool
-
-        // Calculate option pool dilution and shares
-        const { capTable, totalSharesAfter, newSharesIssued } = calculateCapTableForOptionPool(
-          pool,
-          currentCapTable,
-          currentTotalShares,
-        )
+  const updateInitialHolder = (scenarioId: string, holderId: string, field: keyof InitialHolder, value: any) => {
+    const setInitialHolders = getScenarioSetter(scenarioId, "initialHolders")
 
-        const updatedPool: OptionPool = {
-          ...pool,
-          capTable,
-          totalSharesAfter,
-          newSharesIssued,
-        }
+    setInitialHolders((prevHolders) =>
+      prevHolders.map((holder) => (holder.id === holderId ? { ...holder, [field]: value } : holder)),
+    )
+  }
 
-        result.push(updatedPool)
-        currentCapTable = capTable
-        currentTotalShares = totalSharesAfter
-      }
-    }
+  const removeInitialHolder = (scenarioId: string, holderId: string) => {
+    const setInitialHolders = getScenarioSetter(scenarioId, "initialHolders")
 
-    return result
+    setInitialHolders((prevHolders) => prevHolders.filter((holder) => holder.id !== holderId))
   }
 
-  const calculateCapTableForFundingRound = (
-    round: FundingRound,
-    previousCapTable: Shareholder[],
-    previousTotalShares: number,
-  ): { capTable: Shareholder[]; totalSharesAfter: number; newSharesIssued: number } => {
-    if (round.postMoneyValuation <= 0 || round.investmentAmount <= 0) {
-      return {
-        capTable: previousCapTable,
-        totalSharesAfter: previousTotalShares,
-        newSharesIssued: 0,
-      }
-    }
+  // Variable changes recalculate the events the same way
+  const addVariable = (scenarioId: string) => {
+    const setVariables = getScenarioSetter(scenarioId, "variables")
 
-    // Calculate new investor ownership percentage
-    const newInvestorPercentage = (round.investmentAmount / round.postMoneyValuation) * 100
+    setVariables((prevVariables) => [
+      ...prevVariables,
+      { id: `variable-${Date.now()}-${scenarioId}`, name: `Variable${prevVariables.length + 1}`, value: 0 },
+    ])
+  }
 
-    // Validate that the new investor percentage is reasonable
-    if (newInvestorPercentage <= 0 || newInvestorPercentage >= 100) {
-      return {
-        capTable: previousCapTable,
-        totalSharesAfter: previousTotalShares,
-        newSharesIssued: 0,
-      }
-    }
+  const updateVariable = (scenarioId: string, variableId: string, field: keyof ModelVariable, value: any) => {
+    const setVariables = getScenarioSetter(scenarioId, "variables")
 
-    // Calculate new shares to issue
-    // If investor gets X% of post-money, then:
-    // newShares / (previousShares + newShares) = X/100
-    // newShares = (X/100) * (previousShares + newShares)
-    // newShares = (X/100) * previousShares / (1 - X/100)
-    const newSharesIssued = Math.round(
-      ((newInvestorPercentage / 100) * previousTotalShares) / (1 - newInvestorPercentage / 100),
+    setVariables((prevVariables) =>
+      prevVariables.map((variable) => (variable.id === variableId ? { ...variable, [field]: value } : variable)),
     )
-    const totalSharesAfter = previousTotalShares + newSharesIssued
-
-    // Create new cap table with actual share counts
-    const newCapTable: Shareholder[] = []
-
-    // Add existing shareholders (their share count stays the same, but percentage dilutes)
-    previousCapTable.forEach((shareholder) => {
-      const newPercentage = (shareholder.shares / totalSharesAfter) * 100
-      if (newPercentage > 0.01) {
-        newCapTable.push({
-          name: shareholder.name,
-          shares: shareholder.shares, // Share count stays the same
-          percentage: newPercentage,
-        })
-      }
-    })
-
-    // Add new investor
-    newCapTable.push({
-      name: round.newInvestorName,
-      shares: newSharesIssued,
-      percentage: newInvestorPercentage,
-    })
-
-    return {
-      capTable: newCapTable,
-      totalSharesAfter,
-      newSharesIssued,
-    }
   }
 
-  const calculateCapTableForOptionPool = (
-    pool: OptionPool,
-    previousCapTable: Shareholder[],
-    previousTotalShares: number,
-  ): { capTable: Shareholder[]; totalSharesAfter: number; newSharesIssued: number } => {
-    const poolPercentage = pool.percentage
-    if (poolPercentage <= 0 || poolPercentage >= 100) {
-      return {
-        capTable: previousCapTable,
-        totalSharesAfter: previousTotalShares,
-        newSharesIssued: 0,
-      }
-    }
-
-    // Calculate new shares to issue for option pool
-    // Similar to funding round calculation
-    const newSharesIssued = Math.round(((poolPercentage / 100) * previousTotalShares) / (1 - poolPercentage / 100))
-    const totalSharesAfter = previousTotalShares + newSharesIssued
-
-    // Create new cap table
-    const newCapTable: Shareholder[] = []
-
-    // Add existing shareholders (their share count stays the same, but percentage dilutes)
-    previousCapTable.forEach((shareholder) => {
-      const newPercentage = (shareholder.shares / totalSharesAfter) * 100
-      newCapTable.push({
-        name: shareholder.name,
-        shares: shareholder.shares, // Share count stays the same
-        percentage: newPercentage,
-      })
-    })
-
-    // Add option pool
-    newCapTable.push({
-      name: pool.name,
-      shares: newSharesIssued,
-      percentage: poolPercentage,
-    })
+  const removeVariable = (scenarioId: string, variableId: string) => {
+    const setVariables = getScenarioSetter(scenarioId, "variables")
 
-    return {
-      capTable: newCapTable,
-      totalSharesAfter,
-      newSharesIssued,
-    }
+    setVariables((prevVariables) => prevVariables.filter((variable) => variable.id !== variableId))
   }
 
-  const updateEvent = (model: "A" | "B", eventId: string, field: string, value: any) => {
-    const events = model === "A" ? eventsA : eventsB
-    const setEvents = model === "A" ? setEventsA : setEventsB
-    const founderName = model === "A" ? founderNameA : founderNameB
-    const initialShares = model === "A" ? initialSharesA : initialSharesB
+  const updateEvent = (scenarioId: string, eventId: string, field: string, value: any) => {
+    const { events, initialHolders, variables } = getScenario(scenarioId)
+    const setEvents = getScenarioSetter(scenarioId, "events")
 
     setEvents((prevEvents) => {
       const updatedEvents = prevEvents.map((event) => {
@@ -715,21 +708,20 @@ export default function StartupDilutionCalculator() {
         return event
       })
 
-      return recalculateAllEvents(updatedEvents, founderName, initialShares)
+      return recalculateAllEvents(updatedEvents, initialHolders, allExchangeRates, variables)
     })
   }
 
-  const removeEvent = (model: "A" | "B", eventId: string) => {
-    const events = model === "A" ? eventsA : eventsB
-    const setEvents = model === "A" ? setEventsA : setEventsB
-    const founderName = model === "A" ? founderNameA : founderNameB
-    const initialShares = model === "A" ? initialSharesA : initialSharesB
+  const removeEvent = (scenarioId: string, eventId: string) => {
+    const { events, initialHolders, variables } = getScenario(scenarioId)
+    const setEvents = getScenarioSetter(scenarioId, "events")
 
     setEvents((prevEvents) => {
       // Remove the event
       const filteredEvents = prevEvents.filter((event) => event.id !== eventId)
 
-      // Clear any references to the deleted round in funding rounds
+      // Clear any references to the deleted event: in funding rounds, and in exercises of a
+      // deleted warrant or option grant
       const cleanedEvents = filteredEvents.map((event) => {
         if (event.type === "funding") {
           const round = event as FundingRound
@@ -741,181 +733,177 @@ export default function StartupDilutionCalculator() {
             }
           }
         }
+        if (event.type === "exercise" && event.instrumentId === eventId) {
+          return { ...event, instrumentId: "" }
+        }
         return event
       })
 
-      return recalculateAllEvents(cleanedEvents, founderName, initialShares)
+      return recalculateAllEvents(cleanedEvents, initialHolders, allExchangeRates, variables)
     })
   }
 
-  const formatCurrency = (amount: number, currency: string) => {
-    const symbol = currency === "GBP" ? "£" : currency === "EUR" ? "€" : "$"
-    return `${symbol}${amount.toLocaleString()}`
+  const applyGoalSeek = (scenarioId: string, inputEventId: string, input: GoalSeekInput, value: number) => {
+    const { initialHolders, variables } = getScenario(scenarioId)
+    const setEvents = getScenarioSetter(scenarioId, "events")
+
+    setEvents((prevEvents) =>
+      recalculateAllEvents(
+        applyGoalSeekInput(prevEvents, inputEventId, input, value),
+        initialHolders,
+        allExchangeRates,
+        variables,
+      ),
+    )
+  }
+
+  // Get available rounds for reference: any other round, earlier or later (cycles are reported on the round)
+  const getAvailableReferenceRounds = (scenarioId: string, currentEventId: string) => {
+    const scenario = getScenario(scenarioId)
+    const events = getSortedEvents(scenario)
+
+    return events.filter((e): e is FundingRound => e.type === "funding" && e.id !== currentEventId)
   }
 
-  const getInitialCapTable = (founderName: string, initialShares: number): Shareholder[] => {
-    return [{ name: founderName, shares: initialShares, percentage: 100 }]
+  // Shareholders (initial holders and investors, not pools or options) who could take part in a round
+  const getExistingShareholderNames = (scenarioId: string, currentEventId: string) => {
+    const scenario = getScenario(scenarioId)
+    const events = getSortedEvents(scenario)
+    const { initialHolders } = scenario
+    const index = events.findIndex((e) => e.id === currentEventId)
+    const previousCapTable = index > 0 ? events[index - 1].capTable : getInitialCapTable(initialHolders)
+    const poolNames = new Set(getAvailablePools(scenarioId, currentEventId))
+
+    return Array.from(
+      new Set(
+        previousCapTable
+          .filter(
+            (shareholder) => !poolNames.has(shareholder.name) && !shareholder.grantedFromPool && !shareholder.warrantId,
+          )
+          .map((shareholder) => shareholder.name),
+      ),
+    )
   }
 
-  // Get available rounds for reference (only future funding rounds to avoid cycles)
-  const getAvailableReferenceRounds = (model: "A" | "B", currentEventId: string) => {
-    const events = model === "A" ? eventsA : eventsB
-    const currentEvent = events.find((e) => e.id === currentEventId)
-    if (!currentEvent) return []
+  // Renaming a round also renames its references in formulas
+  const updateRoundName = (scenarioId: string, roundId: string, name: string) => {
+    const { initialHolders, variables } = getScenario(scenarioId)
+    const setEvents = getScenarioSetter(scenarioId, "events")
 
-    return events
-      .filter((e) => e.type === "funding" && e.order > currentEvent.order)
-      .map((e) => e as FundingRound)
-      .filter((r) => r.postMoneyValuation > 0)
+    setEvents((prevEvents) =>
+      recalculateAllEvents(renameRound(prevEvents, roundId, name), initialHolders, allExchangeRates, variables),
+    )
   }
 
-  // Generates the full, uncompressed JSON string for copy/paste
-  const generateFullSaveString = (): string => {
-    const state: SavedState = {
-      comparisonMode,
-      exchangeRates: primaryExchangeRates,
-      modelA: {
-        founderName: founderNameA,
-        initialShares: initialSharesA,
-        events: eventsA.map(({ capTable, ...event }) => event),
-      },
-      ...(comparisonMode && {
-        modelB: {
-          founderName: founderNameB,
-          initialShares: initialSharesB,
-          events: eventsB.map(({ capTable, ...event }) => event),
-        },
+  const updateRoundInvestor = (
+    scenarioId: string,
+    round: FundingRound,
+    investorId: string,
+    changes: Partial<RoundInvestor>,
+  ) => {
+    updateEvent(
+      scenarioId,
+      round.id,
+      "investors",
+      round.investors.map((investor) => {
+        if (investor.id === investorId) return { ...investor, ...changes }
+        // Only one investor can fill the remainder of the round
+        return changes.fillRemaining ? { ...investor, fillRemaining: false } : investor
       }),
-    }
-    return JSON.stringify(state, null, 2)
+    )
   }
 
-  // Generates the compressed string for URL sharing
-  const generateCompressedSaveString = (): string => {
-    const state: SavedState = {
-      comparisonMode,
-      exchangeRates: primaryExchangeRates,
-      modelA: {
-        founderName: founderNameA,
-        initialShares: initialSharesA,
-        events: eventsA.map(({ capTable, ...event }) => event),
-      },
-      ...(comparisonMode && {
-        modelB: {
-          founderName: founderNameB,
-          initialShares: initialSharesB,
-          events: eventsB.map(({ capTable, ...event }) => event),
-        },
-      }),
-    }
-    return LZString.compressToEncodedURIComponent(JSON.stringify(state))
+  const updateSecondarySeller = (
+    scenarioId: string,
+    sale: SecondarySale,
+    sellerId: string,
+    changes: Partial<SecondarySeller>,
+  ) => {
+    updateEvent(
+      scenarioId,
+      sale.id,
+      "sellers",
+      sale.sellers.map((seller) => (seller.id === sellerId ? { ...seller, ...changes } : seller)),
+    )
   }
 
-  const loadState = (state: SavedState | any) => {
-    // Handle new format
-    if (state.modelA) {
-      // Set exchange rates
-      if (state.exchangeRates) {
-        setPrimaryExchangeRates(state.exchangeRates)
-      } else {
-        setPrimaryExchangeRates(DEFAULT_PRIMARY_EXCHANGE_RATES)
-      }
+  const updateProRataParticipant = (
+    scenarioId: string,
+    round: FundingRound,
+    participantId: string,
+    changes: Partial<ProRataParticipant>,
+  ) => {
+    updateEvent(
+      scenarioId,
+      round.id,
+      "proRataParticipants",
+      round.proRataParticipants.map((participant) =>
+        participant.id === participantId ? { ...participant, ...changes } : participant,
+      ),
+    )
+  }
+
+  // Warrants and option grants issued before an event, for exercises
+  const getExercisableInstruments = (scenarioId: string, currentEventId: string) => {
+    const { events } = getScenario(scenarioId)
+    const currentEvent = events.find((e) => e.id === currentEventId)
+    if (!currentEvent) return []
 
-      // Set comparison mode
-      setComparisonMode(!!state.comparisonMode)
-
-      // Load model A
-      setFounderNameA(state.modelA.founderName || "Founders")
-      setInitialSharesA(state.modelA.initialShares || 10000000)
-      const eventsA = state.modelA.events.map((eventData: any) => ({
-        ...eventData,
-        capTable: [],
-        totalSharesAfter: 0,
-        newSharesIssued: 0,
-      }))
-      setEventsA(
-        recalculateAllEvents(eventsA, state.modelA.founderName || "Founders", state.modelA.initialShares || 10000000),
+    return events
+      .filter((e) => e.order < currentEvent.order)
+      .filter(
+        (e): e is Warrant | OptionGrant =>
+          (e.type === "warrant" && e.warrantShares > 0) || (e.type === "option-grant" && e.grantedOptions > 0),
       )
+  }
 
-      // Load model B if in comparison mode
-      if (state.comparisonMode && state.modelB) {
-        setFounderNameB(state.modelB.founderName || "Founders")
-        setInitialSharesB(state.modelB.initialShares || 10000000)
-        const eventsB = state.modelB.events.map((eventData: any) => ({
-          ...eventData,
-          capTable: [],
-          totalSharesAfter: 0,
-          newSharesIssued: 0,
-        }))
-        setEventsB(
-          recalculateAllEvents(eventsB, state.modelB.founderName || "Founders", state.modelB.initialShares || 10000000),
-        )
-      } else {
-        // Initialize model B with model A data
-        setFounderNameB(state.modelA.founderName || "Founders")
-        setInitialSharesB(state.modelA.initialShares || 10000000)
-        setEventsB(JSON.parse(JSON.stringify(eventsA)))
-      }
-    } else {
-      // Handle legacy format (backward compatibility)
-      if (state.exchangeRates) {
-        setPrimaryExchangeRates(state.exchangeRates)
-      } else {
-        setPrimaryExchangeRates(DEFAULT_PRIMARY_EXCHANGE_RATES)
-      }
+  // Get pools that exist before an event, for option pool top-ups and grants
+  const getAvailablePools = (scenarioId: string, currentEventId: string) => {
+    const { events } = getScenario(scenarioId)
+    const currentEvent = events.find((e) => e.id === currentEventId)
+    if (!currentEvent) return []
 
-      setComparisonMode(false)
-      setFounderNameA(state.founderName || "Founders")
-      setInitialSharesA(10000000) // Default for legacy
-
-      // Load events (backwards compatibility)
-      if (state.events) {
-        const restoredEvents = state.events.map((eventData: any) => ({
-          ...eventData,
-          capTable: [],
-          totalSharesAfter: 0,
-          newSharesIssued: 0,
-        }))
-        setEventsA(recalculateAllEvents(restoredEvents, state.founderName || "Founders", 10000000))
-      } else {
-        // Handle old format with separate rounds and optionPools
-        const legacyState = state
-        const restoredEvents: Event[] = []
-
-        if (legacyState.rounds) {
-          legacyState.rounds.forEach((roundData: any, index: number) => {
-            restoredEvents.push({
-              ...roundData,
-              type: "funding",
-              capTable: [],
-              order: index * 2 + 1,
-              totalSharesAfter: 0,
-              newSharesIssued: 0,
-            })
-          })
-        }
+    const poolNames = new Set<string>()
+    events
+      .filter((e) => e.order < currentEvent.order)
+      .forEach((e) => {
+        if (e.type === "option-pool" && e.newSharesIssued > 0) poolNames.add(e.poolRowName || e.name)
+        if (e.type === "funding" && e.poolTopUpShares > 0) poolNames.add(e.poolTopUpName)
+      })
+    return Array.from(poolNames)
+  }
 
-        if (legacyState.optionPools) {
-          legacyState.optionPools.forEach((poolData: any, index: number) => {
-            restoredEvents.push({
-              ...poolData,
-              type: "option-pool",
-              capTable: [],
-              order: index * 2 + 2,
-              totalSharesAfter: 0,
-              newSharesIssued: 0,
-            })
-          })
-        }
+  const getSavedState = (): SavedState => ({
+    comparisonMode,
+    exchangeRates: primaryExchangeRates,
+    scenarios: scenarios.map((scenario) => ({
+      id: scenario.id,
+      name: scenario.name,
+      initialHolders: scenario.initialHolders,
+      events: scenario.events.map(({ capTable, ...event }) => event),
+      variables: scenario.variables,
+    })),
+    activeScenarioId,
+    comparedScenarioIds,
+  })
 
-        setEventsA(recalculateAllEvents(restoredEvents, state.founderName || "Founders", 10000000))
-      }
+  // Generates the full, uncompressed JSON string for copy/paste
+  const generateFullSaveString = (): string => {
+    return JSON.stringify(getSavedState(), null, 2)
+  }
 
-      // Initialize model B with model A data
-      setFounderNameB(state.founderName || "Founders")
-      setInitialSharesB(10000000)
-      setEventsB(JSON.parse(JSON.stringify(eventsA)))
-    }
+  // Generates the compressed string for URL sharing
+  const generateCompressedSaveString = (): string => {
+    return LZString.compressToEncodedURIComponent(JSON.stringify(getSavedState()))
+  }
+
+  const loadState = (state: SavedState | any) => {
+    const restored = restoreSavedState(state)
+    setPrimaryExchangeRates(restored.exchangeRates)
+    setScenarios(restored.scenarios.map(recalculateScenario))
+    setActiveScenarioId(restored.activeScenarioId)
+    setComparedScenarioIds(restored.comparedScenarioIds)
+    setComparisonMode(restored.comparisonMode)
   }
 
   const handleCopyState = () => {
@@ -977,168 +965,1747 @@ export default function StartupDilutionCalculator() {
     }))
   }
 
-  // Sort events by order for display
-  const sortedEventsA = [...eventsA].sort((a, b) => a.order - b.order)
-  const sortedEventsB = [...eventsB].sort((a, b) => a.order - b.order)
-
-  const renderCapTable = (
-    capTable: Shareholder[],
-    founderName: string,
-    events: Event[],
-    currentEventOrder?: number,
+  // Range a round input may take in the Monte Carlo simulation; "Fixed" always uses the round's value
+  const renderDistributionInputs = (
+    scenarioId: string,
+    round: FundingRound,
+    field: "valuationDistribution" | "investmentDistribution" | "poolDistribution",
+    label: string,
+    current: number,
   ) => {
-    // Determine which shareholders are part of "The Team" based on event types
-    // The Team includes: founders + all option pools that have been created up to this point
-    const optionPoolNames = new Set<string>()
-
-    // Get all option pool names that should exist at this point in time
-    if (currentEventOrder !== undefined) {
-      events
-        .filter((e) => e.type === "option-pool" && e.order <= currentEventOrder)
-        .forEach((e) => optionPoolNames.add(e.name))
-    } else {
-      // If no current event order specified, include all option pools
-      events.filter((e) => e.type === "option-pool").forEach((e) => optionPoolNames.add(e.name))
-    }
+    const distribution = round[field]
+    const isLognormal = distribution?.type === "lognormal"
+    const updateDistribution = (changes: Partial<InputDistribution>) =>
+      updateEvent(scenarioId, round.id, field, { ...distribution, ...changes })
 
-    // Check if there are any option pools in the current cap table
-    const hasOptionPools = capTable.some((shareholder) => optionPoolNames.has(shareholder.name))
-
-    if (!hasOptionPools) {
-      // No option pools, render normally but with blue border for founders
-      return capTable.map((shareholder, index) => (
-        <div
-          key={index}
-          className={`flex justify-between items-center py-1 px-2 bg-white rounded text-sm ${shareholder.name === founderName ? "border-l-4 border-l-blue-500" : ""}`}
-        >
-          <span className="font-medium text-gray-800">{shareholder.name}</span>
-          <div className="text-right">
-            <span className="font-semibold text-gray-900">{shareholder.percentage.toFixed(1)}%</span>
-            <span className="text-xs text-gray-500 ml-2">{shareholder.shares.toLocaleString()}</span>
-          </div>
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <Label htmlFor={`${field}-${round.id}`} className="text-sm text-gray-700">
+            {label}
+          </Label>
+          <Select
+            value={distribution ? distribution.type : "fixed"}
+            onValueChange={(value) =>
+              updateEvent(
+                scenarioId,
+                round.id,
+                field,
+                value === "fixed"
+                  ? null
+                  : {
+                      type: value as DistributionType,
+                      low: distribution?.low ?? current * 0.5,
+                      high: distribution?.high ?? current * 1.5,
+                      mode: distribution?.mode ?? current,
+                    },
+              )
+            }
+          >
+            <SelectTrigger id={`${field}-${round.id}`} className="mt-1 border-gray-300 focus:border-gray-500">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fixed">Fixed</SelectItem>
+              {(Object.keys(DISTRIBUTION_LABELS) as DistributionType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {DISTRIBUTION_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
-      ))
-    }
-
-    // Group founders and option pools as "The Team"
-    const teamMembers = capTable.filter(
-      (shareholder) => shareholder.name === founderName || optionPoolNames.has(shareholder.name),
-    )
-    const investors = capTable.filter(
-      (shareholder) => shareholder.name !== founderName && !optionPoolNames.has(shareholder.name),
+        {distribution && (
+          <>
+            <div>
+              <Label htmlFor={`${field}-low-${round.id}`} className="text-sm text-gray-700">
+                {isLognormal ? "P10" : "Low"}
+              </Label>
+              <Input
+                id={`${field}-low-${round.id}`}
+                type="number"
+                value={distribution.low || ""}
+                onChange={(e) => updateDistribution({ low: Number(e.target.value) })}
+                placeholder="0"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+            {distribution.type === "triangular" && (
+              <div>
+                <Label htmlFor={`${field}-mode-${round.id}`} className="text-sm text-gray-700">
+                  Most Likely
+                </Label>
+                <Input
+                  id={`${field}-mode-${round.id}`}
+                  type="number"
+                  value={distribution.mode || ""}
+                  onChange={(e) => updateDistribution({ mode: Number(e.target.value) })}
+                  placeholder="0"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor={`${field}-high-${round.id}`} className="text-sm text-gray-700">
+                {isLognormal ? "P90" : "High"}
+              </Label>
+              <Input
+                id={`${field}-high-${round.id}`}
+                type="number"
+                value={distribution.high || ""}
+                onChange={(e) => updateDistribution({ high: Number(e.target.value) })}
+                placeholder="0"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+          </>
+        )}
+      </div>
     )
+  }
 
-    const teamTotalPercentage = teamMembers.reduce((sum, member) => sum + member.percentage, 0)
-    const teamTotalShares = teamMembers.reduce((sum, member) => sum + member.shares, 0)
+  // Switches every cap table panel between the issued and fully-diluted basis
+  const renderCapTableBasisToggle = (totalShares: number) => (
+    <div className="flex justify-between items-center pb-1 text-xs text-gray-500">
+      <span>
+        {totalShares.toLocaleString()} shares {capTableBasis === "issued" ? "issued" : "fully diluted"}
+      </span>
+      <Label className="flex items-center gap-2 text-xs text-gray-600">
+        <Switch
+          checked={capTableBasis === "fully-diluted"}
+          onCheckedChange={(checked) => setCapTableBasis(checked ? "fully-diluted" : "issued")}
+        />
+        Fully diluted
+      </Label>
+    </div>
+  )
 
-    return (
-      <>
-        {/* The Team (grouped) */}
-        <div className="flex justify-between items-center py-1 px-2 bg-white rounded text-sm border-l-4 border-l-blue-500">
+  const renderCapTable = (fullyDilutedCapTable: Shareholder[], events: Event[], currentEventOrder?: number) => {
+    // The issued basis leaves out the pool, granted options and unexercised warrants
+    const capTable = getCapTableOnBasis(fullyDilutedCapTable, capTableBasis)
+    const totalShares = capTable.reduce((sum, shareholder) => sum + shareholder.shares, 0)
+
+    // Determine which shareholders are part of "The Team" based on role and event types
+    // The Team includes: founders, employees and advisors + all option pools created up to this point
+    const optionPoolNames = new Set<string>()
+
+    // Get all option pool names that should exist at this point in time (all of them if no
+    // current event order is specified), including pools created by a round's pre-money top-up
+    events
+      .filter((e) => currentEventOrder === undefined || e.order <= currentEventOrder)
+      .forEach((e) => {
+        if (e.type === "option-pool") optionPoolNames.add(e.poolRowName || e.name)
+        if (e.type === "funding" && e.poolTopUpShares > 0) optionPoolNames.add(e.poolTopUpName)
+      })
+
+    // Once options are granted, pool rows only hold the unallocated remainder
+    const grantedPoolNames = new Set(capTable.map((shareholder) => shareholder.grantedFromPool).filter(Boolean))
+    const warrantName = (warrantId: string) => events.find((e) => e.id === warrantId)?.name || "Warrant"
+    const displayName = (shareholder: Shareholder) =>
+      shareholder.grantedFromPool
+        ? `${shareholder.name} (${shareholder.grantedFromPool} options)`
+        : shareholder.warrantId
+          ? `${shareholder.name} (${warrantName(shareholder.warrantId)} warrants)`
+          : grantedPoolNames.has(shareholder.name)
+            ? `${shareholder.name} (unallocated)`
+            : shareholder.name
+
+    // The engine keeps one row per holder and share class (each class has its own liquidation
+    // terms); investors who came in across several rounds are shown as a single line
+    const rows: Shareholder[] = []
+    capTable.forEach((shareholder) => {
+      const row = rows.find(
+        (r) =>
+          r.name === shareholder.name &&
+          r.grantedFromPool === shareholder.grantedFromPool &&
+          r.warrantId === shareholder.warrantId,
+      )
+      if (row) {
+        row.shares += shareholder.shares
+        row.percentage += shareholder.percentage
+      } else {
+        rows.push({ ...shareholder })
+      }
+    })
+
+    const isTeamMember = (shareholder: Shareholder) =>
+      (!!shareholder.role && TEAM_ROLES.includes(shareholder.role)) || optionPoolNames.has(shareholder.name)
+
+    const teamMembers = rows.filter(isTeamMember)
+    const investors = rows.filter((shareholder) => !isTeamMember(shareholder))
+
+    if (teamMembers.length <= 1) {
+      // Nothing to group, render normally but with blue border for the team
+      return (
+        <>
+          {renderCapTableBasisToggle(totalShares)}
+          {rows.map((shareholder, index) => (
+            <div
+              key={index}
+              className={`flex justify-between items-center py-1 px-2 bg-white rounded text-sm ${isTeamMember(shareholder) ? "border-l-4 border-l-blue-500" : ""}`}
+            >
+              <span className="font-medium text-gray-800">{displayName(shareholder)}</span>
+              <div className="text-right">
+                <span className="font-semibold text-gray-900">{shareholder.percentage.toFixed(1)}%</span>
+                <span className="text-xs text-gray-500 ml-2">{shareholder.shares.toLocaleString()}</span>
+              </div>
+            </div>
+          ))}
+        </>
+      )
+    }
+
+    // Group team members and option pools as "The Team"
+    const teamTotalPercentage = teamMembers.reduce((sum, member) => sum + member.percentage, 0)
+    const teamTotalShares = teamMembers.reduce((sum, member) => sum + member.shares, 0)
+
+    return (
+      <>
+        {renderCapTableBasisToggle(totalShares)}
+
+        {/* The Team (grouped) */}
+        <div className="flex justify-between items-center py-1 px-2 bg-white rounded text-sm border-l-4 border-l-blue-500">
           <span className="font-medium text-gray-800">The Team</span>
           <div className="text-right">
             <span className="font-semibold text-gray-900">{teamTotalPercentage.toFixed(1)}%</span>
             <span className="text-xs text-gray-500 ml-2">{teamTotalShares.toLocaleString()}</span>
           </div>
-        </div>
+        </div>
+
+        {/* Team breakdown */}
+        {teamMembers.map((member, index) => (
+          <div
+            key={`team-${index}`}
+            className="flex justify-between items-center py-1 px-2 ml-4 bg-gray-50 rounded text-sm"
+          >
+            <span className="font-medium text-gray-700">└ {displayName(member)}</span>
+            <div className="text-right">
+              <span className="font-semibold text-gray-800">{member.percentage.toFixed(1)}%</span>
+              <span className="text-xs text-gray-500 ml-2">{member.shares.toLocaleString()}</span>
+            </div>
+          </div>
+        ))}
+
+        {/* Investors (individual entries) */}
+        {investors.map((investor, index) => (
+          <div
+            key={`investor-${index}`}
+            className="flex justify-between items-center py-1 px-2 bg-white rounded text-sm"
+          >
+            <span className="font-medium text-gray-800">{displayName(investor)}</span>
+            <div className="text-right">
+              <span className="font-semibold text-gray-900">{investor.percentage.toFixed(1)}%</span>
+              <span className="text-xs text-gray-500 ml-2">{investor.shares.toLocaleString()}</span>
+            </div>
+          </div>
+        ))}
+      </>
+    )
+  }
+
+  const InsertionPoint = ({
+    scenarioId,
+    afterOrder,
+    isFirst = false,
+  }: { scenarioId: string; afterOrder: number; isFirst?: boolean }) => {
+    const insertionId = `insert-${afterOrder}-${scenarioId}`
+    const isActive = activeInsertionPoint === insertionId
+
+    return (
+      <div className="flex justify-center -mt-3 mb-3">
+        {!isActive ? (
+          <button
+            onClick={() => setActiveInsertionPoint(insertionId)}
+            className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center transition-colors duration-200 opacity-60 hover:opacity-100"
+            title="Add event here"
+          >
+            <Plus className="h-4 w-4 text-gray-600" />
+          </button>
+        ) : (
+          <div className="flex gap-2 p-2 bg-white rounded-lg shadow-sm border">
+            <Button
+              onClick={() => addRound(scenarioId, afterOrder)}
+              size="sm"
+              className="bg-gray-900 hover:bg-gray-700 text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Funding Round
+            </Button>
+            <Button
+              onClick={() => addOptionPool(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Option Pool
+            </Button>
+            <Button
+              onClick={() => addSafe(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              SAFE
+            </Button>
+            <Button
+              onClick={() => addConvertibleNote(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Note
+            </Button>
+            <Button
+              onClick={() => addOptionGrant(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Grant
+            </Button>
+            <Button
+              onClick={() => addSecondarySale(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Secondary
+            </Button>
+            <Button
+              onClick={() => addShareBuyback(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Buyback
+            </Button>
+            <Button
+              onClick={() => addStockSplit(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Split
+            </Button>
+            <Button
+              onClick={() => addWarrant(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Warrant
+            </Button>
+            <Button
+              onClick={() => addExercise(scenarioId, afterOrder)}
+              size="sm"
+              variant="outline"
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Exercise
+            </Button>
+            <Button
+              onClick={() => setActiveInsertionPoint(null)}
+              size="sm"
+              variant="ghost"
+              className="text-gray-500 hover:text-gray-700"
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const renderAntiDilutionAdjustments = (round: FundingRound) => {
+    const antiDilutionShares = round.antiDilutionAdjustments.reduce(
+      (sum, adjustment) => sum + adjustment.additionalShares,
+      0,
+    )
+    const founderShares = round.capTable
+      .filter((shareholder) => shareholder.role === "founder")
+      .reduce((sum, shareholder) => sum + shareholder.shares, 0)
+    // The extra shares are part of the pre-money, and the round's own shares scale with it
+    const roundShares = [...round.proRataAllocations, ...round.investorAllocations].reduce(
+      (sum, allocation) => sum + allocation.shares,
+      0,
+    )
+    const preRoundShares = round.totalSharesAfter - roundShares
+    const totalSharesWithoutAntiDilution =
+      (round.totalSharesAfter * (preRoundShares - antiDilutionShares)) / preRoundShares
+
+    return (
+      <div className="bg-red-50 rounded-lg p-3 space-y-2">
+        <h4 className="font-medium text-sm text-red-800">Down Round Anti-Dilution</h4>
+        <div className="space-y-1 text-sm text-gray-700">
+          {round.antiDilutionAdjustments.map((adjustment) => (
+            <div key={adjustment.shareClass} className="flex justify-between">
+              <span>
+                {adjustment.shareClass}{" "}
+                <span className="text-xs text-gray-500">({ANTI_DILUTION_LABELS[adjustment.type]})</span>
+              </span>
+              <span className="font-semibold text-gray-900">
+                +{adjustment.additionalShares.toLocaleString()} shares
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="border-t pt-1 border-red-200 text-xs text-gray-600 space-y-1">
+          {round.antiDilutionAdjustments.map((adjustment) => (
+            <div key={adjustment.shareClass}>
+              {adjustment.shareClass} conversion price:{" "}
+              {formatPricePerShare(adjustment.previousConversionPrice, adjustment.currency)} →{" "}
+              {formatPricePerShare(adjustment.adjustedConversionPrice, adjustment.currency)}
+            </div>
+          ))}
+          {founderShares > 0 && (
+            <div>
+              Founders after round: {((founderShares / round.totalSharesAfter) * 100).toFixed(1)}% (
+              {((founderShares / totalSharesWithoutAntiDilution) * 100).toFixed(1)}% without anti-dilution)
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const renderSafeCard = (scenarioId: string, safe: Safe, events: Event[]) => {
+    const convertingRound = events.find((e) => e.id === safe.convertedInRoundId) as FundingRound | undefined
+
+    return (
+      <Card key={safe.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">📝 {safe.name}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeEvent(scenarioId, safe.id)}
+              className="text-gray-600 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor={`safe-name-${safe.id}`} className="text-sm text-gray-700">
+                SAFE Name
+              </Label>
+              <Input
+                id={`safe-name-${safe.id}`}
+                value={safe.name}
+                onChange={(e) => updateEvent(scenarioId, safe.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`safe-currency-${safe.id}`} className="text-sm text-gray-700">
+                Currency
+              </Label>
+              <Select
+                value={safe.currency}
+                onValueChange={(value) => updateEvent(scenarioId, safe.id, "currency", value as "USD" | "GBP" | "EUR")}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="USD">USD ($)</SelectItem>
+                  <SelectItem value="GBP">GBP (£)</SelectItem>
+                  <SelectItem value="EUR">EUR (€)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`safe-investment-${safe.id}`} className="text-sm text-gray-700">
+                Investment Amount
+              </Label>
+              <Input
+                id={`safe-investment-${safe.id}`}
+                type="number"
+                value={safe.investmentAmount || ""}
+                onChange={(e) => updateEvent(scenarioId, safe.id, "investmentAmount", Number(e.target.value))}
+                placeholder="0"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`safe-investor-${safe.id}`} className="text-sm text-gray-700">
+                Investor
+              </Label>
+              <Input
+                id={`safe-investor-${safe.id}`}
+                value={safe.investorName}
+                onChange={(e) => updateEvent(scenarioId, safe.id, "investorName", e.target.value)}
+                placeholder="Investor name"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+            <h4 className="font-medium text-sm text-gray-800">SAFE Terms</h4>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor={`safe-type-${safe.id}`} className="text-sm text-gray-700">
+                  SAFE Type
+                </Label>
+                <Select
+                  value={safe.safeType}
+                  onValueChange={(value) => updateEvent(scenarioId, safe.id, "safeType", value)}
+                >
+                  <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="post-money">Post-Money</SelectItem>
+                    <SelectItem value="pre-money">Pre-Money</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor={`safe-cap-${safe.id}`} className="text-sm text-gray-700">
+                  Valuation Cap
+                </Label>
+                <Input
+                  id={`safe-cap-${safe.id}`}
+                  type="number"
+                  value={safe.valuationCap || ""}
+                  onChange={(e) => updateEvent(scenarioId, safe.id, "valuationCap", Number(e.target.value))}
+                  placeholder="Uncapped"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`safe-discount-${safe.id}`} className="text-sm text-gray-700">
+                  Discount %
+                </Label>
+                <Input
+                  id={`safe-discount-${safe.id}`}
+                  type="number"
+                  value={safe.discountPercentage || ""}
+                  onChange={(e) => updateEvent(scenarioId, safe.id, "discountPercentage", Number(e.target.value))}
+                  placeholder="0"
+                  min="0"
+                  max="100"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div className="flex items-end gap-2 pb-2">
+                <Switch
+                  id={`safe-mfn-${safe.id}`}
+                  checked={safe.mfn}
+                  onCheckedChange={(checked) => updateEvent(scenarioId, safe.id, "mfn", checked)}
+                />
+                <Label htmlFor={`safe-mfn-${safe.id}`} className="text-sm text-gray-700">
+                  MFN
+                </Label>
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-3 mt-3 text-sm text-gray-700">
+              {convertingRound ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <div className="flex justify-between">
+                      <span>Converted in:</span>
+                      <span className="font-semibold text-gray-900">{convertingRound.name}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Conversion price:</span>
+                      <span className="font-semibold text-gray-900">
+                        {formatPricePerShare(safe.conversionPrice, convertingRound.currency)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Shares issued:</span>
+                      <span className="font-semibold text-gray-900">{safe.conversionShares.toLocaleString()}</span>
+                    </div>
+                  </div>
+                  <div className="text-xs text-gray-600 space-y-1">
+                    {safe.conversionBasis && <div>Converted at {CONVERSION_BASIS_LABELS[safe.conversionBasis]}</div>}
+                    <div>
+                      Round price: {formatPricePerShare(convertingRound.pricePerShare, convertingRound.currency)}
+                    </div>
+                    {convertingRound.totalSharesAfter > 0 && (
+                      <div>
+                        Ownership after round:{" "}
+                        {((safe.conversionShares / convertingRound.totalSharesAfter) * 100).toFixed(1)}%
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div className="text-xs text-gray-600">
+                  Unconverted. This SAFE converts into shares at the next priced funding round.
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderConvertibleNoteCard = (scenarioId: string, note: ConvertibleNote, events: Event[]) => {
+    const convertingRound = events.find((e) => e.id === note.convertedInRoundId) as FundingRound | undefined
+
+    return (
+      <Card key={note.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">📜 {note.name}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeEvent(scenarioId, note.id)}
+              className="text-gray-600 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor={`note-name-${note.id}`} className="text-sm text-gray-700">
+                Note Name
+              </Label>
+              <Input
+                id={`note-name-${note.id}`}
+                value={note.name}
+                onChange={(e) => updateEvent(scenarioId, note.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`note-currency-${note.id}`} className="text-sm text-gray-700">
+                Currency
+              </Label>
+              <Select
+                value={note.currency}
+                onValueChange={(value) => updateEvent(scenarioId, note.id, "currency", value as "USD" | "GBP" | "EUR")}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="USD">USD ($)</SelectItem>
+                  <SelectItem value="GBP">GBP (£)</SelectItem>
+                  <SelectItem value="EUR">EUR (€)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`note-principal-${note.id}`} className="text-sm text-gray-700">
+                Principal
+              </Label>
+              <Input
+                id={`note-principal-${note.id}`}
+                type="number"
+                value={note.principal || ""}
+                onChange={(e) => updateEvent(scenarioId, note.id, "principal", Number(e.target.value))}
+                placeholder="0"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`note-investor-${note.id}`} className="text-sm text-gray-700">
+                Noteholder
+              </Label>
+              <Input
+                id={`note-investor-${note.id}`}
+                value={note.investorName}
+                onChange={(e) => updateEvent(scenarioId, note.id, "investorName", e.target.value)}
+                placeholder="Noteholder name"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+            <h4 className="font-medium text-sm text-gray-800">Note Terms</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor={`note-rate-${note.id}`} className="text-sm text-gray-700">
+                  Interest Rate %
+                </Label>
+                <Input
+                  id={`note-rate-${note.id}`}
+                  type="number"
+                  value={note.interestRate || ""}
+                  onChange={(e) => updateEvent(scenarioId, note.id, "interestRate", Number(e.target.value))}
+                  placeholder="0"
+                  min="0"
+                  step="0.1"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`note-interest-type-${note.id}`} className="text-sm text-gray-700">
+                  Interest Type
+                </Label>
+                <Select
+                  value={note.interestType}
+                  onValueChange={(value) => updateEvent(scenarioId, note.id, "interestType", value)}
+                >
+                  <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="simple">Simple</SelectItem>
+                    <SelectItem value="compound">Compound (annual)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor={`note-issue-date-${note.id}`} className="text-sm text-gray-700">
+                  Issue Date
+                </Label>
+                <Input
+                  id={`note-issue-date-${note.id}`}
+                  type="date"
+                  value={note.issueDate}
+                  onChange={(e) => updateEvent(scenarioId, note.id, "issueDate", e.target.value)}
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`note-maturity-date-${note.id}`} className="text-sm text-gray-700">
+                  Maturity Date
+                </Label>
+                <Input
+                  id={`note-maturity-date-${note.id}`}
+                  type="date"
+                  value={note.maturityDate}
+                  onChange={(e) => updateEvent(scenarioId, note.id, "maturityDate", e.target.value)}
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`note-cap-${note.id}`} className="text-sm text-gray-700">
+                  Valuation Cap
+                </Label>
+                <Input
+                  id={`note-cap-${note.id}`}
+                  type="number"
+                  value={note.valuationCap || ""}
+                  onChange={(e) => updateEvent(scenarioId, note.id, "valuationCap", Number(e.target.value))}
+                  placeholder="Uncapped"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`note-discount-${note.id}`} className="text-sm text-gray-700">
+                  Discount %
+                </Label>
+                <Input
+                  id={`note-discount-${note.id}`}
+                  type="number"
+                  value={note.discountPercentage || ""}
+                  onChange={(e) => updateEvent(scenarioId, note.id, "discountPercentage", Number(e.target.value))}
+                  placeholder="0"
+                  min="0"
+                  max="100"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-3 mt-3 text-sm text-gray-700">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span>Principal:</span>
+                    <span className="font-semibold text-gray-900">{formatCurrency(note.principal, note.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>{convertingRound ? "Accrued interest:" : "Interest to maturity:"}</span>
+                    <span className="font-semibold text-gray-900">
+                      {formatCurrency(Math.round(note.accruedInterest), note.currency)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between border-t pt-1 border-gray-200">
+                    <span>{convertingRound ? "Converted amount:" : "Amount at maturity:"}</span>
+                    <span className="font-semibold text-gray-900">
+                      {formatCurrency(Math.round(note.principal + note.accruedInterest), note.currency)}
+                    </span>
+                  </div>
+                </div>
+
+                {convertingRound ? (
+                  <div className="text-xs text-gray-600 space-y-1">
+                    <div>
+                      Converted in: {convertingRound.name}
+                      {convertingRound.date ? ` (${convertingRound.date})` : " (undated, accrued to maturity)"}
+                    </div>
+                    <div>
+                      Conversion price: {formatPricePerShare(note.conversionPrice, convertingRound.currency)}
+                      {note.conversionBasis && ` (${CONVERSION_BASIS_LABELS[note.conversionBasis]})`}
+                    </div>
+                    <div>Shares issued: {note.conversionShares.toLocaleString()}</div>
+                    <div>
+                      Round price: {formatPricePerShare(convertingRound.pricePerShare, convertingRound.currency)}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-600">
+                    Unconverted. Principal plus accrued interest converts into shares at the next priced funding
+                    round, accruing up to that round's close date.
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderOptionGrantCard = (scenarioId: string, grant: OptionGrant, events: Event[]) => {
+    const vestedOptions = grant.grantDate ? calculateVestedOptions(grant, vestingDate) : 0
+
+    return (
+      <Card key={grant.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">🎟️ {grant.name}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeEvent(scenarioId, grant.id)}
+              className="text-gray-600 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor={`grant-name-${grant.id}`} className="text-sm text-gray-700">
+                Grant Name
+              </Label>
+              <Input
+                id={`grant-name-${grant.id}`}
+                value={grant.name}
+                onChange={(e) => updateEvent(scenarioId, grant.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`grant-holder-${grant.id}`} className="text-sm text-gray-700">
+                Holder
+              </Label>
+              <Input
+                id={`grant-holder-${grant.id}`}
+                value={grant.holderName}
+                onChange={(e) => updateEvent(scenarioId, grant.id, "holderName", e.target.value)}
+                placeholder="Grantee name"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`grant-role-${grant.id}`} className="text-sm text-gray-700">
+                Role
+              </Label>
+              <Select value={grant.role} onValueChange={(value) => updateEvent(scenarioId, grant.id, "role", value)}>
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(HOLDER_ROLE_LABELS) as HolderRole[]).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {HOLDER_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`grant-pool-${grant.id}`} className="text-sm text-gray-700">
+                Option Pool
+              </Label>
+              <Select
+                value={grant.poolName}
+                onValueChange={(value) => updateEvent(scenarioId, grant.id, "poolName", value)}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue placeholder="Most recent pool" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getAvailablePools(scenarioId, grant.id).map((poolName) => (
+                    <SelectItem key={poolName} value={poolName}>
+                      {poolName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+            <h4 className="font-medium text-sm text-gray-800">Grant Terms</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor={`grant-options-${grant.id}`} className="text-sm text-gray-700">
+                  Options
+                </Label>
+                <Input
+                  id={`grant-options-${grant.id}`}
+                  type="number"
+                  value={grant.options || ""}
+                  onChange={(e) => updateEvent(scenarioId, grant.id, "options", Number(e.target.value))}
+                  placeholder="0"
+                  min="0"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`grant-currency-${grant.id}`} className="text-sm text-gray-700">
+                  Currency
+                </Label>
+                <Select
+                  value={grant.currency}
+                  onValueChange={(value) => updateEvent(scenarioId, grant.id, "currency", value as Currency)}
+                >
+                  <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="USD">USD ($)</SelectItem>
+                    <SelectItem value="GBP">GBP (£)</SelectItem>
+                    <SelectItem value="EUR">EUR (€)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor={`grant-strike-${grant.id}`} className="text-sm text-gray-700">
+                  Strike Price
+                </Label>
+                <Input
+                  id={`grant-strike-${grant.id}`}
+                  type="number"
+                  value={grant.strikePrice || ""}
+                  onChange={(e) => updateEvent(scenarioId, grant.id, "strikePrice", Number(e.target.value))}
+                  placeholder="0"
+                  min="0"
+                  step="0.0001"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`grant-date-${grant.id}`} className="text-sm text-gray-700">
+                  Grant Date
+                </Label>
+                <Input
+                  id={`grant-date-${grant.id}`}
+                  type="date"
+                  value={grant.grantDate}
+                  onChange={(e) => updateEvent(scenarioId, grant.id, "grantDate", e.target.value)}
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`grant-vesting-${grant.id}`} className="text-sm text-gray-700">
+                  Vesting (months)
+                </Label>
+                <Input
+                  id={`grant-vesting-${grant.id}`}
+                  type="number"
+                  value={grant.vestingMonths || ""}
+                  onChange={(e) => updateEvent(scenarioId, grant.id, "vestingMonths", Number(e.target.value))}
+                  placeholder="48"
+                  min="0"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor={`grant-cliff-${grant.id}`} className="text-sm text-gray-700">
+                  Cliff (months)
+                </Label>
+                <Input
+                  id={`grant-cliff-${grant.id}`}
+                  type="number"
+                  value={grant.cliffMonths || ""}
+                  onChange={(e) => updateEvent(scenarioId, grant.id, "cliffMonths", Number(e.target.value))}
+                  placeholder="0"
+                  min="0"
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-3 mt-3 text-xs text-gray-600 space-y-1">
+              {grant.poolRowName && grant.availableOptions > 0 ? (
+                <>
+                  <div>
+                    Drawn from: {grant.poolRowName} ({grant.availableOptions.toLocaleString()} unallocated before grant)
+                  </div>
+                  <div>Options granted: {grant.grantedOptions.toLocaleString()}</div>
+                  <div>Unallocated after grant: {(grant.availableOptions - grant.grantedOptions).toLocaleString()}</div>
+                  {grant.options > grant.availableOptions && (
+                    <div className="text-red-600">
+                      Grant exceeds the unallocated pool and was limited to{" "}
+                      {grant.availableOptions.toLocaleString()} options.
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="text-red-600">
+                  No unallocated option pool before this grant. Add an option pool first.
+                </div>
+              )}
+              {grant.strikePrice > 0 && (
+                <div>
+                  Aggregate exercise cost: {formatCurrency(grant.strikePrice * grant.grantedOptions, grant.currency)}
+                </div>
+              )}
+              {grant.grantDate && (
+                <div>
+                  Vested as of {vestingDate}: {vestedOptions.toLocaleString()} of{" "}
+                  {grant.grantedOptions.toLocaleString()}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {grant.grantedOptions > 0 && (
+            <div className="bg-gray-50 rounded-lg p-3">
+              <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {grant.name}</h4>
+              <div className="space-y-1">{renderCapTable(grant.capTable, events, grant.order)}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderSecondarySaleCard = (scenarioId: string, sale: SecondarySale, events: Event[]) => {
+    const totalProceeds = sale.sales.reduce((sum, entry) => sum + entry.proceeds, 0)
+    const totalSharesSold = sale.sales.reduce((sum, entry) => sum + entry.shares, 0)
+
+    return (
+      <Card key={sale.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">🔁 {sale.name}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeEvent(scenarioId, sale.id)}
+              className="text-gray-600 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor={`secondary-name-${sale.id}`} className="text-sm text-gray-700">
+                Sale Name
+              </Label>
+              <Input
+                id={`secondary-name-${sale.id}`}
+                value={sale.name}
+                onChange={(e) => updateEvent(scenarioId, sale.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`secondary-buyer-${sale.id}`} className="text-sm text-gray-700">
+                Buyer
+              </Label>
+              <Input
+                id={`secondary-buyer-${sale.id}`}
+                value={sale.buyerName}
+                onChange={(e) => updateEvent(scenarioId, sale.id, "buyerName", e.target.value)}
+                placeholder="New or existing holder"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`secondary-currency-${sale.id}`} className="text-sm text-gray-700">
+                Currency
+              </Label>
+              <Select
+                value={sale.currency}
+                onValueChange={(value) => updateEvent(scenarioId, sale.id, "currency", value as Currency)}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="USD">USD ($)</SelectItem>
+                  <SelectItem value="GBP">GBP (£)</SelectItem>
+                  <SelectItem value="EUR">EUR (€)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`secondary-price-${sale.id}`} className="text-sm text-gray-700">
+                Price per Share
+              </Label>
+              <Input
+                id={`secondary-price-${sale.id}`}
+                type="number"
+                value={sale.pricePerShare || ""}
+                onChange={(e) => updateEvent(scenarioId, sale.id, "pricePerShare", Number(e.target.value))}
+                placeholder="0"
+                min="0"
+                step="0.0001"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-sm text-gray-800">Sellers</h4>
+              <Button
+                onClick={() =>
+                  updateEvent(scenarioId, sale.id, "sellers", [
+                    ...sale.sellers,
+                    { id: `seller-${Date.now()}`, holderName: "", quantityType: "shares", quantity: 0 },
+                  ])
+                }
+                size="sm"
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Seller
+              </Button>
+            </div>
+            {sale.sellers.map((seller) => {
+              const entry = sale.sales.find((e) => e.holderName === seller.holderName)
+
+              return (
+                <div key={seller.id} className="grid grid-cols-1 md:grid-cols-[1fr_10rem_1fr_auto] gap-3 items-end">
+                  <div>
+                    <Label htmlFor={`seller-holder-${seller.id}`} className="text-sm text-gray-700">
+                      Seller
+                    </Label>
+                    <Select
+                      value={seller.holderName}
+                      onValueChange={(value) =>
+                        updateSecondarySeller(scenarioId, sale, seller.id, { holderName: value })
+                      }
+                    >
+                      <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                        <SelectValue placeholder="Select shareholder" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getExistingShareholderNames(scenarioId, sale.id).map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`seller-quantity-type-${seller.id}`} className="text-sm text-gray-700">
+                      Sell By
+                    </Label>
+                    <Select
+                      value={seller.quantityType}
+                      onValueChange={(value) =>
+                        updateSecondarySeller(scenarioId, sale, seller.id, {
+                          quantityType: value as SecondarySeller["quantityType"],
+                        })
+                      }
+                    >
+                      <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="shares">Shares</SelectItem>
+                        <SelectItem value="percentage">% of holding</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`seller-quantity-${seller.id}`} className="text-sm text-gray-700">
+                      {seller.quantityType === "percentage" ? "Percentage" : "Shares"}
+                    </Label>
+                    <Input
+                      id={`seller-quantity-${seller.id}`}
+                      type="number"
+                      value={seller.quantity || ""}
+                      onChange={(e) =>
+                        updateSecondarySeller(scenarioId, sale, seller.id, { quantity: Number(e.target.value) })
+                      }
+                      placeholder="0"
+                      min="0"
+                      className="mt-1 border-gray-300 focus:border-gray-500"
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateEvent(
+                        scenarioId,
+                        sale.id,
+                        "sellers",
+                        sale.sellers.filter((s) => s.id !== seller.id),
+                      )
+                    }
+                    className="text-gray-600 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  {entry && (
+                    <div className="md:col-span-4 text-xs text-gray-600">
+                      Sells {entry.shares.toLocaleString()} shares for {formatCurrency(entry.proceeds, sale.currency)}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+
+            {sale.sales.length > 0 && (
+              <div className="border-t border-gray-200 pt-3 mt-3 text-sm text-gray-700 space-y-1">
+                <div className="flex justify-between">
+                  <span>{sale.buyerName} buys:</span>
+                  <span className="font-semibold text-gray-900">{totalSharesSold.toLocaleString()} shares</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Total proceeds to sellers:</span>
+                  <span className="font-semibold text-gray-900">{formatCurrency(totalProceeds, sale.currency)}</span>
+                </div>
+                <div className="text-xs text-gray-600">
+                  No new shares are issued; total shares stay at {sale.totalSharesAfter.toLocaleString()}.
+                </div>
+              </div>
+            )}
+          </div>
 
-        {/* Team breakdown */}
-        {teamMembers.map((member, index) => (
-          <div
-            key={`team-${index}`}
-            className="flex justify-between items-center py-1 px-2 ml-4 bg-gray-50 rounded text-sm"
-          >
-            <span className="font-medium text-gray-700">└ {member.name}</span>
-            <div className="text-right">
-              <span className="font-semibold text-gray-800">{member.percentage.toFixed(1)}%</span>
-              <span className="text-xs text-gray-500 ml-2">{member.shares.toLocaleString()}</span>
+          {sale.sales.length > 0 && (
+            <div className="bg-gray-50 rounded-lg p-3">
+              <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {sale.name}</h4>
+              <div className="space-y-1">{renderCapTable(sale.capTable, events, sale.order)}</div>
             </div>
-          </div>
-        ))}
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
 
-        {/* Investors (individual entries) */}
-        {investors.map((investor, index) => (
-          <div
-            key={`investor-${index}`}
-            className="flex justify-between items-center py-1 px-2 bg-white rounded text-sm"
-          >
-            <span className="font-medium text-gray-800">{investor.name}</span>
-            <div className="text-right">
-              <span className="font-semibold text-gray-900">{investor.percentage.toFixed(1)}%</span>
-              <span className="text-xs text-gray-500 ml-2">{investor.shares.toLocaleString()}</span>
+  const renderShareBuybackCard = (scenarioId: string, buyback: ShareBuyback, events: Event[]) => {
+    return (
+      <Card key={buyback.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">↩️ {buyback.name}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeEvent(scenarioId, buyback.id)}
+              className="text-gray-600 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor={`buyback-name-${buyback.id}`} className="text-sm text-gray-700">
+                Buyback Name
+              </Label>
+              <Input
+                id={`buyback-name-${buyback.id}`}
+                value={buyback.name}
+                onChange={(e) => updateEvent(scenarioId, buyback.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`buyback-holder-${buyback.id}`} className="text-sm text-gray-700">
+                Holder
+              </Label>
+              <Select
+                value={buyback.holderName}
+                onValueChange={(value) => updateEvent(scenarioId, buyback.id, "holderName", value)}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue placeholder="Select shareholder" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getExistingShareholderNames(scenarioId, buyback.id).map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`buyback-quantity-type-${buyback.id}`} className="text-sm text-gray-700">
+                Buy Back By
+              </Label>
+              <Select
+                value={buyback.quantityType}
+                onValueChange={(value) => updateEvent(scenarioId, buyback.id, "quantityType", value)}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="shares">Shares</SelectItem>
+                  <SelectItem value="percentage">% of holding</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`buyback-quantity-${buyback.id}`} className="text-sm text-gray-700">
+                {buyback.quantityType === "percentage" ? "Percentage" : "Shares"}
+              </Label>
+              <Input
+                id={`buyback-quantity-${buyback.id}`}
+                type="number"
+                value={buyback.quantity || ""}
+                onChange={(e) => updateEvent(scenarioId, buyback.id, "quantity", Number(e.target.value))}
+                placeholder="0"
+                min="0"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`buyback-currency-${buyback.id}`} className="text-sm text-gray-700">
+                Currency
+              </Label>
+              <Select
+                value={buyback.currency}
+                onValueChange={(value) => updateEvent(scenarioId, buyback.id, "currency", value as Currency)}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="USD">USD ($)</SelectItem>
+                  <SelectItem value="GBP">GBP (£)</SelectItem>
+                  <SelectItem value="EUR">EUR (€)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`buyback-price-${buyback.id}`} className="text-sm text-gray-700">
+                Price per Share
+              </Label>
+              <Input
+                id={`buyback-price-${buyback.id}`}
+                type="number"
+                value={buyback.pricePerShare || ""}
+                onChange={(e) => updateEvent(scenarioId, buyback.id, "pricePerShare", Number(e.target.value))}
+                placeholder="0"
+                min="0"
+                step="0.0001"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
             </div>
           </div>
-        ))}
-      </>
+
+          {buyback.sharesCancelled > 0 && (
+            <>
+              <div className="bg-gray-50 rounded-lg p-3 text-xs text-gray-600">
+                <div>Shares cancelled: {buyback.sharesCancelled.toLocaleString()}</div>
+                <div>Paid to {buyback.holderName}: {formatCurrency(buyback.cost, buyback.currency)}</div>
+                <div>Fully-diluted shares after: {buyback.totalSharesAfter.toLocaleString()}</div>
+                <div>Issued shares after: {getIssuedShares(buyback.capTable).toLocaleString()}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {buyback.name}</h4>
+                <div className="space-y-1">{renderCapTable(buyback.capTable, events, buyback.order)}</div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
     )
   }
 
-  const InsertionPoint = ({
-    model,
-    afterOrder,
-    isFirst = false,
-  }: { model: "A" | "B"; afterOrder: number; isFirst?: boolean }) => {
-    const insertionId = `insert-${afterOrder}-${model}`
-    const activeInsertionPoint = model === "A" ? activeInsertionPointA : activeInsertionPointB
-    const setActiveInsertionPoint = model === "A" ? setActiveInsertionPointA : setActiveInsertionPointB
-    const isActive = activeInsertionPoint === insertionId
+  const renderStockSplitCard = (scenarioId: string, split: StockSplit, events: Event[]) => {
+    const ratioLabel =
+      split.ratio >= 1
+        ? `${Number(split.ratio.toFixed(4))}-for-1 split`
+        : `1-for-${Number((1 / split.ratio).toFixed(4))} consolidation`
 
     return (
-      <div className="flex justify-center -mt-3 mb-3">
-        {!isActive ? (
-          <button
-            onClick={() => setActiveInsertionPoint(insertionId)}
-            className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center transition-colors duration-200 opacity-60 hover:opacity-100"
-            title="Add event here"
-          >
-            <Plus className="h-4 w-4 text-gray-600" />
-          </button>
-        ) : (
-          <div className="flex gap-2 p-2 bg-white rounded-lg shadow-sm border">
+      <Card key={split.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">✂️ {split.name}</span>
             <Button
-              onClick={() => addRound(model, afterOrder)}
+              variant="ghost"
               size="sm"
-              className="bg-gray-900 hover:bg-gray-700 text-white"
+              onClick={() => removeEvent(scenarioId, split.id)}
+              className="text-gray-600 hover:text-red-600"
             >
-              <Plus className="h-3 w-3 mr-1" />
-              Funding Round
+              <Trash2 className="h-4 w-4" />
             </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor={`split-name-${split.id}`} className="text-sm text-gray-700">
+                Split Name
+              </Label>
+              <Input
+                id={`split-name-${split.id}`}
+                value={split.name}
+                onChange={(e) => updateEvent(scenarioId, split.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`split-ratio-${split.id}`} className="text-sm text-gray-700">
+                Ratio (new shares per old share)
+              </Label>
+              <Input
+                id={`split-ratio-${split.id}`}
+                type="number"
+                value={split.ratio || ""}
+                onChange={(e) => updateEvent(scenarioId, split.id, "ratio", Number(e.target.value))}
+                placeholder="2"
+                min="0"
+                step="0.1"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+          </div>
+
+          {split.ratio > 0 && split.ratio !== 1 && (
+            <>
+              <div className="bg-gray-50 rounded-lg p-3 text-xs text-gray-600">
+                <div>{ratioLabel}: every holding and later price per share is rescaled</div>
+                <div>Fully-diluted shares after: {split.totalSharesAfter.toLocaleString()}</div>
+                <div>Issued shares after: {getIssuedShares(split.capTable).toLocaleString()}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {split.name}</h4>
+                <div className="space-y-1">{renderCapTable(split.capTable, events, split.order)}</div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderWarrantCard = (scenarioId: string, warrant: Warrant, events: Event[]) => {
+    return (
+      <Card key={warrant.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">🎟️ {warrant.name}</span>
             <Button
-              onClick={() => addOptionPool(model, afterOrder)}
+              variant="ghost"
               size="sm"
-              variant="outline"
-              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+              onClick={() => removeEvent(scenarioId, warrant.id)}
+              className="text-gray-600 hover:text-red-600"
             >
-              <Plus className="h-3 w-3 mr-1" />
-              Option Pool
+              <Trash2 className="h-4 w-4" />
             </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor={`warrant-name-${warrant.id}`} className="text-sm text-gray-700">
+                Warrant Name
+              </Label>
+              <Input
+                id={`warrant-name-${warrant.id}`}
+                value={warrant.name}
+                onChange={(e) => updateEvent(scenarioId, warrant.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`warrant-holder-${warrant.id}`} className="text-sm text-gray-700">
+                Holder
+              </Label>
+              <Input
+                id={`warrant-holder-${warrant.id}`}
+                value={warrant.holderName}
+                onChange={(e) => updateEvent(scenarioId, warrant.id, "holderName", e.target.value)}
+                placeholder="Lender name"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`warrant-expiry-${warrant.id}`} className="text-sm text-gray-700">
+                Expiry Date
+              </Label>
+              <Input
+                id={`warrant-expiry-${warrant.id}`}
+                type="date"
+                value={warrant.expiryDate}
+                onChange={(e) => updateEvent(scenarioId, warrant.id, "expiryDate", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`warrant-coverage-type-${warrant.id}`} className="text-sm text-gray-700">
+                Coverage
+              </Label>
+              <Select
+                value={warrant.coverageType}
+                onValueChange={(value) => updateEvent(scenarioId, warrant.id, "coverageType", value)}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">% fully diluted</SelectItem>
+                  <SelectItem value="shares">Shares</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`warrant-coverage-${warrant.id}`} className="text-sm text-gray-700">
+                {warrant.coverageType === "percentage" ? "Percentage" : "Shares"}
+              </Label>
+              <Input
+                id={`warrant-coverage-${warrant.id}`}
+                type="number"
+                value={warrant.coverage || ""}
+                onChange={(e) => updateEvent(scenarioId, warrant.id, "coverage", Number(e.target.value))}
+                placeholder="0"
+                min="0"
+                step={warrant.coverageType === "percentage" ? "0.1" : "1"}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`warrant-strike-${warrant.id}`} className="text-sm text-gray-700">
+                Strike Price
+              </Label>
+              <div className="flex gap-2 mt-1">
+                <Select
+                  value={warrant.currency}
+                  onValueChange={(value) => updateEvent(scenarioId, warrant.id, "currency", value as Currency)}
+                >
+                  <SelectTrigger className="w-24 border-gray-300 focus:border-gray-500">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="USD">USD</SelectItem>
+                    <SelectItem value="GBP">GBP</SelectItem>
+                    <SelectItem value="EUR">EUR</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  id={`warrant-strike-${warrant.id}`}
+                  type="number"
+                  value={warrant.strikePrice || ""}
+                  onChange={(e) => updateEvent(scenarioId, warrant.id, "strikePrice", Number(e.target.value))}
+                  placeholder="0"
+                  min="0"
+                  step="0.0001"
+                  className="border-gray-300 focus:border-gray-500"
+                />
+              </div>
+            </div>
+          </div>
+
+          {warrant.warrantShares > 0 && (
+            <>
+              <div className="bg-gray-50 rounded-lg p-3 text-xs text-gray-600">
+                <div>Warrant shares: {warrant.warrantShares.toLocaleString()}</div>
+                <div>
+                  Exercise cost: {formatCurrency(warrant.warrantShares * warrant.strikePrice, warrant.currency)}
+                </div>
+                <div>Fully-diluted shares after: {warrant.totalSharesAfter.toLocaleString()}</div>
+                <div>Issued shares after: {getIssuedShares(warrant.capTable).toLocaleString()}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {warrant.name}</h4>
+                <div className="space-y-1">{renderCapTable(warrant.capTable, events, warrant.order)}</div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderExerciseCard = (scenarioId: string, exercise: Exercise, events: Event[]) => {
+    const instruments = getExercisableInstruments(scenarioId, exercise.id)
+
+    return (
+      <Card key={exercise.id} className="bg-white border shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+            <span className="flex items-center gap-2">🔓 {exercise.name}</span>
             <Button
-              onClick={() => setActiveInsertionPoint(null)}
-              size="sm"
               variant="ghost"
-              className="text-gray-500 hover:text-gray-700"
+              size="sm"
+              onClick={() => removeEvent(scenarioId, exercise.id)}
+              className="text-gray-600 hover:text-red-600"
             >
-              Cancel
+              <Trash2 className="h-4 w-4" />
             </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor={`exercise-name-${exercise.id}`} className="text-sm text-gray-700">
+                Exercise Name
+              </Label>
+              <Input
+                id={`exercise-name-${exercise.id}`}
+                value={exercise.name}
+                onChange={(e) => updateEvent(scenarioId, exercise.id, "name", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`exercise-instrument-${exercise.id}`} className="text-sm text-gray-700">
+                Warrant or Grant
+              </Label>
+              <Select
+                value={exercise.instrumentId}
+                onValueChange={(value) => updateEvent(scenarioId, exercise.id, "instrumentId", value)}
+              >
+                <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                  <SelectValue placeholder="Select instrument" />
+                </SelectTrigger>
+                <SelectContent>
+                  {instruments.map((instrument) => (
+                    <SelectItem key={instrument.id} value={instrument.id}>
+                      {instrument.name} ({instrument.holderName})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor={`exercise-quantity-${exercise.id}`} className="text-sm text-gray-700">
+                Shares (0 = all exercisable)
+              </Label>
+              <Input
+                id={`exercise-quantity-${exercise.id}`}
+                type="number"
+                value={exercise.quantity || ""}
+                onChange={(e) => updateEvent(scenarioId, exercise.id, "quantity", Number(e.target.value))}
+                placeholder="0"
+                min="0"
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor={`exercise-date-${exercise.id}`} className="text-sm text-gray-700">
+                Exercise Date
+              </Label>
+              <Input
+                id={`exercise-date-${exercise.id}`}
+                type="date"
+                value={exercise.exerciseDate}
+                onChange={(e) => updateEvent(scenarioId, exercise.id, "exerciseDate", e.target.value)}
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
           </div>
-        )}
-      </div>
+
+          {instruments.length === 0 && (
+            <div className="text-xs text-gray-600">Add a warrant or option grant before this event to exercise it.</div>
+          )}
+
+          {exercise.instrumentId && (
+            <div className="bg-gray-50 rounded-lg p-3 text-xs text-gray-600">
+              <div>Exercisable: {exercise.exercisableShares.toLocaleString()}</div>
+              <div>Shares issued to {exercise.holderName}: {exercise.sharesExercised.toLocaleString()}</div>
+              <div>Cash received: {formatCurrency(exercise.cashReceived, exercise.currency)}</div>
+              <div>Issued shares after: {getIssuedShares(exercise.capTable).toLocaleString()}</div>
+            </div>
+          )}
+
+          {exercise.sharesExercised > 0 && (
+            <div className="bg-gray-50 rounded-lg p-3">
+              <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {exercise.name}</h4>
+              <div className="space-y-1">{renderCapTable(exercise.capTable, events, exercise.order)}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     )
   }
 
-  const renderModel = (model: "A" | "B") => {
-    const events = model === "A" ? sortedEventsA : sortedEventsB
-    const founderName = model === "A" ? founderNameA : founderNameB
-    const setFounderName = model === "A" ? setFounderNameA : setFounderNameB
-    const initialShares = model === "A" ? initialSharesA : initialSharesB
-    const setInitialShares = model === "A" ? setInitialSharesA : setInitialSharesB
+  const activeScenario = getScenario(activeScenarioId)
+  const activeScenarioIndex = scenarios.indexOf(activeScenario)
+  // Compared scenarios are shown in scenario order
+  const comparedScenarios = scenarios.filter((s) => comparedScenarioIds.includes(s.id))
+
+  const renderScenario = (scenarioId: string) => {
+    const scenario = getScenario(scenarioId)
+    const events = getSortedEvents(scenario)
+    const { initialHolders, variables } = scenario
+    const finalCapTable =
+      events.length > 0 ? events[events.length - 1].capTable : getInitialCapTable(initialHolders)
 
     return (
       <div className="space-y-6">
-        {/* Model Title - only show in comparison mode */}
+        {/* Scenario Title - only show in comparison mode */}
         {comparisonMode && (
           <div className="text-center">
-            <h2 className="text-2xl font-bold text-gray-800">{model === "A" ? "Model A" : "Model B"}</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{scenario.name}</h2>
           </div>
         )}
 
@@ -1148,46 +2715,173 @@ export default function StartupDilutionCalculator() {
             <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">🚀 Initial Ownership</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              <div>
-                <Label htmlFor={`founderName${model}`} className="text-sm text-gray-700">
-                  Founder/Team Name
-                </Label>
-                <Input
-                  id={`founderName${model}`}
-                  value={founderName}
-                  onChange={(e) => setFounderName(e.target.value)}
-                  placeholder="Enter founder or team name"
-                  className="mt-1 border-gray-300 focus:border-gray-500"
-                />
-              </div>
-              <div>
-                <Label htmlFor={`initialShares${model}`} className="text-sm text-gray-700">
-                  Initial Shares
-                </Label>
-                <Input
-                  id={`initialShares${model}`}
-                  type="number"
-                  value={initialShares || ""}
-                  onChange={(e) => setInitialShares(Number(e.target.value))}
-                  placeholder="10000000"
-                  className="mt-1 border-gray-300 focus:border-gray-500"
-                />
-              </div>
+            <div className="space-y-3">
+              {initialHolders.map((holder) => (
+                <div key={holder.id} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_10rem_auto] gap-3 items-end">
+                  <div>
+                    <Label htmlFor={`holder-name-${holder.id}`} className="text-sm text-gray-700">
+                      Holder Name
+                    </Label>
+                    <Input
+                      id={`holder-name-${holder.id}`}
+                      value={holder.name}
+                      onChange={(e) => updateInitialHolder(scenarioId, holder.id, "name", e.target.value)}
+                      placeholder="Enter holder name"
+                      className="mt-1 border-gray-300 focus:border-gray-500"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`holder-shares-${holder.id}`} className="text-sm text-gray-700">
+                      Shares
+                    </Label>
+                    <Input
+                      id={`holder-shares-${holder.id}`}
+                      type="number"
+                      value={holder.shares || ""}
+                      onChange={(e) => updateInitialHolder(scenarioId, holder.id, "shares", Number(e.target.value))}
+                      placeholder="10000000"
+                      className="mt-1 border-gray-300 focus:border-gray-500"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`holder-role-${holder.id}`} className="text-sm text-gray-700">
+                      Role
+                    </Label>
+                    <Select
+                      value={holder.role}
+                      onValueChange={(value) => updateInitialHolder(scenarioId, holder.id, "role", value as HolderRole)}
+                    >
+                      <SelectTrigger
+                        id={`holder-role-${holder.id}`}
+                        className="mt-1 border-gray-300 focus:border-gray-500"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(HOLDER_ROLE_LABELS) as HolderRole[]).map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {HOLDER_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeInitialHolder(scenarioId, holder.id)}
+                    disabled={initialHolders.length <= 1}
+                    className="text-gray-600 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addInitialHolder(scenarioId)}
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Holder
+              </Button>
             </div>
             <div className="bg-gray-50 rounded-lg p-3">
               <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table</h4>
               <div className="space-y-1">
-                {renderCapTable(getInitialCapTable(founderName, initialShares), founderName, [], 0)}
+                {renderCapTable(getInitialCapTable(initialHolders), [], 0)}
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Model variables for formula valuations and investment amounts */}
+        <Card className="bg-white border shadow-sm border-l-4 border-l-blue-500">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">🧮 Variables</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {variables.map((variable) => {
+              const variableError = getVariableError(variable, variables)
+              return (
+                <div key={variable.id}>
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                    <div>
+                      <Label htmlFor={`variable-name-${variable.id}`} className="text-sm text-gray-700">
+                        Name
+                      </Label>
+                      <Input
+                        id={`variable-name-${variable.id}`}
+                        value={variable.name}
+                        onChange={(e) => updateVariable(scenarioId, variable.id, "name", e.target.value)}
+                        placeholder="ARR"
+                        className="mt-1 border-gray-300 focus:border-gray-500"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`variable-value-${variable.id}`} className="text-sm text-gray-700">
+                        Value
+                      </Label>
+                      <Input
+                        id={`variable-value-${variable.id}`}
+                        type="number"
+                        value={variable.value || ""}
+                        onChange={(e) => updateVariable(scenarioId, variable.id, "value", Number(e.target.value))}
+                        placeholder="0"
+                        className="mt-1 border-gray-300 focus:border-gray-500"
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeVariable(scenarioId, variable.id)}
+                      className="text-gray-600 hover:text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {variableError && <div className="mt-1 text-xs text-red-600">{variableError}</div>}
+                </div>
+              )
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => addVariable(scenarioId)}
+              className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Variable
+            </Button>
+            <div className="text-xs text-gray-600">
+              Formula valuations and investment amounts can use these variables and other rounds' values, e.g.{" "}
+              <code>ARR * 12</code> or <code>SeriesA.post * 0.8</code> (round properties: pre, post, investment,
+              valuation).
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Events (Funding Rounds and Option Pools) with insertion points */}
         {events.map((event, index) => {
           const eventCard =
-            event.type === "funding" ? (
+            event.type === "safe" ? (
+              renderSafeCard(scenarioId, event, events)
+            ) : event.type === "convertible-note" ? (
+              renderConvertibleNoteCard(scenarioId, event, events)
+            ) : event.type === "option-grant" ? (
+              renderOptionGrantCard(scenarioId, event, events)
+            ) : event.type === "secondary" ? (
+              renderSecondarySaleCard(scenarioId, event, events)
+            ) : event.type === "buyback" ? (
+              renderShareBuybackCard(scenarioId, event, events)
+            ) : event.type === "stock-split" ? (
+              renderStockSplitCard(scenarioId, event, events)
+            ) : event.type === "warrant" ? (
+              renderWarrantCard(scenarioId, event, events)
+            ) : event.type === "exercise" ? (
+              renderExerciseCard(scenarioId, event, events)
+            ) : event.type === "funding" ? (
               <Card key={event.id} className="bg-white border shadow-sm">
                 <CardHeader className="pb-3">
                   <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
@@ -1195,7 +2889,7 @@ export default function StartupDilutionCalculator() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => removeEvent(model, event.id)}
+                      onClick={() => removeEvent(scenarioId, event.id)}
                       className="text-gray-600 hover:text-red-600"
                     >
                       <Trash2 className="h-4 w-4" />
@@ -1212,9 +2906,12 @@ export default function StartupDilutionCalculator() {
                       <Input
                         id={`round-name-${event.id}`}
                         value={event.name}
-                        onChange={(e) => updateEvent(model, event.id, "name", e.target.value)}
+                        onChange={(e) => updateRoundName(scenarioId, event.id, e.target.value)}
                         className="mt-1 border-gray-300 focus:border-gray-500"
                       />
+                      {getRoundNameError(event, events) && (
+                        <div className="mt-1 text-xs text-red-600">{getRoundNameError(event, events)}</div>
+                      )}
                     </div>
 
                     <div>
@@ -1224,7 +2921,7 @@ export default function StartupDilutionCalculator() {
                       <Select
                         value={event.currency}
                         onValueChange={(value) =>
-                          updateEvent(model, event.id, "currency", value as "USD" | "GBP" | "EUR")
+                          updateEvent(scenarioId, event.id, "currency", value as "USD" | "GBP" | "EUR")
                         }
                       >
                         <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
@@ -1239,28 +2936,56 @@ export default function StartupDilutionCalculator() {
                     </div>
 
                     <div>
-                      <Label htmlFor={`investment-${event.id}`} className="text-sm text-gray-700">
-                        Investment Amount
-                      </Label>
-                      <Input
-                        id={`investment-${event.id}`}
-                        type="number"
-                        value={event.investmentAmount || ""}
-                        onChange={(e) => updateEvent(model, event.id, "investmentAmount", Number(e.target.value))}
-                        placeholder="0"
-                        className="mt-1 border-gray-300 focus:border-gray-500"
-                      />
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={`investment-${event.id}`} className="text-sm text-gray-700">
+                          Investment Amount
+                        </Label>
+                        <Label className="flex items-center gap-1 text-xs text-gray-600">
+                          <Switch
+                            checked={event.investmentSource === "formula"}
+                            onCheckedChange={(checked) =>
+                              updateEvent(scenarioId, event.id, "investmentSource", checked ? "formula" : "manual")
+                            }
+                          />
+                          Formula
+                        </Label>
+                      </div>
+                      {event.investmentSource === "formula" ? (
+                        <>
+                          <Input
+                            id={`investment-${event.id}`}
+                            value={event.investmentFormula || ""}
+                            onChange={(e) => updateEvent(scenarioId, event.id, "investmentFormula", e.target.value)}
+                            placeholder="ARR * 2"
+                            className="mt-1 font-mono border-gray-300 focus:border-gray-500"
+                          />
+                          <div className={`mt-1 text-xs ${event.investmentError ? "text-red-600" : "text-gray-600"}`}>
+                            {event.investmentError || `= ${formatCurrency(event.investmentAmount, event.currency)}`}
+                          </div>
+                        </>
+                      ) : (
+                        <Input
+                          id={`investment-${event.id}`}
+                          type="number"
+                          value={event.investmentAmount || ""}
+                          onChange={(e) =>
+                            updateEvent(scenarioId, event.id, "investmentAmount", Number(e.target.value))
+                          }
+                          placeholder="0"
+                          className="mt-1 border-gray-300 focus:border-gray-500"
+                        />
+                      )}
                     </div>
 
                     <div>
-                      <Label htmlFor={`investor-name-${event.id}`} className="text-sm text-gray-700">
-                        New Investor
+                      <Label htmlFor={`round-date-${event.id}`} className="text-sm text-gray-700">
+                        Close Date
                       </Label>
                       <Input
-                        id={`investor-name-${event.id}`}
-                        value={event.newInvestorName}
-                        onChange={(e) => updateEvent(model, event.id, "newInvestorName", e.target.value)}
-                        placeholder="Investor name"
+                        id={`round-date-${event.id}`}
+                        type="date"
+                        value={event.date || ""}
+                        onChange={(e) => updateEvent(scenarioId, event.id, "date", e.target.value)}
                         className="mt-1 border-gray-300 focus:border-gray-500"
                       />
                     </div>
@@ -1275,7 +3000,7 @@ export default function StartupDilutionCalculator() {
                         </Label>
                         <Select
                           value={event.valuationType}
-                          onValueChange={(value) => updateEvent(model, event.id, "valuationType", value)}
+                          onValueChange={(value) => updateEvent(scenarioId, event.id, "valuationType", value)}
                         >
                           <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
                             <SelectValue />
@@ -1293,14 +3018,15 @@ export default function StartupDilutionCalculator() {
                         </Label>
                         <Select
                           value={event.valuationSource}
-                          onValueChange={(value) => updateEvent(model, event.id, "valuationSource", value)}
+                          onValueChange={(value) => updateEvent(scenarioId, event.id, "valuationSource", value)}
                         >
                           <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="manual">Manual Entry</SelectItem>
-                            <SelectItem value="reference">Reference Future Round</SelectItem>
+                            <SelectItem value="reference">Reference Another Round</SelectItem>
+                            <SelectItem value="formula">Formula</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -1314,51 +3040,115 @@ export default function StartupDilutionCalculator() {
                           id={`manual-valuation-${event.id}`}
                           type="number"
                           value={event.manualValuation || ""}
-                          onChange={(e) => updateEvent(model, event.id, "manualValuation", Number(e.target.value))}
+                          onChange={(e) => updateEvent(scenarioId, event.id, "manualValuation", Number(e.target.value))}
                           placeholder="0"
                           className="mt-1 border-gray-300 focus:border-gray-500"
                         />
                       </div>
+                    ) : event.valuationSource === "formula" ? (
+                      <div>
+                        <Label htmlFor={`valuation-formula-${event.id}`} className="text-sm text-gray-700">
+                          {event.valuationType === "pre-money" ? "Pre-Money" : "Post-Money"} Valuation Formula
+                        </Label>
+                        <Input
+                          id={`valuation-formula-${event.id}`}
+                          value={event.valuationFormula || ""}
+                          onChange={(e) => updateEvent(scenarioId, event.id, "valuationFormula", e.target.value)}
+                          placeholder="SeriesA.post * 0.8"
+                          className="mt-1 font-mono border-gray-300 focus:border-gray-500"
+                        />
+                        {event.valuationError ? (
+                          <div className="mt-2 text-xs text-red-600">{event.valuationError}</div>
+                        ) : (
+                          <div className="mt-2 text-xs text-gray-600">
+                            = {formatCurrency(event.calculatedValuation, event.currency)} · referenced as{" "}
+                            <code>{getRoundFormulaName(event)}</code>
+                          </div>
+                        )}
+                      </div>
                     ) : (
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        <div>
-                          <Label htmlFor={`reference-round-${event.id}`} className="text-sm text-gray-700">
-                            Reference Round
-                          </Label>
-                          <Select
-                            value={event.referenceRoundId}
-                            onValueChange={(value) => updateEvent(model, event.id, "referenceRoundId", value)}
-                          >
-                            <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
-                              <SelectValue placeholder="Select future round" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {getAvailableReferenceRounds(model, event.id).map((refRound) => (
-                                <SelectItem key={refRound.id} value={refRound.id}>
-                                  {refRound.name} ({refRound.currency})
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
+                      <>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                          <div>
+                            <Label htmlFor={`reference-round-${event.id}`} className="text-sm text-gray-700">
+                              Reference Round
+                            </Label>
+                            <Select
+                              value={event.referenceRoundId}
+                              onValueChange={(value) => updateEvent(scenarioId, event.id, "referenceRoundId", value)}
+                            >
+                              <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                                <SelectValue placeholder="Select round" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {getAvailableReferenceRounds(scenarioId, event.id).map((refRound) => (
+                                  <SelectItem key={refRound.id} value={refRound.id}>
+                                    {refRound.name} ({refRound.currency})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
 
-                        <div>
-                          <Label htmlFor={`discount-${event.id}`} className="text-sm text-gray-700">
-                            Discount %
-                          </Label>
-                          <Input
-                            id={`discount-${event.id}`}
-                            type="number"
-                            value={event.discountPercentage || ""}
-                            onChange={(e) => updateEvent(model, event.id, "discountPercentage", Number(e.target.value))}
-                            placeholder="0"
-                            min="0"
-                            max="100"
-                            className="mt-1 border-gray-300 focus:border-gray-500"
-                          />
+                          <div>
+                            <Label htmlFor={`reference-adjustment-${event.id}`} className="text-sm text-gray-700">
+                              Adjustment
+                            </Label>
+                            <Select
+                              value={event.referenceAdjustment || "discount"}
+                              onValueChange={(value) => updateEvent(scenarioId, event.id, "referenceAdjustment", value)}
+                            >
+                              <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="discount">Discount</SelectItem>
+                                <SelectItem value="premium">Premium</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div>
+                            <Label htmlFor={`discount-${event.id}`} className="text-sm text-gray-700">
+                              {event.referenceAdjustment === "premium" ? "Premium" : "Discount"} %
+                            </Label>
+                            <Input
+                              id={`discount-${event.id}`}
+                              type="number"
+                              value={event.discountPercentage || ""}
+                              onChange={(e) =>
+                                updateEvent(scenarioId, event.id, "discountPercentage", Number(e.target.value))
+                              }
+                              placeholder="0"
+                              min="0"
+                              max={event.referenceAdjustment === "premium" ? undefined : "100"}
+                              className="mt-1 border-gray-300 focus:border-gray-500"
+                            />
+                          </div>
                         </div>
-                      </div>
+                        {event.valuationError && (
+                          <div className="mt-2 text-xs text-red-600">{event.valuationError}</div>
+                        )}
+                      </>
                     )}
+                    <div>
+                      <Label htmlFor={`target-pool-${event.id}`} className="text-sm text-gray-700">
+                        Pre-Money Option Pool (% of post-money)
+                      </Label>
+                      <Input
+                        id={`target-pool-${event.id}`}
+                        type="number"
+                        value={event.targetPoolPercentage || ""}
+                        onChange={(e) =>
+                          updateEvent(scenarioId, event.id, "targetPoolPercentage", Number(e.target.value))
+                        }
+                        placeholder="None"
+                        min="0"
+                        max="100"
+                        step="0.1"
+                        className="mt-1 border-gray-300 focus:border-gray-500"
+                      />
+                    </div>
                     {event.postMoneyValuation > 0 && (
                       <>
                         {/* Add separator line and financial summary */}
@@ -1383,31 +3173,488 @@ export default function StartupDilutionCalculator() {
                                   {formatCurrency(event.postMoneyValuation, event.currency)}
                                 </span>
                               </div>
+                              {event.poolTopUpShares > 0 && (
+                                <div className="flex justify-between">
+                                  <span>Effective Pre-Money:</span>
+                                  <span className="font-semibold text-gray-900">
+                                    {formatCurrency(Math.round(event.effectivePreMoneyValuation), event.currency)}
+                                  </span>
+                                </div>
+                              )}
                             </div>
 
                             <div className="text-xs text-gray-600 space-y-1">
                               {event.valuationSource === "reference" && event.referenceRoundId && (
                                 <>
                                   <div>Source: {events.find((e) => e.id === event.referenceRoundId)?.name}</div>
-                                  {event.discountPercentage > 0 && <div>Discount: {event.discountPercentage}%</div>}
+                                  {event.discountPercentage > 0 && (
+                                    <div>
+                                      {event.referenceAdjustment === "premium" ? "Premium" : "Discount"}:{" "}
+                                      {event.discountPercentage}%
+                                    </div>
+                                  )}
                                   <div>Calculated: {formatCurrency(event.calculatedValuation, event.currency)}</div>
                                 </>
                               )}
                               <div className="border-t pt-1 border-gray-200">
                                 <div>New shares: {event.newSharesIssued.toLocaleString()}</div>
-                                <div>Total shares: {event.totalSharesAfter.toLocaleString()}</div>
+                                <div>Fully-diluted shares: {event.totalSharesAfter.toLocaleString()}</div>
+                                <div>Issued shares: {getIssuedShares(event.capTable).toLocaleString()}</div>
                               </div>
+                              {event.poolTopUpShares > 0 && (
+                                <div className="border-t pt-1 border-gray-200">
+                                  <div>
+                                    Pool top-up: {event.poolTopUpShares.toLocaleString()} ({event.poolTopUpName})
+                                  </div>
+                                  <div>
+                                    Headline pre-money: {formatCurrency(event.preMoneyValuation, event.currency)}
+                                  </div>
+                                </div>
+                              )}
+                              {event.pricePerShare > 0 && (
+                                <div className="border-t pt-1 border-gray-200">
+                                  <div>
+                                    Price per share:{" "}
+                                    <span className="font-semibold text-gray-900">
+                                      {formatPricePerShare(event.pricePerShare, event.currency)}
+                                    </span>
+                                  </div>
+                                  {event.currency !== baseCurrency && (
+                                    <div>
+                                      ≈{" "}
+                                      {formatPricePerShare(
+                                        convertCurrency(
+                                          event.pricePerShare,
+                                          event.currency,
+                                          baseCurrency,
+                                          allExchangeRates,
+                                        ),
+                                        baseCurrency,
+                                      )}{" "}
+                                      in {baseCurrency}
+                                    </div>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
                       </>
                     )}
                   </div>
+                  {/* Share Class Section */}
+                  <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+                    <h4 className="font-medium text-sm text-gray-800">Share Class</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div>
+                        <Label htmlFor={`share-class-${event.id}`} className="text-sm text-gray-700">
+                          Class Name
+                        </Label>
+                        <Input
+                          id={`share-class-${event.id}`}
+                          value={event.shareClassName}
+                          onChange={(e) => updateEvent(scenarioId, event.id, "shareClassName", e.target.value)}
+                          placeholder={getShareClassName({ ...event, shareClassName: "" })}
+                          className="mt-1 border-gray-300 focus:border-gray-500"
+                        />
+                      </div>
+
+                      <div>
+                        <Label htmlFor={`liquidation-preference-${event.id}`} className="text-sm text-gray-700">
+                          Liquidation Preference (x)
+                        </Label>
+                        <Input
+                          id={`liquidation-preference-${event.id}`}
+                          type="number"
+                          value={event.liquidationPreferenceMultiple ?? ""}
+                          onChange={(e) =>
+                            updateEvent(scenarioId, event.id, "liquidationPreferenceMultiple", Number(e.target.value))
+                          }
+                          placeholder="1"
+                          min="0"
+                          step="0.1"
+                          className="mt-1 border-gray-300 focus:border-gray-500"
+                        />
+                      </div>
+
+                      <div>
+                        <Label htmlFor={`seniority-${event.id}`} className="text-sm text-gray-700">
+                          Seniority
+                        </Label>
+                        <Input
+                          id={`seniority-${event.id}`}
+                          type="number"
+                          value={event.seniority ?? ""}
+                          onChange={(e) => updateEvent(scenarioId, event.id, "seniority", Number(e.target.value))}
+                          placeholder="1"
+                          className="mt-1 border-gray-300 focus:border-gray-500"
+                        />
+                      </div>
+
+                      <div>
+                        <Label htmlFor={`participation-${event.id}`} className="text-sm text-gray-700">
+                          Participation
+                        </Label>
+                        <Select
+                          value={event.participating ? "participating" : "non-participating"}
+                          onValueChange={(value) =>
+                            updateEvent(scenarioId, event.id, "participating", value === "participating")
+                          }
+                        >
+                          <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="non-participating">Non-Participating</SelectItem>
+                            <SelectItem value="participating">Participating</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {event.participating && (
+                        <div>
+                          <Label htmlFor={`participation-cap-${event.id}`} className="text-sm text-gray-700">
+                            Participation Cap (x)
+                          </Label>
+                          <Input
+                            id={`participation-cap-${event.id}`}
+                            type="number"
+                            value={event.participationCap || ""}
+                            onChange={(e) =>
+                              updateEvent(scenarioId, event.id, "participationCap", Number(e.target.value))
+                            }
+                            placeholder="Uncapped"
+                            min="0"
+                            step="0.1"
+                            className="mt-1 border-gray-300 focus:border-gray-500"
+                          />
+                        </div>
+                      )}
+                    </div>
+                    {getShareClassError(event, events) && (
+                      <div className="text-xs text-red-600">{getShareClassError(event, events)}</div>
+                    )}
+                    <div>
+                      <Label htmlFor={`anti-dilution-${event.id}`} className="text-sm text-gray-700">
+                        Anti-Dilution
+                      </Label>
+                      <Select
+                        value={event.antiDilution}
+                        onValueChange={(value) => updateEvent(scenarioId, event.id, "antiDilution", value)}
+                      >
+                        <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ANTI_DILUTION_LABELS) as AntiDilutionType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {ANTI_DILUTION_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      Higher seniority is paid first at exit; classes with equal seniority share pari passu.
+                      Anti-dilution issues extra shares to this class when a later round prices below it.
+                    </div>
+                  </div>
+                  {/* Uncertainty Section */}
+                  <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+                    <h4 className="font-medium text-sm text-gray-800">Uncertainty</h4>
+                    {renderDistributionInputs(
+                      scenarioId,
+                      event,
+                      "valuationDistribution",
+                      "Valuation",
+                      event.calculatedValuation,
+                    )}
+                    {renderDistributionInputs(
+                      scenarioId,
+                      event,
+                      "investmentDistribution",
+                      "Investment Amount",
+                      event.investmentAmount,
+                    )}
+                    {renderDistributionInputs(
+                      scenarioId,
+                      event,
+                      "poolDistribution",
+                      "Option Pool %",
+                      event.targetPoolPercentage,
+                    )}
+                    <div className="text-xs text-gray-600">
+                      Ranges are only sampled by the Monte Carlo simulation; cap tables use the values above.
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-sm text-gray-800">Investors</h4>
+                      <Button
+                        onClick={() =>
+                          updateEvent(scenarioId, event.id, "investors", [
+                            ...event.investors,
+                            {
+                              id: `investor-${Date.now()}`,
+                              name: `Investor ${event.investors.length + 1}`,
+                              amount: 0,
+                              fillRemaining: false,
+                            },
+                          ])
+                        }
+                        size="sm"
+                        variant="outline"
+                        className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Investor
+                      </Button>
+                    </div>
+                    {event.investors.map((investor) => {
+                      const allocation = event.investorAllocations.find((a) => a.name === investor.name)
+
+                      return (
+                        <div
+                          key={investor.id}
+                          className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-3 items-end"
+                        >
+                          <div>
+                            <Label htmlFor={`investor-name-${investor.id}`} className="text-sm text-gray-700">
+                              Investor
+                            </Label>
+                            <Input
+                              id={`investor-name-${investor.id}`}
+                              value={investor.name}
+                              onChange={(e) =>
+                                updateRoundInvestor(scenarioId, event, investor.id, { name: e.target.value })
+                              }
+                              placeholder="Investor name"
+                              className="mt-1 border-gray-300 focus:border-gray-500"
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor={`investor-amount-${investor.id}`} className="text-sm text-gray-700">
+                              Amount
+                            </Label>
+                            <Input
+                              id={`investor-amount-${investor.id}`}
+                              type="number"
+                              value={
+                                investor.fillRemaining
+                                  ? Math.round(allocation?.amount || 0) || ""
+                                  : investor.amount || ""
+                              }
+                              onChange={(e) =>
+                                updateRoundInvestor(scenarioId, event, investor.id, { amount: Number(e.target.value) })
+                              }
+                              disabled={investor.fillRemaining}
+                              placeholder="0"
+                              className="mt-1 border-gray-300 focus:border-gray-500"
+                            />
+                          </div>
+                          <div className="flex items-center gap-2 pb-2">
+                            <Switch
+                              id={`investor-fill-${investor.id}`}
+                              checked={investor.fillRemaining}
+                              onCheckedChange={(checked) =>
+                                updateRoundInvestor(scenarioId, event, investor.id, { fillRemaining: checked })
+                              }
+                            />
+                            <Label htmlFor={`investor-fill-${investor.id}`} className="text-sm text-gray-700">
+                              Fill remaining
+                            </Label>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateEvent(
+                                scenarioId,
+                                event.id,
+                                "investors",
+                                event.investors.filter((i) => i.id !== investor.id),
+                              )
+                            }
+                            className="text-gray-600 hover:text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                          {allocation && (
+                            <div className="md:col-span-4 text-xs text-gray-600">
+                              {formatCurrency(Math.round(allocation.amount), event.currency)} for{" "}
+                              {allocation.shares.toLocaleString()} shares
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })}
+                    {event.investmentAmount > 0 && Math.abs(event.unallocatedAmount) >= 1 && (
+                      <div className="text-xs text-red-600">
+                        {event.unallocatedAmount > 0 ? (
+                          <>
+                            {formatCurrency(Math.round(event.unallocatedAmount), event.currency)} of the round is not
+                            allocated to any investor.
+                          </>
+                        ) : (
+                          <>
+                            Allocations exceed the round by{" "}
+                            {formatCurrency(Math.round(-event.unallocatedAmount), event.currency)}; fixed amounts were
+                            scaled down.
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-sm text-gray-800">Pro-Rata Participation</h4>
+                      <Button
+                        onClick={() =>
+                          updateEvent(scenarioId, event.id, "proRataParticipants", [
+                            ...event.proRataParticipants,
+                            { id: `pro-rata-${Date.now()}`, holderName: "", exerciseProRata: true, amount: 0 },
+                          ])
+                        }
+                        size="sm"
+                        variant="outline"
+                        className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white"
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Participant
+                      </Button>
+                    </div>
+                    {event.proRataParticipants.map((participant) => {
+                      const allocation = event.proRataAllocations.find(
+                        (a) => a.holderName === participant.holderName,
+                      )
+
+                      return (
+                        <div
+                          key={participant.id}
+                          className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr_auto] gap-3 items-end"
+                        >
+                          <div>
+                            <Label htmlFor={`pro-rata-holder-${participant.id}`} className="text-sm text-gray-700">
+                              Existing Shareholder
+                            </Label>
+                            <Select
+                              value={participant.holderName}
+                              onValueChange={(value) =>
+                                updateProRataParticipant(scenarioId, event, participant.id, { holderName: value })
+                              }
+                            >
+                              <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                                <SelectValue placeholder="Select shareholder" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {getExistingShareholderNames(scenarioId, event.id).map((name) => (
+                                  <SelectItem key={name} value={name}>
+                                    {name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="flex items-center gap-2 pb-2">
+                            <Switch
+                              id={`pro-rata-full-${participant.id}`}
+                              checked={participant.exerciseProRata}
+                              onCheckedChange={(checked) =>
+                                updateProRataParticipant(scenarioId, event, participant.id, {
+                                  exerciseProRata: checked,
+                                })
+                              }
+                            />
+                            <Label htmlFor={`pro-rata-full-${participant.id}`} className="text-sm text-gray-700">
+                              Full pro-rata
+                            </Label>
+                          </div>
+                          <div>
+                            <Label htmlFor={`pro-rata-amount-${participant.id}`} className="text-sm text-gray-700">
+                              Amount
+                            </Label>
+                            <Input
+                              id={`pro-rata-amount-${participant.id}`}
+                              type="number"
+                              value={
+                                participant.exerciseProRata
+                                  ? Math.round(allocation?.amount || 0) || ""
+                                  : participant.amount || ""
+                              }
+                              onChange={(e) =>
+                                updateProRataParticipant(scenarioId, event, participant.id, {
+                                  amount: Number(e.target.value),
+                                })
+                              }
+                              disabled={participant.exerciseProRata}
+                              placeholder="0"
+                              className="mt-1 border-gray-300 focus:border-gray-500"
+                            />
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateEvent(
+                                scenarioId,
+                                event.id,
+                                "proRataParticipants",
+                                event.proRataParticipants.filter((p) => p.id !== participant.id),
+                              )
+                            }
+                            className="text-gray-600 hover:text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                          {allocation && (
+                            <div className="md:col-span-4 text-xs text-gray-600">
+                              {formatCurrency(Math.round(allocation.amount), event.currency)} for{" "}
+                              {allocation.shares.toLocaleString()} shares
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })}
+                    <div className="text-xs text-gray-600">
+                      Existing shareholders invest alongside the new investors and are allocated before them. A
+                      full pro-rata keeps the holder's ownership from before the round.
+                    </div>
+                  </div>
+                  {event.antiDilutionAdjustments.length > 0 && renderAntiDilutionAdjustments(event)}
+                  {event.conversions.length > 0 && (
+                    <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+                      <h4 className="font-medium text-sm text-gray-800">Converted Instruments</h4>
+                      <div className="space-y-1 text-sm text-gray-700">
+                        {event.conversions.map((conversion) => (
+                          <div key={conversion.instrumentId} className="flex justify-between">
+                            <span>
+                              {conversion.holderName}{" "}
+                              <span className="text-xs text-gray-500">
+                                ({CONVERSION_BASIS_LABELS[conversion.basis]})
+                              </span>
+                            </span>
+                            <span className="font-semibold text-gray-900">
+                              {conversion.shares.toLocaleString()} @{" "}
+                              {formatPricePerShare(conversion.conversionPrice, event.currency)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="border-t pt-1 border-gray-200 text-xs text-gray-600">
+                        <div>
+                          {getLeadInvestorName(event) || "Round"} price per share:{" "}
+                          {formatPricePerShare(event.pricePerShare, event.currency)} (
+                          {formatPricePerShare(event.pricePerShareBeforeConversions, event.currency)} without
+                          conversions)
+                        </div>
+                      </div>
+                    </div>
+                  )}
                   {event.postMoneyValuation > 0 && (
                     <div className="bg-gray-50 rounded-lg p-3">
                       <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {event.name}</h4>
                       <div className="space-y-1">
-                        {renderCapTable(event.capTable, founderName, events, event.order)}
+                        {renderCapTable(event.capTable, events, event.order)}
                       </div>
                     </div>
                   )}
@@ -1421,7 +3668,7 @@ export default function StartupDilutionCalculator() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => removeEvent(model, event.id)}
+                      onClick={() => removeEvent(scenarioId, event.id)}
                       className="text-gray-600 hover:text-red-600"
                     >
                       <Trash2 className="h-4 w-4" />
@@ -1437,19 +3684,58 @@ export default function StartupDilutionCalculator() {
                       <Input
                         id={`pool-name-${event.id}`}
                         value={event.name}
-                        onChange={(e) => updateEvent(model, event.id, "name", e.target.value)}
+                        onChange={(e) => updateEvent(scenarioId, event.id, "name", e.target.value)}
                         className="mt-1 border-gray-300 focus:border-gray-500"
                       />
                     </div>
+                    <div>
+                      <Label htmlFor={`pool-mode-${event.id}`} className="text-sm text-gray-700">
+                        Mode
+                      </Label>
+                      <Select
+                        value={event.mode || "new"}
+                        onValueChange={(value) => updateEvent(scenarioId, event.id, "mode", value)}
+                      >
+                        <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="new">New Pool</SelectItem>
+                          <SelectItem value="top-up">Top Up Existing Pool</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {event.mode === "top-up" && (
+                      <div>
+                        <Label htmlFor={`pool-top-up-${event.id}`} className="text-sm text-gray-700">
+                          Pool to Top Up
+                        </Label>
+                        <Select
+                          value={event.topUpPoolName}
+                          onValueChange={(value) => updateEvent(scenarioId, event.id, "topUpPoolName", value)}
+                        >
+                          <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                            <SelectValue placeholder="Most recent pool" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getAvailablePools(scenarioId, event.id).map((poolName) => (
+                              <SelectItem key={poolName} value={poolName}>
+                                {poolName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                     <div>
                       <Label htmlFor={`pool-percentage-${event.id}`} className="text-sm text-gray-700">
-                        Pool Percentage
+                        {event.mode === "top-up" ? "Target Pool Percentage" : "Pool Percentage"}
                       </Label>
                       <Input
                         id={`pool-percentage-${event.id}`}
                         type="number"
                         value={event.percentage || ""}
-                        onChange={(e) => updateEvent(model, event.id, "percentage", Number(e.target.value))}
+                        onChange={(e) => updateEvent(scenarioId, event.id, "percentage", Number(e.target.value))}
                         placeholder="10"
                         min="0"
                         max="100"
@@ -1462,13 +3748,17 @@ export default function StartupDilutionCalculator() {
                   {event.percentage > 0 && (
                     <>
                       <div className="bg-gray-50 rounded-lg p-3 text-xs text-gray-600">
+                        {event.mode === "top-up" && event.poolRowName !== event.name && (
+                          <div>Topped up: {event.poolRowName}</div>
+                        )}
                         <div>New shares issued: {event.newSharesIssued.toLocaleString()}</div>
-                        <div>Total shares after: {event.totalSharesAfter.toLocaleString()}</div>
+                        <div>Fully-diluted shares after: {event.totalSharesAfter.toLocaleString()}</div>
+                        <div>Issued shares after: {getIssuedShares(event.capTable).toLocaleString()}</div>
                       </div>
                       <div className="bg-gray-50 rounded-lg p-3">
                         <h4 className="font-medium mb-3 text-sm text-gray-800">Cap Table After {event.name}</h4>
                         <div className="space-y-1">
-                          {renderCapTable(event.capTable, founderName, events, event.order)}
+                          {renderCapTable(event.capTable, events, event.order)}
                         </div>
                       </div>
                     </>
@@ -1480,10 +3770,10 @@ export default function StartupDilutionCalculator() {
           return (
             <React.Fragment key={event.id}>
               {/* Insertion point before first event */}
-              {index === 0 && <InsertionPoint model={model} afterOrder={0} isFirst={true} />}
+              {index === 0 && <InsertionPoint scenarioId={scenarioId} afterOrder={0} isFirst={true} />}
               {eventCard}
               {/* Insertion point after each event except the last */}
-              {index < events.length - 1 && <InsertionPoint model={model} afterOrder={event.order} />}
+              {index < events.length - 1 && <InsertionPoint scenarioId={scenarioId} afterOrder={event.order} />}
             </React.Fragment>
           )
         })}
@@ -1492,38 +3782,237 @@ export default function StartupDilutionCalculator() {
         {events.length === 0 ? (
           <div className="text-center space-y-3">
             <div className="flex flex-wrap gap-3 justify-center">
-              <Button onClick={() => addRound(model)} className="bg-gray-900 hover:bg-gray-700 text-white">
+              <Button onClick={() => addRound(scenarioId)} className="bg-gray-900 hover:bg-gray-700 text-white">
                 <Plus className="h-4 w-4 mr-2" />
                 Add Funding Round
               </Button>
               <Button
-                onClick={() => addOptionPool(model)}
+                onClick={() => addOptionPool(scenarioId)}
                 variant="outline"
                 className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
               >
                 <Plus className="h-4 w-4 mr-2" />
                 Add Option Pool
               </Button>
+              <Button
+                onClick={() => addSafe(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add SAFE
+              </Button>
+              <Button
+                onClick={() => addConvertibleNote(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Convertible Note
+              </Button>
+              <Button
+                onClick={() => addOptionGrant(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Option Grant
+              </Button>
+              <Button
+                onClick={() => addSecondarySale(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Secondary Sale
+              </Button>
+              <Button
+                onClick={() => addShareBuyback(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Share Buyback
+              </Button>
+              <Button
+                onClick={() => addStockSplit(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Stock Split
+              </Button>
+              <Button
+                onClick={() => addWarrant(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Warrant
+              </Button>
+              <Button
+                onClick={() => addExercise(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Exercise
+              </Button>
             </div>
           </div>
         ) : (
           <div className="text-center space-y-3">
             <div className="flex flex-wrap gap-3 justify-center">
-              <Button onClick={() => addRound(model)} className="bg-gray-900 hover:bg-gray-700 text-white">
+              <Button onClick={() => addRound(scenarioId)} className="bg-gray-900 hover:bg-gray-700 text-white">
                 <Plus className="h-4 w-4 mr-2" />
                 Add Funding Round
               </Button>
               <Button
-                onClick={() => addOptionPool(model)}
+                onClick={() => addOptionPool(scenarioId)}
                 variant="outline"
                 className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
               >
                 <Plus className="h-4 w-4 mr-2" />
                 Add Option Pool
               </Button>
+              <Button
+                onClick={() => addSafe(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add SAFE
+              </Button>
+              <Button
+                onClick={() => addConvertibleNote(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Convertible Note
+              </Button>
+              <Button
+                onClick={() => addOptionGrant(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Option Grant
+              </Button>
+              <Button
+                onClick={() => addSecondarySale(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Secondary Sale
+              </Button>
+              <Button
+                onClick={() => addShareBuyback(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Share Buyback
+              </Button>
+              <Button
+                onClick={() => addStockSplit(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Stock Split
+              </Button>
+              <Button
+                onClick={() => addWarrant(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Warrant
+              </Button>
+              <Button
+                onClick={() => addExercise(scenarioId)}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Exercise
+              </Button>
             </div>
           </div>
         )}
+
+        <SharePriceHistory
+          id={scenarioId}
+          events={events}
+          baseCurrency={baseCurrency}
+          exchangeRates={allExchangeRates}
+          onBaseCurrencyChange={setBaseCurrency}
+        />
+        <OwnershipChart
+          id={scenarioId}
+          events={events}
+          initialHolders={initialHolders}
+          basis={capTableBasis}
+          baseCurrency={baseCurrency}
+          exchangeRates={allExchangeRates}
+        />
+
+        <VestingSchedule id={scenarioId} events={events} asOfDate={vestingDate} onAsOfDateChange={setVestingDate} />
+
+        <GoalSeek
+          id={scenarioId}
+          events={events}
+          initialHolders={initialHolders}
+          variables={variables}
+          exchangeRates={allExchangeRates}
+          basis={capTableBasis}
+          onApply={(inputEventId, input, value) => applyGoalSeek(scenarioId, inputEventId, input, value)}
+        />
+        <SensitivityAnalysis
+          id={scenarioId}
+          events={events}
+          initialHolders={initialHolders}
+          variables={variables}
+          exchangeRates={allExchangeRates}
+          basis={capTableBasis}
+          exitValue={exitValue}
+          exitCurrency={exitCurrency}
+        />
+        <MonteCarlo
+          id={scenarioId}
+          events={events}
+          initialHolders={initialHolders}
+          variables={variables}
+          exchangeRates={allExchangeRates}
+          basis={capTableBasis}
+          exitValue={exitValue}
+          exitCurrency={exitCurrency}
+        />
+
+        {/* Exit waterfall and payout sweep from the final cap table */}
+        <ExitWaterfall
+          id={scenarioId}
+          capTable={finalCapTable}
+          events={events}
+          exitValue={exitValue}
+          exitCurrency={exitCurrency}
+          exchangeRates={allExchangeRates}
+          onExitValueChange={setExitValue}
+          onExitCurrencyChange={setExitCurrency}
+        />
+        <ExitPayoutChart
+          id={scenarioId}
+          capTable={finalCapTable}
+          events={events}
+          exitCurrency={exitCurrency}
+          exchangeRates={allExchangeRates}
+          minExitValue={sweepMinExitValue}
+          maxExitValue={sweepMaxExitValue}
+          onMinExitValueChange={setSweepMinExitValue}
+          onMaxExitValueChange={setSweepMaxExitValue}
+        />
       </div>
     )
   }
@@ -1648,12 +4137,84 @@ export default function StartupDilutionCalculator() {
                 </div>
               )}
 
-              {/* Third row: Comparison Mode Toggle */}
+              {/* Third row: Scenarios */}
+              <div className="space-y-3 pt-2 border-t border-gray-100">
+                <div className="flex flex-wrap items-center gap-2">
+                  {scenarios.map((scenario) => (
+                    <Button
+                      key={scenario.id}
+                      onClick={() => setActiveScenarioId(scenario.id)}
+                      size="sm"
+                      variant={scenario.id === activeScenario.id ? "default" : "outline"}
+                      className="text-xs"
+                    >
+                      {scenario.name || "Untitled"}
+                    </Button>
+                  ))}
+                  <Button onClick={addScenario} size="sm" variant="ghost" className="text-xs text-gray-600">
+                    <Plus className="h-3 w-3 mr-1" />
+                    New Scenario
+                  </Button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label htmlFor="scenario-name" className="text-xs text-gray-600">
+                    Name
+                  </Label>
+                  <Input
+                    id="scenario-name"
+                    value={activeScenario.name}
+                    onChange={(e) => renameScenario(activeScenario.id, e.target.value)}
+                    className="h-8 w-48 text-xs border-gray-300"
+                  />
+                  <Button
+                    onClick={() => moveScenario(activeScenario.id, -1)}
+                    disabled={activeScenarioIndex === 0}
+                    size="sm"
+                    variant="outline"
+                    className="text-xs px-2 py-1 bg-transparent"
+                    title="Move left"
+                  >
+                    <ChevronLeft className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    onClick={() => moveScenario(activeScenario.id, 1)}
+                    disabled={activeScenarioIndex === scenarios.length - 1}
+                    size="sm"
+                    variant="outline"
+                    className="text-xs px-2 py-1 bg-transparent"
+                    title="Move right"
+                  >
+                    <ChevronRight className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    onClick={() => cloneScenario(activeScenario.id)}
+                    size="sm"
+                    variant="outline"
+                    className="text-xs px-2 py-1 bg-transparent"
+                  >
+                    <Copy className="h-3 w-3 mr-1" />
+                    Clone
+                  </Button>
+                  <Button
+                    onClick={() => deleteScenario(activeScenario.id)}
+                    disabled={scenarios.length <= 1}
+                    size="sm"
+                    variant="outline"
+                    className="text-xs px-2 py-1 bg-transparent text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              {/* Fourth row: Comparison Mode Toggle */}
               <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 pt-2 border-t border-gray-100">
                 <div className="flex items-center space-x-2">
                   <SplitSquareVertical className="h-4 w-4 text-gray-700" />
                   <Label htmlFor="comparison-mode" className="text-sm font-medium text-gray-700">
-                    Compare Models
+                    Compare Scenarios
                   </Label>
                   <Switch
                     id="comparison-mode"
@@ -1669,23 +4230,16 @@ export default function StartupDilutionCalculator() {
                 </div>
 
                 {comparisonMode && (
-                  <div className="flex gap-1">
-                    <Button
-                      onClick={copyModelAToB}
-                      size="sm"
-                      variant="outline"
-                      className="text-xs px-2 py-1 bg-transparent"
-                    >
-                      A→B
-                    </Button>
-                    <Button
-                      onClick={copyModelBToA}
-                      size="sm"
-                      variant="outline"
-                      className="text-xs px-2 py-1 bg-transparent"
-                    >
-                      B→A
-                    </Button>
+                  <div className="flex flex-wrap gap-3">
+                    {scenarios.map((scenario) => (
+                      <Label key={scenario.id} className="flex items-center gap-2 text-xs text-gray-600">
+                        <Switch
+                          checked={comparedScenarioIds.includes(scenario.id)}
+                          onCheckedChange={(checked) => toggleComparedScenario(scenario.id, checked)}
+                        />
+                        {scenario.name || "Untitled"}
+                      </Label>
+                    ))}
                   </div>
                 )}
               </div>
@@ -1693,14 +4247,33 @@ export default function StartupDilutionCalculator() {
           </CardContent>
         </Card>
 
-        {/* Models */}
-        {comparisonMode ? (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <div className="space-y-6">{renderModel("A")}</div>
-            <div className="space-y-6">{renderModel("B")}</div>
+        {/* Scenarios */}
+        {comparisonMode && comparedScenarios.length >= 2 && (
+          <ScenarioDiff
+            scenarios={comparedScenarios.map((scenario) => ({ ...scenario, events: getSortedEvents(scenario) }))}
+            exchangeRates={allExchangeRates}
+            basis={capTableBasis}
+            exitValue={exitValue}
+            exitCurrency={exitCurrency}
+          />
+        )}
+        {comparisonMode && comparedScenarios.length >= 2 ? (
+          <div
+            className={`grid grid-cols-1 gap-6 ${comparedScenarios.length === 2 ? "lg:grid-cols-2" : "lg:grid-cols-3"}`}
+          >
+            {comparedScenarios.map((scenario) => (
+              <div key={scenario.id} className="space-y-6">
+                {renderScenario(scenario.id)}
+              </div>
+            ))}
           </div>
         ) : (
-          renderModel("A")
+          <>
+            {comparisonMode && (
+              <div className="text-xs text-gray-600 text-center">Choose at least two scenarios to compare.</div>
+            )}
+            {renderScenario(activeScenario.id)}
+          </>
         )}
 
         {/* Footer */}
@@ -0,0 +1,155 @@
+"use client"
+
+import { useMemo } from "react"
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { type Currency, type Event, type ExchangeRates, type Shareholder } from "@/lib/dilution-engine"
+import { calculatePayoutSweep } from "@/lib/exit-waterfall"
+import { formatCompactCurrency, formatCurrency } from "@/lib/format"
+
+const CHART_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4", "#ec4899", "#84cc16"]
+
+const SWEEP_STEPS = 50
+
+interface ExitPayoutChartProps {
+  id: string
+  capTable: Shareholder[]
+  events: Event[]
+  exitCurrency: Currency
+  exchangeRates: ExchangeRates
+  minExitValue: number
+  maxExitValue: number
+  onMinExitValueChange: (value: number) => void
+  onMaxExitValueChange: (value: number) => void
+}
+
+export function ExitPayoutChart({
+  id,
+  capTable,
+  events,
+  exitCurrency,
+  exchangeRates,
+  minExitValue,
+  maxExitValue,
+  onMinExitValueChange,
+  onMaxExitValueChange,
+}: ExitPayoutChartProps) {
+  const sweep = useMemo(
+    () =>
+      calculatePayoutSweep(capTable, events, minExitValue, maxExitValue, SWEEP_STEPS, exitCurrency, exchangeRates),
+    [capTable, events, minExitValue, maxExitValue, exitCurrency, exchangeRates],
+  )
+
+  return (
+    <Card className="bg-white border shadow-sm border-l-4 border-l-green-500">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">📈 Payout by Exit Value</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor={`sweep-min-${id}`} className="text-sm text-gray-700">
+              Minimum Exit Value
+            </Label>
+            <Input
+              id={`sweep-min-${id}`}
+              type="number"
+              value={minExitValue || ""}
+              onChange={(e) => onMinExitValueChange(Number(e.target.value))}
+              placeholder="0"
+              className="mt-1 border-gray-300 focus:border-gray-500"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`sweep-max-${id}`} className="text-sm text-gray-700">
+              Maximum Exit Value
+            </Label>
+            <Input
+              id={`sweep-max-${id}`}
+              type="number"
+              value={maxExitValue || ""}
+              onChange={(e) => onMaxExitValueChange(Number(e.target.value))}
+              placeholder="0"
+              className="mt-1 border-gray-300 focus:border-gray-500"
+            />
+          </div>
+        </div>
+
+        {maxExitValue > minExitValue ? (
+          <>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={sweep.points} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    dataKey="exitValue"
+                    type="number"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={(value) => formatCompactCurrency(value, exitCurrency)}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <YAxis
+                    tickFormatter={(value) => formatCompactCurrency(value, exitCurrency)}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => formatCurrency(Math.round(value), exitCurrency)}
+                    labelFormatter={(value: number) => `Exit: ${formatCurrency(Math.round(value), exitCurrency)}`}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {sweep.breakpoints.map((breakpoint, index) => (
+                    <ReferenceLine
+                      key={`${breakpoint.label}-${index}`}
+                      x={breakpoint.exitValue}
+                      stroke="#9ca3af"
+                      strokeDasharray="4 4"
+                    />
+                  ))}
+                  {sweep.holders.map((holder, index) => (
+                    <Line
+                      key={holder}
+                      type="linear"
+                      dataKey={holder}
+                      stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                      dot={false}
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {sweep.breakpoints.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-3 space-y-1 text-xs text-gray-600">
+                <h4 className="font-medium text-sm text-gray-800 mb-1">Breakpoints</h4>
+                {sweep.breakpoints.map((breakpoint, index) => (
+                  <div key={`${breakpoint.label}-${index}`} className="flex justify-between">
+                    <span>{breakpoint.label}</span>
+                    <span className="font-semibold text-gray-900">
+                      {formatCurrency(Math.round(breakpoint.exitValue), exitCurrency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-xs text-gray-600">Set a maximum exit value above the minimum to plot payouts.</div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
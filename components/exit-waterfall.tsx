@@ -0,0 +1,121 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { type Currency, type Event, type ExchangeRates, type Shareholder } from "@/lib/dilution-engine"
+import { calculateExitWaterfall } from "@/lib/exit-waterfall"
+import { formatCurrency } from "@/lib/format"
+
+interface ExitWaterfallProps {
+  id: string
+  capTable: Shareholder[]
+  events: Event[]
+  exitValue: number
+  exitCurrency: Currency
+  exchangeRates: ExchangeRates
+  onExitValueChange: (value: number) => void
+  onExitCurrencyChange: (currency: Currency) => void
+}
+
+export function ExitWaterfall({
+  id,
+  capTable,
+  events,
+  exitValue,
+  exitCurrency,
+  exchangeRates,
+  onExitValueChange,
+  onExitCurrencyChange,
+}: ExitWaterfallProps) {
+  const waterfall = calculateExitWaterfall(capTable, events, exitValue, exitCurrency, exchangeRates)
+  const format = (amount: number) => formatCurrency(Math.round(amount), exitCurrency)
+
+  return (
+    <Card className="bg-white border shadow-sm border-l-4 border-l-green-500">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">💸 Exit Waterfall</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor={`exit-value-${id}`} className="text-sm text-gray-700">
+              Exit Value
+            </Label>
+            <Input
+              id={`exit-value-${id}`}
+              type="number"
+              value={exitValue || ""}
+              onChange={(e) => onExitValueChange(Number(e.target.value))}
+              placeholder="0"
+              className="mt-1 border-gray-300 focus:border-gray-500"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`exit-currency-${id}`} className="text-sm text-gray-700">
+              Currency
+            </Label>
+            <Select value={exitCurrency} onValueChange={(value) => onExitCurrencyChange(value as Currency)}>
+              <SelectTrigger className="mt-1 border-gray-300 focus:border-gray-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="USD">USD ($)</SelectItem>
+                <SelectItem value="GBP">GBP (£)</SelectItem>
+                <SelectItem value="EUR">EUR (€)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {exitValue > 0 && (
+          <>
+            {waterfall.classes.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-3 space-y-1 text-xs text-gray-600">
+                {waterfall.classes.map((shareClass) => (
+                  <div key={shareClass.name} className="flex justify-between">
+                    <span>
+                      {shareClass.name}: {shareClass.converted ? "converts to common" : "takes preference"}
+                    </span>
+                    <span>
+                      Preference {format(shareClass.preference)} · Receives {format(shareClass.total)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1 pr-2 font-medium">Holder</th>
+                    <th className="py-1 pr-2 font-medium">Class</th>
+                    <th className="py-1 pr-2 font-medium text-right">Preference</th>
+                    <th className="py-1 pr-2 font-medium text-right">Participation</th>
+                    <th className="py-1 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {waterfall.payouts.map((payout, index) => (
+                    <tr key={`${payout.name}-${index}`} className="border-t border-gray-200">
+                      <td className="py-1 pr-2 font-medium text-gray-800">{payout.name}</td>
+                      <td className="py-1 pr-2 text-xs text-gray-600">{payout.shareClass}</td>
+                      <td className="py-1 pr-2 text-right text-gray-700">{format(payout.preference)}</td>
+                      <td className="py-1 pr-2 text-right text-gray-700">{format(payout.participation)}</td>
+                      <td className="py-1 text-right">
+                        <span className="font-semibold text-gray-900">{format(payout.total)}</span>
+                        <span className="text-xs text-gray-500 ml-2">{payout.percentage.toFixed(1)}%</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  type CapTableBasis,
+  type Event,
+  type ExchangeRates,
+  type InitialHolder,
+  type ModelVariable,
+  getInitialCapTable,
+} from "@/lib/dilution-engine"
+import {
+  type GoalSeekInput,
+  type GoalSeekResult,
+  GOAL_SEEK_INPUT_LABELS,
+  TEAM_TARGET,
+  getGoalSeekInputValue,
+  getGoalSeekInputs,
+  solveGoalSeek,
+} from "@/lib/goal-seek"
+import { formatCurrency } from "@/lib/format"
+
+// Select items can't have an empty value, so the final cap table gets its own key
+const FINAL_EVENT = "final"
+
+interface GoalSeekProps {
+  id: string
+  events: Event[]
+  initialHolders: InitialHolder[]
+  variables: ModelVariable[]
+  exchangeRates: ExchangeRates
+  basis: CapTableBasis
+  onApply: (inputEventId: string, input: GoalSeekInput, value: number) => void
+}
+
+export function GoalSeek({ id, events, initialHolders, variables, exchangeRates, basis, onApply }: GoalSeekProps) {
+  const [targetEventId, setTargetEventId] = useState(FINAL_EVENT)
+  const [targetHolder, setTargetHolder] = useState(TEAM_TARGET)
+  const [targetPercentage, setTargetPercentage] = useState(50)
+  const [inputEventId, setInputEventId] = useState("")
+  const [input, setInput] = useState<GoalSeekInput>("valuation")
+  const [result, setResult] = useState<GoalSeekResult | null>(null)
+
+  const inputEvents = events.filter((e) => getGoalSeekInputs(e).length > 0)
+  if (inputEvents.length === 0) {
+    return null
+  }
+
+  // Fall back to sensible choices when the selected events have been removed
+  const targetEvent = events.find((e) => e.id === targetEventId)
+  const inputEvent = inputEvents.find((e) => e.id === inputEventId) ?? inputEvents[0]
+  const inputs = getGoalSeekInputs(inputEvent)
+  const selectedInput = inputs.includes(input) ? input : inputs[0]
+
+  const targetCapTable = targetEvent
+    ? targetEvent.capTable
+    : events.length > 0
+      ? events[events.length - 1].capTable
+      : getInitialCapTable(initialHolders)
+  const holderNames = Array.from(new Set(targetCapTable.map((shareholder) => shareholder.name)))
+
+  const formatValue = (value: number) =>
+    selectedInput === "pool-percentage"
+      ? `${value}%`
+      : formatCurrency(value, inputEvent.type === "funding" ? inputEvent.currency : "USD")
+
+  // Any change to the question makes the last answer stale
+  const withReset =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value)
+      setResult(null)
+    }
+
+  const solve = () => {
+    setResult(
+      solveGoalSeek({ initialHolders, events, variables }, exchangeRates, {
+        targetEventId: targetEvent ? targetEvent.id : "",
+        targetHolder,
+        targetPercentage,
+        basis,
+        inputEventId: inputEvent.id,
+        input: selectedInput,
+      }),
+    )
+  }
+
+  return (
+    <Card className="bg-white border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">🎯 Goal Seek</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor={`goal-target-event-${id}`} className="text-sm text-gray-700">
+              Measure At
+            </Label>
+            <Select value={targetEvent ? targetEvent.id : FINAL_EVENT} onValueChange={withReset(setTargetEventId)}>
+              <SelectTrigger id={`goal-target-event-${id}`} className="mt-1 border-gray-300 focus:border-gray-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FINAL_EVENT}>Final cap table</SelectItem>
+                {events.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    After {event.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`goal-target-holder-${id}`} className="text-sm text-gray-700">
+              Holder
+            </Label>
+            <Select value={targetHolder} onValueChange={withReset(setTargetHolder)}>
+              <SelectTrigger id={`goal-target-holder-${id}`} className="mt-1 border-gray-300 focus:border-gray-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TEAM_TARGET}>{TEAM_TARGET}</SelectItem>
+                {holderNames
+                  .filter((name) => name !== TEAM_TARGET)
+                  .map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`goal-target-percentage-${id}`} className="text-sm text-gray-700">
+              Target Ownership %
+            </Label>
+            <Input
+              id={`goal-target-percentage-${id}`}
+              type="number"
+              value={targetPercentage || ""}
+              onChange={(e) => withReset(setTargetPercentage)(Number(e.target.value))}
+              placeholder="0"
+              className="mt-1 border-gray-300 focus:border-gray-500"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`goal-input-event-${id}`} className="text-sm text-gray-700">
+              By Changing
+            </Label>
+            <Select value={inputEvent.id} onValueChange={withReset(setInputEventId)}>
+              <SelectTrigger id={`goal-input-event-${id}`} className="mt-1 border-gray-300 focus:border-gray-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {inputEvents.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {event.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`goal-input-${id}`} className="text-sm text-gray-700">
+              Input
+            </Label>
+            <Select value={selectedInput} onValueChange={(value) => withReset(setInput)(value as GoalSeekInput)}>
+              <SelectTrigger id={`goal-input-${id}`} className="mt-1 border-gray-300 focus:border-gray-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {inputs.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {GOAL_SEEK_INPUT_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="text-xs text-gray-500 mt-1">
+              Currently {formatValue(getGoalSeekInputValue(inputEvent, selectedInput))}
+            </div>
+          </div>
+          <div className="flex items-end">
+            <Button
+              onClick={solve}
+              variant="outline"
+              className="w-full border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+            >
+              Solve
+            </Button>
+          </div>
+        </div>
+
+        {result &&
+          (result.error ? (
+            <div className="text-xs text-red-600">{result.error}</div>
+          ) : (
+            <div className="bg-gray-50 rounded-lg p-3 flex items-center justify-between gap-3 text-sm">
+              <div className="text-gray-700">
+                {GOAL_SEEK_INPUT_LABELS[selectedInput]} of{" "}
+                <span className="font-semibold text-gray-900">{formatValue(result.value)}</span> gives{" "}
+                {targetHolder} {result.achievedPercentage.toFixed(2)}%
+              </div>
+              <Button
+                onClick={() => {
+                  onApply(inputEvent.id, selectedInput, result.value)
+                  setResult(null)
+                }}
+                variant="outline"
+                className="border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+              >
+                Apply
+              </Button>
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  type CapTableBasis,
+  type Currency,
+  type Event,
+  type ExchangeRates,
+  type InitialHolder,
+  type ModelVariable,
+} from "@/lib/dilution-engine"
+import {
+  type MonteCarloRequest,
+  type MonteCarloResult,
+  type MonteCarloWorkerMessage,
+  type PercentileBand,
+  MAX_MONTE_CARLO_RUNS,
+  hasDistributions,
+} from "@/lib/monte-carlo"
+import { formatCompactCurrency } from "@/lib/format"
+
+interface MonteCarloProps {
+  id: string
+  events: Event[]
+  initialHolders: InitialHolder[]
+  variables: ModelVariable[]
+  exchangeRates: ExchangeRates
+  basis: CapTableBasis
+  exitValue: number
+  exitCurrency: Currency
+}
+
+export function MonteCarlo({
+  id,
+  events,
+  initialHolders,
+  variables,
+  exchangeRates,
+  basis,
+  exitValue,
+  exitCurrency,
+}: MonteCarloProps) {
+  const [runs, setRuns] = useState(1000)
+  const [seed, setSeed] = useState(1)
+  const [completedRuns, setCompletedRuns] = useState(0)
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<MonteCarloResult | null>(null)
+  const [error, setError] = useState("")
+  const workerRef = useRef<Worker | null>(null)
+
+  // Stop a simulation still in flight when the panel goes away
+  useEffect(() => () => workerRef.current?.terminate(), [])
+
+  const model = { initialHolders, events, variables }
+  if (!hasDistributions(model)) {
+    return null
+  }
+
+  const stop = () => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setRunning(false)
+  }
+
+  const run = () => {
+    workerRef.current?.terminate()
+    const worker = new Worker(new URL("../lib/monte-carlo.worker.ts", import.meta.url))
+    workerRef.current = worker
+
+    worker.onmessage = (message: MessageEvent<MonteCarloWorkerMessage>) => {
+      if (message.data.type === "progress") {
+        setCompletedRuns(message.data.completedRuns)
+        return
+      }
+      setResult(message.data.result)
+      stop()
+    }
+    worker.onerror = (workerError) => {
+      setError(workerError.message || "The simulation failed")
+      stop()
+    }
+
+    const request: MonteCarloRequest = { model, exchangeRates, runs, seed, basis, exitValue, exitCurrency }
+    setCompletedRuns(0)
+    setError("")
+    setRunning(true)
+    worker.postMessage(request)
+  }
+
+  const formatBand = (band: PercentileBand, format: (value: number) => string) =>
+    `${format(band.p10)} / ${format(band.p50)} / ${format(band.p90)}`
+  const formatPercentage = (value: number) => `${value.toFixed(1)}%`
+  const formatPayout = (value: number) => formatCompactCurrency(value, exitCurrency)
+
+  return (
+    <Card className="bg-white border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">🎲 Monte Carlo</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor={`monte-carlo-runs-${id}`} className="text-sm text-gray-700">
+              Simulations
+            </Label>
+            <Input
+              id={`monte-carlo-runs-${id}`}
+              type="number"
+              value={runs || ""}
+              onChange={(e) => setRuns(Math.min(MAX_MONTE_CARLO_RUNS, Number(e.target.value)))}
+              placeholder="1000"
+              className="mt-1 border-gray-300 focus:border-gray-500"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`monte-carlo-seed-${id}`} className="text-sm text-gray-700">
+              Seed
+            </Label>
+            <Input
+              id={`monte-carlo-seed-${id}`}
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(Number(e.target.value))}
+              className="mt-1 border-gray-300 focus:border-gray-500"
+            />
+          </div>
+          <div className="flex items-end">
+            <Button
+              onClick={running ? stop : run}
+              variant="outline"
+              className="w-full border-gray-900 text-gray-900 hover:bg-gray-900 hover:text-white bg-transparent"
+            >
+              {running ? `Stop (${completedRuns.toLocaleString()} / ${runs.toLocaleString()})` : "Run Simulation"}
+            </Button>
+          </div>
+        </div>
+
+        {error && <div className="text-xs text-red-600">{error}</div>}
+
+        {result && (
+          <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1 pr-2 font-medium">Holder</th>
+                  <th className="py-1 pr-2 font-medium">Ownership range</th>
+                  <th className="py-1 pr-2 font-medium text-right">Ownership P10 / P50 / P90</th>
+                  <th className="py-1 font-medium text-right">Payout P10 / P50 / P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.holders.map((holder) => (
+                  <tr key={holder.name} className="border-t border-gray-200">
+                    <td className="py-1 pr-2 font-medium text-gray-800">{holder.name}</td>
+                    <td className="py-1 pr-2 w-40">
+                      {/* P10-P90 band on a 0-100% track, with a marker at the median */}
+                      <div className="relative h-2 bg-gray-200 rounded">
+                        <div
+                          className="absolute h-2 bg-blue-300 rounded"
+                          style={{
+                            left: `${holder.ownership.p10}%`,
+                            width: `${holder.ownership.p90 - holder.ownership.p10}%`,
+                          }}
+                        />
+                        <div
+                          className="absolute h-2 w-0.5 bg-blue-700"
+                          style={{ left: `${holder.ownership.p50}%` }}
+                        />
+                      </div>
+                    </td>
+                    <td className="py-1 pr-2 text-right text-gray-700">
+                      {formatBand(holder.ownership, formatPercentage)}
+                    </td>
+                    <td className="py-1 text-right text-gray-700">{formatBand(holder.payout, formatPayout)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-xs text-gray-500 mt-2">
+              {result.runs.toLocaleString()} simulations; payouts at a {formatPayout(exitValue)} exit. Run again after
+              changing the model or the ranges.
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  type CapTableBasis,
+  type Currency,
+  type Event,
+  type ExchangeRates,
+  type InitialHolder,
+} from "@/lib/dilution-engine"
+import { getOwnershipHistory } from "@/lib/ownership-history"
+import { formatCompactCurrency, formatCurrency } from "@/lib/format"
+
+const CHART_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4", "#ec4899", "#84cc16"]
+
+const VALUATION_SERIES = "Post-money valuation"
+
+interface OwnershipChartProps {
+  id: string
+  events: Event[]
+  initialHolders: InitialHolder[]
+  basis: CapTableBasis
+  baseCurrency: Currency
+  exchangeRates: ExchangeRates
+}
+
+interface OwnershipRow {
+  step: number
+  name: string
+  valuation: number | null
+  percentages: Record<string, number>
+}
+
+export function OwnershipChart({
+  id,
+  events,
+  initialHolders,
+  basis,
+  baseCurrency,
+  exchangeRates,
+}: OwnershipChartProps) {
+  const [groupTeam, setGroupTeam] = useState(true)
+
+  const history = useMemo(
+    () => getOwnershipHistory(initialHolders, events, basis, groupTeam, baseCurrency, exchangeRates),
+    [initialHolders, events, basis, groupTeam, baseCurrency, exchangeRates],
+  )
+
+  if (events.length === 0) {
+    return null
+  }
+
+  const rows: OwnershipRow[] = history.points.map((point, step) => ({
+    step,
+    name: point.name,
+    valuation: point.postMoneyValuation,
+    percentages: Object.fromEntries(
+      Object.entries(point.holders).map(([holder, position]) => [holder, position.percentage]),
+    ),
+  }))
+
+  const formatTooltipValue = (value: number, series: string, entry: { payload?: OwnershipRow }) => {
+    if (series === VALUATION_SERIES) return formatCurrency(Math.round(value), baseCurrency)
+    const position = entry.payload ? history.points[entry.payload.step].holders[series] : undefined
+    const shares = position ? Math.round(position.shares).toLocaleString() : "0"
+    return `${value.toFixed(2)}% (${shares} shares)`
+  }
+
+  return (
+    <Card className="bg-white border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+          <span className="flex items-center gap-2">📊 Ownership Over Time</span>
+          <Label htmlFor={`ownership-group-team-${id}`} className="flex items-center gap-2 text-xs text-gray-600">
+            <Switch id={`ownership-group-team-${id}`} checked={groupTeam} onCheckedChange={setGroupTeam} />
+            Group The Team
+          </Label>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+              <YAxis
+                yAxisId="ownership"
+                domain={[0, 100]}
+                tickFormatter={(value) => `${value}%`}
+                tick={{ fontSize: 11 }}
+              />
+              <YAxis
+                yAxisId="valuation"
+                orientation="right"
+                tickFormatter={(value) => formatCompactCurrency(value, baseCurrency)}
+                tick={{ fontSize: 11 }}
+              />
+              <Tooltip formatter={formatTooltipValue} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {/* Holder names can contain dots, which recharts would read as a path in a string dataKey */}
+              {history.holders.map((holder, index) => (
+                <Area
+                  key={holder}
+                  yAxisId="ownership"
+                  type="linear"
+                  name={holder}
+                  dataKey={(row: OwnershipRow) => row.percentages[holder] || 0}
+                  stackId="ownership"
+                  stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                  fill={CHART_COLORS[index % CHART_COLORS.length]}
+                  fillOpacity={0.6}
+                  isAnimationActive={false}
+                />
+              ))}
+              <Line
+                yAxisId="valuation"
+                type="linear"
+                name={VALUATION_SERIES}
+                dataKey="valuation"
+                stroke="#111827"
+                strokeWidth={2}
+                connectNulls
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="text-xs text-gray-500 mt-2">
+          Ownership {basis === "issued" ? "of issued shares" : "fully diluted"} after each event; post-money valuations
+          of funding rounds in {baseCurrency}.
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { type CapTableBasis, type Currency, type ExchangeRates } from "@/lib/dilution-engine"
+import { type DiffScenario, alignScenarioEvents, compareHolderOutcomes } from "@/lib/scenario-diff"
+import { formatCompactCurrency } from "@/lib/format"
+
+interface ScenarioDiffProps {
+  // Compared scenarios, in scenario order
+  scenarios: DiffScenario[]
+  exchangeRates: ExchangeRates
+  basis: CapTableBasis
+  exitValue: number
+  exitCurrency: Currency
+}
+
+const getDeltaClassName = (delta: number) =>
+  delta > 0 ? "text-green-700" : delta < 0 ? "text-red-600" : "text-gray-400"
+
+// Sign first, so negative amounts read "-$1M" rather than "$-1M"
+const formatDelta = (delta: number, format: (value: number) => string) =>
+  `${delta > 0 ? "+" : delta < 0 ? "-" : ""}${format(Math.abs(delta))}`
+
+export function ScenarioDiff({ scenarios, exchangeRates, basis, exitValue, exitCurrency }: ScenarioDiffProps) {
+  const [baseId, setBaseId] = useState("")
+  const [compareId, setCompareId] = useState("")
+  const [changesOnly, setChangesOnly] = useState(false)
+
+  // Fall back to the first two scenarios when the selection is no longer compared
+  const base = scenarios.find((s) => s.id === baseId) ?? scenarios[0]
+  const compare = scenarios.find((s) => s.id === compareId && s !== base) ?? scenarios.find((s) => s !== base)
+
+  // Scenario objects are rebuilt on every render, so recalculate on their events and holders only
+  const alignedEvents = useMemo(
+    () => (base && compare ? alignScenarioEvents(base.events, compare.events) : []),
+    [base?.events, compare?.events],
+  )
+  const holders = useMemo(
+    () => (base && compare ? compareHolderOutcomes(base, compare, exchangeRates, basis, exitValue, exitCurrency) : []),
+    [
+      base?.events,
+      base?.initialHolders,
+      compare?.events,
+      compare?.initialHolders,
+      exchangeRates,
+      basis,
+      exitValue,
+      exitCurrency,
+    ],
+  )
+
+  if (!base || !compare) {
+    return null
+  }
+
+  const rows = changesOnly ? alignedEvents.filter((row) => row.changed) : alignedEvents
+  const formatProceeds = (value: number) => formatCompactCurrency(value, exitCurrency)
+
+  const renderScenarioSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <div>
+      <Label htmlFor={`scenario-diff-${label.toLowerCase()}`} className="text-sm text-gray-700">
+        {label}
+      </Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger
+          id={`scenario-diff-${label.toLowerCase()}`}
+          className="mt-1 border-gray-300 focus:border-gray-500"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {scenarios.map((scenario) => (
+            <SelectItem key={scenario.id} value={scenario.id}>
+              {scenario.name || "Untitled"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <Card className="bg-white border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">🔀 Scenario Diff</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {renderScenarioSelect("Base", base.id, setBaseId)}
+          {renderScenarioSelect("Compare", compare.id, setCompareId)}
+          <div className="flex items-end">
+            <Label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <Switch checked={changesOnly} onCheckedChange={setChangesOnly} />
+              Changed events only
+            </Label>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+          <div className="text-sm font-medium text-gray-800 mb-2">Events</div>
+          {rows.length === 0 ? (
+            <div className="text-xs text-gray-500">
+              {alignedEvents.length === 0 ? "Neither scenario has any events." : "No inputs differ."}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1 pr-2 font-medium">Event</th>
+                  <th className="py-1 pr-2 font-medium">Input</th>
+                  <th className="py-1 pr-2 font-medium text-right">{base.name || "Untitled"}</th>
+                  <th className="py-1 font-medium text-right">{compare.name || "Untitled"}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const event = row.base ?? row.compare
+                  const status = !row.base ? "Only in compare" : !row.compare ? "Only in base" : ""
+                  return row.inputs.map((input, index) => (
+                    <tr
+                      key={`${row.base?.id ?? ""}-${row.compare?.id ?? ""}-${input.label}`}
+                      className={[index === 0 && "border-t border-gray-200", input.changed && "bg-amber-50"]
+                        .filter(Boolean)
+                        .join(" ")}
+                    >
+                      {index === 0 && (
+                        <td rowSpan={row.inputs.length} className="py-1 pr-2 align-top bg-gray-50">
+                          <div className="font-medium text-gray-800">
+                            {row.base && row.compare && row.base.name !== row.compare.name
+                              ? `${row.base.name} → ${row.compare.name}`
+                              : event?.name}
+                          </div>
+                          {status && <div className="text-xs text-amber-700">{status}</div>}
+                        </td>
+                      )}
+                      <td className="py-1 pr-2 text-gray-600">{input.label}</td>
+                      <td className="py-1 pr-2 text-right text-gray-700">{input.base}</td>
+                      <td
+                        className={`py-1 text-right ${input.changed ? "font-semibold text-gray-900" : "text-gray-700"}`}
+                      >
+                        {input.compare}
+                      </td>
+                    </tr>
+                  ))
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+          <div className="text-sm font-medium text-gray-800 mb-2">Final Outcome by Holder</div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="py-1 pr-2 font-medium">Holder</th>
+                <th className="py-1 pr-2 font-medium text-right">Ownership</th>
+                <th className="py-1 pr-2 font-medium text-right">Δ</th>
+                <th className="py-1 pr-2 font-medium text-right">Shares</th>
+                <th className="py-1 pr-2 font-medium text-right">Δ</th>
+                <th className="py-1 pr-2 font-medium text-right">Proceeds</th>
+                <th className="py-1 font-medium text-right">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {holders.map(({ name, base: before, compare: after }) => {
+                const ownershipDelta = after.ownership - before.ownership
+                const sharesDelta = after.shares - before.shares
+                const proceedsDelta = after.proceeds - before.proceeds
+                return (
+                  <tr key={name} className="border-t border-gray-200">
+                    <td className="py-1 pr-2 font-medium text-gray-800">{name}</td>
+                    <td className="py-1 pr-2 text-right text-gray-700">
+                      {before.ownership.toFixed(2)}% → {after.ownership.toFixed(2)}%
+                    </td>
+                    <td className={`py-1 pr-2 text-right ${getDeltaClassName(ownershipDelta)}`}>
+                      {formatDelta(ownershipDelta, (value) => value.toFixed(2))} pp
+                    </td>
+                    <td className="py-1 pr-2 text-right text-gray-700">
+                      {Math.round(before.shares).toLocaleString()} → {Math.round(after.shares).toLocaleString()}
+                    </td>
+                    <td className={`py-1 pr-2 text-right ${getDeltaClassName(sharesDelta)}`}>
+                      {formatDelta(sharesDelta, (value) => Math.round(value).toLocaleString())}
+                    </td>
+                    <td className="py-1 pr-2 text-right text-gray-700">
+                      {formatProceeds(before.proceeds)} → {formatProceeds(after.proceeds)}
+                    </td>
+                    <td className={`py-1 text-right ${getDeltaClassName(proceedsDelta)}`}>
+                      {formatDelta(proceedsDelta, formatProceeds)}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500 mt-2">
+            Changes from {base.name || "Untitled"} to {compare.name || "Untitled"}; proceeds at a{" "}
+            {formatProceeds(exitValue)} exit.
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,400 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  type CapTableBasis,
+  type Currency,
+  type Event,
+  type ExchangeRates,
+  type InitialHolder,
+  type ModelVariable,
+  getInitialCapTable,
+} from "@/lib/dilution-engine"
+import {
+  type GoalSeekInput,
+  GOAL_SEEK_INPUT_LABELS,
+  TEAM_TARGET,
+  getGoalSeekInputValue,
+  getGoalSeekInputs,
+} from "@/lib/goal-seek"
+import {
+  type SensitivityAxis,
+  type SensitivityMeasure,
+  calculateSensitivityGrid,
+  calculateTornado,
+} from "@/lib/sensitivity"
+import { formatCompactCurrency, formatCurrency } from "@/lib/format"
+
+const GRID_STEPS = 5
+
+// Pause in editing before the grid and tornado follow the model
+const RECALCULATE_DELAY_MS = 300
+
+// Select items can't have an empty value, so "no column input" gets its own key
+const NO_COLUMN = "none"
+
+interface AxisSelection {
+  eventId: string
+  input: GoalSeekInput
+  // 0 falls back to half and one and a half times the current value
+  min: number
+  max: number
+}
+
+const EMPTY_AXIS: AxisSelection = { eventId: "", input: "valuation", min: 0, max: 0 }
+
+interface SensitivityAnalysisProps {
+  id: string
+  events: Event[]
+  initialHolders: InitialHolder[]
+  variables: ModelVariable[]
+  exchangeRates: ExchangeRates
+  basis: CapTableBasis
+  exitValue: number
+  exitCurrency: Currency
+}
+
+export function SensitivityAnalysis({
+  id,
+  events,
+  initialHolders,
+  variables,
+  exchangeRates,
+  basis,
+  exitValue,
+  exitCurrency,
+}: SensitivityAnalysisProps) {
+  const [holder, setHolder] = useState(TEAM_TARGET)
+  const [measure, setMeasure] = useState<SensitivityMeasure>("ownership")
+  const [rowSelection, setRowSelection] = useState<AxisSelection>(EMPTY_AXIS)
+  const [columnSelection, setColumnSelection] = useState<AxisSelection>({ ...EMPTY_AXIS, eventId: NO_COLUMN })
+  const [swingPercentage, setSwingPercentage] = useState(20)
+
+  // Every cell and bar reruns the engine, so the analysis catches up with the model once typing pauses
+  // instead of on every keystroke
+  const [model, setModel] = useState({ initialHolders, events, variables })
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setModel({ initialHolders, events, variables })
+    }, RECALCULATE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [initialHolders, events, variables])
+
+  const inputEvents = model.events.filter((e) => getGoalSeekInputs(e).length > 0)
+
+  // Falls back to the first input event and its first input when the selection no longer applies
+  const resolveAxis = (selection: AxisSelection): SensitivityAxis | null => {
+    const event = inputEvents.find((e) => e.id === selection.eventId) ?? inputEvents[0]
+    if (!event) return null
+
+    const inputs = getGoalSeekInputs(event)
+    const input = inputs.includes(selection.input) ? selection.input : inputs[0]
+    const current = getGoalSeekInputValue(event, input)
+    const defaultMax = input === "pool-percentage" ? Math.min(99, current * 1.5) : current * 1.5
+    return {
+      eventId: event.id,
+      input,
+      min: selection.min || current * 0.5,
+      max: selection.max || defaultMax,
+      steps: GRID_STEPS,
+    }
+  }
+
+  const rows = resolveAxis(rowSelection)
+  const columns = columnSelection.eventId === NO_COLUMN ? null : resolveAxis(columnSelection)
+  const target = useMemo(
+    () => ({ holder, measure, basis, exitValue, exitCurrency }),
+    [holder, measure, basis, exitValue, exitCurrency],
+  )
+
+  // Only recompute when the model or the question changes. The resolved axes follow from the model
+  // and the selections.
+  const grid = useMemo(
+    () => (rows ? calculateSensitivityGrid(model, exchangeRates, target, rows, columns) : null),
+    [model, exchangeRates, target, rowSelection, columnSelection],
+  )
+  const tornado = useMemo(
+    () => calculateTornado(model, exchangeRates, target, swingPercentage),
+    [model, exchangeRates, target, swingPercentage],
+  )
+
+  if (!rows || !grid) {
+    return null
+  }
+
+  const finalCapTable =
+    model.events.length > 0 ? model.events[model.events.length - 1].capTable : getInitialCapTable(model.initialHolders)
+  const holderNames = Array.from(new Set(finalCapTable.map((shareholder) => shareholder.name)))
+
+  const formatOutcome = (value: number) =>
+    measure === "ownership" ? `${value.toFixed(1)}%` : formatCompactCurrency(value, exitCurrency)
+  const formatInput = (axis: SensitivityAxis, value: number) => {
+    const event = model.events.find((e) => e.id === axis.eventId)
+    if (axis.input === "pool-percentage") return `${value.toFixed(1)}%`
+    return formatCompactCurrency(value, event?.type === "funding" ? event.currency : "USD")
+  }
+  const axisLabel = (axis: SensitivityAxis) =>
+    `${model.events.find((e) => e.id === axis.eventId)?.name} ${GOAL_SEEK_INPUT_LABELS[axis.input]}`
+
+  // Red for the worst outcome in the grid through to green for the best
+  const cellColor = (value: number) => {
+    const position = grid.max > grid.min ? (value - grid.min) / (grid.max - grid.min) : 0.5
+    return `hsl(${Math.round(position * 120)}, 70%, 85%)`
+  }
+
+  const tornadoData = tornado.bars.map((bar) => ({
+    name: `${bar.eventName} ${GOAL_SEEK_INPUT_LABELS[bar.input]}`,
+    decrease: bar.low - tornado.base,
+    increase: bar.high - tornado.base,
+  }))
+
+  const renderAxisControls = (
+    label: string,
+    selection: AxisSelection,
+    axis: SensitivityAxis | null,
+    onChange: (selection: AxisSelection) => void,
+    optional: boolean,
+  ) => {
+    const inputs = axis ? getGoalSeekInputs(inputEvents.find((e) => e.id === axis.eventId)!) : []
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <Label htmlFor={`sensitivity-${label}-event-${id}`} className="text-sm text-gray-700">
+            {label}
+          </Label>
+          <Select
+            value={axis ? axis.eventId : NO_COLUMN}
+            onValueChange={(value) => onChange({ ...EMPTY_AXIS, eventId: value, input: selection.input })}
+          >
+            <SelectTrigger
+              id={`sensitivity-${label}-event-${id}`}
+              className="mt-1 border-gray-300 focus:border-gray-500"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+              {inputEvents.map((event) => (
+                <SelectItem key={event.id} value={event.id}>
+                  {event.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {axis && (
+          <>
+            <div>
+              <Label htmlFor={`sensitivity-${label}-input-${id}`} className="text-sm text-gray-700">
+                Input
+              </Label>
+              <Select
+                value={axis.input}
+                onValueChange={(value) =>
+                  onChange({ ...EMPTY_AXIS, eventId: axis.eventId, input: value as GoalSeekInput })
+                }
+              >
+                <SelectTrigger
+                  id={`sensitivity-${label}-input-${id}`}
+                  className="mt-1 border-gray-300 focus:border-gray-500"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {inputs.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {GOAL_SEEK_INPUT_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`sensitivity-${label}-min-${id}`} className="text-sm text-gray-700">
+                From
+              </Label>
+              <Input
+                id={`sensitivity-${label}-min-${id}`}
+                type="number"
+                value={Math.round(axis.min * 100) / 100}
+                onChange={(e) =>
+                  onChange({ ...selection, eventId: axis.eventId, input: axis.input, min: Number(e.target.value) })
+                }
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`sensitivity-${label}-max-${id}`} className="text-sm text-gray-700">
+                To
+              </Label>
+              <Input
+                id={`sensitivity-${label}-max-${id}`}
+                type="number"
+                value={Math.round(axis.max * 100) / 100}
+                onChange={(e) =>
+                  onChange({ ...selection, eventId: axis.eventId, input: axis.input, max: Number(e.target.value) })
+                }
+                className="mt-1 border-gray-300 focus:border-gray-500"
+              />
+            </div>
+          </>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Card className="bg-white border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-gray-800 text-lg">🌡️ Sensitivity Analysis</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor={`sensitivity-holder-${id}`} className="text-sm text-gray-700">
+              Holder
+            </Label>
+            <Select value={holder} onValueChange={setHolder}>
+              <SelectTrigger id={`sensitivity-holder-${id}`} className="mt-1 border-gray-300 focus:border-gray-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TEAM_TARGET}>{TEAM_TARGET}</SelectItem>
+                {holderNames
+                  .filter((name) => name !== TEAM_TARGET)
+                  .map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`sensitivity-measure-${id}`} className="text-sm text-gray-700">
+              Outcome
+            </Label>
+            <Select value={measure} onValueChange={(value) => setMeasure(value as SensitivityMeasure)}>
+              <SelectTrigger id={`sensitivity-measure-${id}`} className="mt-1 border-gray-300 focus:border-gray-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ownership">Final ownership %</SelectItem>
+                <SelectItem value="payout">Payout at {formatCurrency(exitValue, exitCurrency)} exit</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {renderAxisControls("Rows", rowSelection, rows, setRowSelection, false)}
+        {renderAxisControls("Columns", columnSelection, columns, setColumnSelection, true)}
+
+        <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500">
+                <th className="py-1 pr-2 font-medium text-left">
+                  {axisLabel(rows)}
+                  {columns && ` ↓ / ${axisLabel(columns)} →`}
+                </th>
+                {columns ? (
+                  grid.columnValues.map((value, index) => (
+                    <th key={index} className="py-1 px-2 font-medium text-right">
+                      {formatInput(columns, value)}
+                    </th>
+                  ))
+                ) : (
+                  <th className="py-1 px-2 font-medium text-right">{holder}</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {grid.rowValues.map((rowValue, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-gray-200">
+                  <td className="py-1 pr-2 font-medium text-gray-800">{formatInput(rows, rowValue)}</td>
+                  {grid.cells[rowIndex].map((value, columnIndex) => (
+                    <td
+                      key={columnIndex}
+                      className="py-1 px-2 text-right text-gray-900"
+                      style={{ backgroundColor: cellColor(value) }}
+                    >
+                      {formatOutcome(value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {tornado.bars.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-sm text-gray-800">
+                What moves {holder} most (from {formatOutcome(tornado.base)})
+              </h4>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`sensitivity-swing-${id}`} className="text-xs text-gray-600 font-normal">
+                  Swing each input ±%
+                </Label>
+                <Input
+                  id={`sensitivity-swing-${id}`}
+                  type="number"
+                  value={swingPercentage || ""}
+                  onChange={(e) => setSwingPercentage(Math.min(100, Number(e.target.value)))}
+                  className="h-8 w-20 text-xs border-gray-300"
+                />
+              </div>
+            </div>
+            <div style={{ height: 60 + tornadoData.length * 32 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={tornadoData}
+                  layout="vertical"
+                  stackOffset="sign"
+                  margin={{ top: 8, right: 16, bottom: 8, left: 8 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis type="number" tickFormatter={formatOutcome} tick={{ fontSize: 11 }} />
+                  <YAxis type="category" dataKey="name" width={160} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value: number) => `${value >= 0 ? "+" : ""}${formatOutcome(value)}`} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <ReferenceLine x={0} stroke="#6b7280" />
+                  <Bar
+                    dataKey="decrease"
+                    name={`Input -${swingPercentage}%`}
+                    stackId="swing"
+                    fill="#ef4444"
+                    isAnimationActive={false}
+                  />
+                  <Bar
+                    dataKey="increase"
+                    name={`Input +${swingPercentage}%`}
+                    stackId="swing"
+                    fill="#10b981"
+                    isAnimationActive={false}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
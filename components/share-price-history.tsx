@@ -0,0 +1,86 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { type Currency, type Event, type ExchangeRates, getSharePriceHistory } from "@/lib/dilution-engine"
+import { formatPricePerShare } from "@/lib/format"
+
+interface SharePriceHistoryProps {
+  id: string
+  events: Event[]
+  baseCurrency: Currency
+  exchangeRates: ExchangeRates
+  onBaseCurrencyChange: (currency: Currency) => void
+}
+
+export function SharePriceHistory({
+  id,
+  events,
+  baseCurrency,
+  exchangeRates,
+  onBaseCurrencyChange,
+}: SharePriceHistoryProps) {
+  const history = getSharePriceHistory(events, baseCurrency, exchangeRates)
+
+  if (history.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="bg-white border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+          <span className="flex items-center gap-2">🏷️ Share Price History</span>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`base-currency-${id}`} className="text-xs text-gray-600 font-normal">
+              Base currency
+            </Label>
+            <Select value={baseCurrency} onValueChange={(value) => onBaseCurrencyChange(value as Currency)}>
+              <SelectTrigger id={`base-currency-${id}`} className="h-8 w-28 text-xs border-gray-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="USD">USD ($)</SelectItem>
+                <SelectItem value="GBP">GBP (£)</SelectItem>
+                <SelectItem value="EUR">EUR (€)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="py-1 pr-2 font-medium">Round</th>
+                <th className="py-1 pr-2 font-medium text-right">Price per Share</th>
+                <th className="py-1 pr-2 font-medium text-right">In {baseCurrency}</th>
+                <th className="py-1 font-medium text-right">Step-up</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((point) => (
+                <tr key={point.roundId} className="border-t border-gray-200">
+                  <td className="py-1 pr-2 font-medium text-gray-800">{point.name}</td>
+                  <td className="py-1 pr-2 text-right text-gray-700">
+                    {formatPricePerShare(point.pricePerShare, point.currency)}
+                  </td>
+                  <td className="py-1 pr-2 text-right font-semibold text-gray-900">
+                    {formatPricePerShare(point.basePricePerShare, baseCurrency)}
+                  </td>
+                  <td
+                    className={`py-1 text-right ${point.stepUp !== null && point.stepUp < 1 ? "text-red-600" : "text-gray-700"}`}
+                  >
+                    {point.stepUp === null ? "–" : `${point.stepUp.toFixed(2)}x`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { type Event, getVestingSummary } from "@/lib/dilution-engine"
+
+interface VestingScheduleProps {
+  id: string
+  events: Event[]
+  asOfDate: string
+  onAsOfDateChange: (date: string) => void
+}
+
+export function VestingSchedule({ id, events, asOfDate, onAsOfDateChange }: VestingScheduleProps) {
+  const positions = getVestingSummary(events, asOfDate)
+
+  if (positions.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="bg-white border shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-gray-800 text-lg">
+          <span className="flex items-center gap-2">⏳ Vesting</span>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`vesting-date-${id}`} className="text-xs text-gray-600 font-normal">
+              As of
+            </Label>
+            <Input
+              id={`vesting-date-${id}`}
+              type="date"
+              value={asOfDate}
+              onChange={(e) => onAsOfDateChange(e.target.value)}
+              className="h-8 w-40 text-xs border-gray-300"
+            />
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="py-1 pr-2 font-medium">Holder</th>
+                <th className="py-1 pr-2 font-medium text-right">Granted</th>
+                <th className="py-1 pr-2 font-medium text-right">Vested</th>
+                <th className="py-1 font-medium text-right">Unvested</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map((position) => (
+                <tr key={position.holderName} className="border-t border-gray-200">
+                  <td className="py-1 pr-2 font-medium text-gray-800">{position.holderName}</td>
+                  <td className="py-1 pr-2 text-right text-gray-700">{position.granted.toLocaleString()}</td>
+                  <td className="py-1 pr-2 text-right">
+                    <span className="font-semibold text-gray-900">{position.vested.toLocaleString()}</span>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {position.granted > 0 ? ((position.vested / position.granted) * 100).toFixed(0) : 0}%
+                    </span>
+                  </td>
+                  <td className="py-1 text-right text-gray-700">{position.unvested.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
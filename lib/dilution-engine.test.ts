@@ -0,0 +1,1325 @@
+import { describe, expect, it } from "vitest"
+import {
+  type ConvertibleNote,
+  type Event,
+  type Exercise,
+  type FundingRound,
+  type OptionGrant,
+  type Safe,
+  type SecondarySale,
+  type ShareBuyback,
+  type Shareholder,
+  type Warrant,
+  calculateAccruedInterest,
+  calculateProRataAmounts,
+  calculateVestedOptions,
+  getCapTableOnBasis,
+  getInitialCapTable,
+  getRoundNameError,
+  getSharePriceHistory,
+  getVestingSummary,
+  recalculateAllEvents,
+  renameRound,
+  runModel,
+} from "@/lib/dilution-engine"
+import {
+  EXCHANGE_RATES,
+  convertibleNote,
+  exercise,
+  fundingRound,
+  holder,
+  optionGrant,
+  optionPool,
+  safe,
+  secondarySale,
+  shareBuyback,
+  stockSplit,
+  warrant,
+} from "@/lib/test-fixtures"
+
+const FOUNDERS = [holder("Founders", 10_000_000)]
+
+const run = (events: Event[], initialHolders = FOUNDERS) => recalculateAllEvents(events, initialHolders, EXCHANGE_RATES)
+
+const sharesOf = (capTable: Shareholder[], name: string) =>
+  capTable.filter((shareholder) => shareholder.name === name).reduce((sum, shareholder) => sum + shareholder.shares, 0)
+
+const percentageOf = (capTable: Shareholder[], name: string) =>
+  capTable.filter((shareholder) => shareholder.name === name).reduce((sum, s) => sum + s.percentage, 0)
+
+const roundById = (events: Event[], id: string) => events.find((e): e is FundingRound => e.id === id)!
+
+const safeById = (events: Event[], id: string) => events.find((e): e is Safe => e.id === id)!
+
+const noteById = (events: Event[], id: string) => events.find((e): e is ConvertibleNote => e.id === id)!
+
+const grantById = (events: Event[], id: string) => events.find((e): e is OptionGrant => e.id === id)!
+
+const saleById = (events: Event[], id: string) => events.find((e): e is SecondarySale => e.id === id)!
+
+const buybackById = (events: Event[], id: string) => events.find((e): e is ShareBuyback => e.id === id)!
+
+const warrantById = (events: Event[], id: string) => events.find((e): e is Warrant => e.id === id)!
+
+const exerciseById = (events: Event[], id: string) => events.find((e): e is Exercise => e.id === id)!
+
+describe("initial holders", () => {
+  const holders = [holder("Alice", 6_000_000), holder("Bob", 3_000_000), holder("Angel", 1_000_000, "angel")]
+
+  it("splits the opening cap table between the holders by share count", () => {
+    expect(getInitialCapTable(holders)).toEqual([
+      { name: "Alice", shares: 6_000_000, percentage: 60, role: "founder" },
+      { name: "Bob", shares: 3_000_000, percentage: 30, role: "founder" },
+      { name: "Angel", shares: 1_000_000, percentage: 10, role: "angel" },
+    ])
+    expect(getInitialCapTable([holder("Nobody", -5)])).toEqual([
+      { name: "Nobody", shares: 0, percentage: 0, role: "founder" },
+    ])
+  })
+
+  it("dilutes every holder pro rata and keeps their roles", () => {
+    const [seed] = run(
+      [fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 })],
+      holders,
+    )
+
+    expect(percentageOf(seed.capTable, "Alice")).toBeCloseTo(48)
+    expect(percentageOf(seed.capTable, "Angel")).toBeCloseTo(8)
+    expect(seed.capTable.find((shareholder) => shareholder.name === "Angel")?.role).toBe("angel")
+  })
+})
+
+describe("pre-money and post-money rounds", () => {
+  it("issues the investor's stake of the post-money on a pre-money valuation", () => {
+    const [seed] = run([
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+    ])
+
+    expect(roundById([seed], "seed").postMoneyValuation).toBe(5_000_000)
+    expect(sharesOf(seed.capTable, "seed Investor")).toBe(2_500_000)
+    expect(seed.totalSharesAfter).toBe(12_500_000)
+    expect(percentageOf(seed.capTable, "seed Investor")).toBeCloseTo(20)
+    expect(percentageOf(seed.capTable, "Founders")).toBeCloseTo(80)
+    expect(roundById([seed], "seed").pricePerShare).toBeCloseTo(0.4)
+  })
+
+  it("gives the same result for the equivalent post-money valuation", () => {
+    const [seed] = run([
+      fundingRound({
+        id: "seed",
+        order: 1,
+        valuationType: "post-money",
+        manualValuation: 5_000_000,
+        investmentAmount: 1_000_000,
+      }),
+    ])
+
+    expect(roundById([seed], "seed").preMoneyValuation).toBe(4_000_000)
+    expect(sharesOf(seed.capTable, "seed Investor")).toBe(2_500_000)
+    expect(seed.totalSharesAfter).toBe(12_500_000)
+  })
+
+  it("leaves the cap table unchanged when the round raises nothing", () => {
+    const [seed] = run([fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000 })])
+
+    expect(seed.newSharesIssued).toBe(0)
+    expect(seed.totalSharesAfter).toBe(10_000_000)
+  })
+
+  it("dilutes earlier investors in later rounds", () => {
+    const events = run([
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({ id: "a", order: 2, manualValuation: 15_000_000, investmentAmount: 5_000_000 }),
+    ])
+    const capTable = events[1].capTable
+
+    expect(percentageOf(capTable, "a Investor")).toBeCloseTo(25)
+    expect(percentageOf(capTable, "seed Investor")).toBeCloseTo(15)
+    expect(percentageOf(capTable, "Founders")).toBeCloseTo(60)
+  })
+})
+
+describe("reference rounds", () => {
+  const seed = fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 })
+
+  it("takes the referenced round's post-money valuation with a premium", () => {
+    const events = run([
+      seed,
+      fundingRound({
+        id: "a",
+        order: 2,
+        valuationType: "post-money",
+        valuationSource: "reference",
+        referenceRoundId: "seed",
+        referenceAdjustment: "premium",
+        discountPercentage: 100,
+        investmentAmount: 2_000_000,
+      }),
+    ])
+
+    expect(roundById(events, "a").calculatedValuation).toBe(10_000_000)
+    expect(roundById(events, "a").valuationError).toBe("")
+  })
+
+  it("takes the referenced round's pre-money valuation with a discount", () => {
+    const events = run([
+      seed,
+      fundingRound({
+        id: "a",
+        order: 2,
+        valuationSource: "reference",
+        referenceRoundId: "seed",
+        discountPercentage: 25,
+        investmentAmount: 1_000_000,
+      }),
+    ])
+
+    expect(roundById(events, "a").calculatedValuation).toBe(3_000_000)
+  })
+
+  it("reports a reference to a round that no longer exists", () => {
+    const events = run([
+      fundingRound({ id: "a", order: 1, valuationSource: "reference", referenceRoundId: "gone", investmentAmount: 1 }),
+    ])
+
+    expect(roundById(events, "a").valuationError).toBe("References a round that no longer exists")
+    expect(events[0].newSharesIssued).toBe(0)
+  })
+
+  it("reports a discount of 100% or more", () => {
+    const events = run([
+      seed,
+      fundingRound({
+        id: "a",
+        order: 2,
+        valuationSource: "reference",
+        referenceRoundId: "seed",
+        discountPercentage: 120,
+        investmentAmount: 1_000_000,
+      }),
+    ])
+
+    expect(roundById(events, "a").valuationError).toBe("Discount must be below 100%")
+    expect(roundById(events, "a").newSharesIssued).toBe(0)
+  })
+})
+
+describe("option pools", () => {
+  it("creates a new pool holding its percentage of the post-pool total", () => {
+    const [pool] = run([optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 10 })])
+
+    expect(pool.newSharesIssued).toBe(1_111_111)
+    expect(percentageOf(pool.capTable, "ESOP")).toBeCloseTo(10, 4)
+  })
+
+  it("is diluted by later rounds like any other holder", () => {
+    const events = run([
+      optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 10 }),
+      fundingRound({ id: "seed", order: 2, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+    ])
+
+    expect(percentageOf(events[1].capTable, "ESOP")).toBeCloseTo(8, 4)
+  })
+
+  it("tops up the latest pool back to its target after a round dilutes it", () => {
+    const events = run([
+      optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 10 }),
+      fundingRound({ id: "seed", order: 2, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      optionPool({ id: "top-up", order: 3, name: "Top-up", percentage: 15, mode: "top-up" }),
+    ])
+    const capTable = events[2].capTable
+
+    expect(percentageOf(capTable, "ESOP")).toBeCloseTo(15, 4)
+    expect(capTable.some((s) => s.name === "Top-up")).toBe(false)
+    expect(events[2].type === "option-pool" && events[2].poolRowName).toBe("ESOP")
+  })
+
+  it("tops up the named pool rather than the latest one", () => {
+    const events = run([
+      optionPool({ id: "esop", order: 1, name: "ESOP", percentage: 10 }),
+      optionPool({ id: "advisors", order: 2, name: "Advisors", percentage: 2 }),
+      optionPool({ id: "top-up", order: 3, percentage: 15, mode: "top-up", topUpPoolName: "ESOP" }),
+    ])
+    const capTable = events[2].capTable
+
+    expect(percentageOf(capTable, "ESOP")).toBeCloseTo(15, 4)
+    expect(sharesOf(capTable, "Advisors")).toBe(sharesOf(events[1].capTable, "Advisors"))
+  })
+
+  it("creates a new pool when the named pool doesn't exist yet", () => {
+    const events = run([
+      optionPool({ id: "esop", order: 1, name: "ESOP", percentage: 10 }),
+      optionPool({ id: "top-up", order: 2, name: "Advisors", percentage: 5, mode: "top-up", topUpPoolName: "Missing" }),
+    ])
+    const [, topUp] = events
+
+    expect(topUp.type === "option-pool" && topUp.poolRowName).toBe("Advisors")
+    expect(percentageOf(topUp.capTable, "Advisors")).toBeCloseTo(5, 4)
+    expect(sharesOf(topUp.capTable, "ESOP")).toBe(sharesOf(events[0].capTable, "ESOP"))
+  })
+})
+
+describe("multi-currency chains", () => {
+  it("converts referenced valuations through each round's currency", () => {
+    const events = run([
+      fundingRound({
+        id: "seed",
+        order: 1,
+        valuationType: "post-money",
+        manualValuation: 5_000_000,
+        investmentAmount: 1,
+      }),
+      fundingRound({
+        id: "a",
+        order: 2,
+        currency: "EUR",
+        valuationType: "post-money",
+        valuationSource: "reference",
+        referenceRoundId: "seed",
+        investmentAmount: 1,
+      }),
+      fundingRound({
+        id: "b",
+        order: 3,
+        currency: "GBP",
+        valuationType: "post-money",
+        valuationSource: "reference",
+        referenceRoundId: "a",
+        investmentAmount: 1,
+      }),
+    ])
+
+    // USD-EUR 0.92, then EUR-GBP derived as 0.79 / 0.92 to four places (0.8587)
+    expect(roundById(events, "a").calculatedValuation).toBeCloseTo(4_600_000)
+    expect(roundById(events, "b").calculatedValuation).toBeCloseTo(3_950_020)
+  })
+
+  it("prices each round in its own currency", () => {
+    const events = run([
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({
+        id: "a",
+        order: 2,
+        currency: "GBP",
+        valuationSource: "reference",
+        referenceRoundId: "seed",
+        investmentAmount: 790_000,
+      }),
+    ])
+    const seriesA = roundById(events, "a")
+
+    // Seed pre-money of $4M is £3.16M; £790k buys 20% of the post-money
+    expect(seriesA.calculatedValuation).toBeCloseTo(3_160_000)
+    expect(percentageOf(seriesA.capTable, "a Investor")).toBeCloseTo(20, 4)
+    expect(seriesA.pricePerShare).toBeCloseTo(3_160_000 / 12_500_000)
+  })
+})
+
+describe("runModel", () => {
+  it("returns the last event's cap table, or the founders' before any event", () => {
+    const events = [fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 })]
+
+    expect(runModel({ initialHolders: FOUNDERS, events, variables: [] }, EXCHANGE_RATES).totalShares).toBe(12_500_000)
+    expect(runModel({ initialHolders: FOUNDERS, events: [], variables: [] }, EXCHANGE_RATES).capTable).toEqual([
+      { name: "Founders", shares: 10_000_000, percentage: 100, role: "founder" },
+    ])
+  })
+})
+
+describe("SAFEs", () => {
+  const seriesA = fundingRound({ id: "a", order: 2, manualValuation: 20_000_000, investmentAmount: 5_000_000 })
+
+  it("issues no shares until the next priced round", () => {
+    const [pending] = run([safe({ id: "safe", order: 1, investmentAmount: 1_000_000, valuationCap: 10_000_000 })])
+
+    expect(pending.newSharesIssued).toBe(0)
+    expect(pending.capTable.some((s) => s.name === "safe Investor")).toBe(false)
+    expect(safeById([pending], "safe").convertedInRoundId).toBe("")
+  })
+
+  it("converts a post-money SAFE at its cap, against the capitalization including itself", () => {
+    const events = run([safe({ id: "safe", order: 1, investmentAmount: 1_000_000, valuationCap: 10_000_000 }), seriesA])
+    const converted = safeById(events, "safe")
+
+    // The holder owns cap / investment = 10% of the pre-money capitalization
+    expect(converted.convertedInRoundId).toBe("a")
+    expect(converted.conversionBasis).toBe("cap")
+    expect(converted.conversionShares).toBe(1_111_111)
+    expect(converted.conversionPrice).toBeCloseTo(0.9, 4)
+    expect(roundById(events, "a").pricePerShare).toBeCloseTo(1.8, 4)
+  })
+
+  it("converts at the discount when that beats the cap", () => {
+    const events = run([
+      safe({ id: "safe", order: 1, safeType: "pre-money", investmentAmount: 1_000_000, discountPercentage: 20 }),
+      seriesA,
+    ])
+    const converted = safeById(events, "safe")
+
+    expect(converted.conversionBasis).toBe("discount")
+    expect(converted.conversionShares).toBe(666_667)
+    expect(converted.conversionPrice).toBeCloseTo(roundById(events, "a").pricePerShare * 0.8, 6)
+  })
+
+  it("dilutes the existing holders rather than the new investor", () => {
+    const events = run([safe({ id: "safe", order: 1, investmentAmount: 1_000_000, valuationCap: 10_000_000 }), seriesA])
+
+    expect(percentageOf(events[1].capTable, "a Investor")).toBeCloseTo(20, 4)
+  })
+
+  it("gives an MFN SAFE the best terms of a later SAFE", () => {
+    const events = run([
+      safe({ id: "mfn", order: 1, investmentAmount: 500_000, mfn: true }),
+      safe({ id: "capped", order: 2, investmentAmount: 500_000, valuationCap: 8_000_000 }),
+      { ...seriesA, order: 3 },
+    ])
+
+    expect(safeById(events, "mfn").conversionBasis).toBe("cap")
+    expect(safeById(events, "mfn").conversionPrice).toBeCloseTo(safeById(events, "capped").conversionPrice, 6)
+  })
+})
+
+describe("convertible notes", () => {
+  const note = convertibleNote({
+    id: "note",
+    order: 1,
+    principal: 1_000_000,
+    interestRate: 10,
+    issueDate: "2021-01-01",
+    maturityDate: "2023-01-01",
+  })
+
+  it("accrues simple and compound interest", () => {
+    expect(calculateAccruedInterest(note, "2022-01-01")).toBeCloseTo(100_000)
+    expect(calculateAccruedInterest(note, "2023-01-01")).toBeCloseTo(200_000)
+    expect(calculateAccruedInterest({ ...note, interestType: "compound" }, "2023-01-01")).toBeCloseTo(210_000)
+    expect(calculateAccruedInterest(note, "2020-06-01")).toBe(0)
+  })
+
+  it("converts principal plus interest up to the round's close date", () => {
+    const events = run([
+      note,
+      fundingRound({
+        id: "a",
+        order: 2,
+        date: "2022-01-01",
+        manualValuation: 20_000_000,
+        investmentAmount: 5_000_000,
+      }),
+    ])
+    const converted = noteById(events, "note")
+    const [conversion] = roundById(events, "a").conversions
+
+    expect(converted.convertedInRoundId).toBe("a")
+    expect(converted.accruedInterest).toBeCloseTo(100_000)
+    expect(conversion.amount).toBeCloseTo(1_100_000)
+    expect(conversion.shares).toBe(Math.round(1_100_000 / converted.conversionPrice))
+  })
+
+  it("accrues to maturity when the round has no date", () => {
+    const events = run([
+      note,
+      fundingRound({ id: "a", order: 2, manualValuation: 20_000_000, investmentAmount: 5_000_000 }),
+    ])
+
+    expect(noteById(events, "note").accruedInterest).toBeCloseTo(200_000)
+  })
+
+  it("converts at its cap against the shares outstanding before conversion", () => {
+    const events = run([
+      { ...note, interestRate: 0, valuationCap: 5_000_000 },
+      fundingRound({ id: "a", order: 2, manualValuation: 20_000_000, investmentAmount: 5_000_000 }),
+    ])
+    const converted = noteById(events, "note")
+
+    expect(converted.conversionBasis).toBe("cap")
+    expect(converted.conversionPrice).toBeCloseTo(0.5)
+    expect(converted.conversionShares).toBe(2_000_000)
+  })
+})
+
+describe("getSharePriceHistory", () => {
+  it("lists each priced round's issue price and its step-up on the previous one", () => {
+    const events = run([
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({ id: "unpriced", order: 2, manualValuation: 10_000_000 }),
+      fundingRound({ id: "a", order: 3, manualValuation: 15_000_000, investmentAmount: 5_000_000 }),
+    ])
+    const history = getSharePriceHistory(events, "USD", EXCHANGE_RATES)
+
+    expect(history.map((point) => point.roundId)).toEqual(["seed", "a"])
+    expect(history[0]).toMatchObject({ pricePerShare: 0.4, basePricePerShare: 0.4, stepUp: null })
+    expect(history[1].pricePerShare).toBeCloseTo(1.2)
+    expect(history[1].stepUp).toBeCloseTo(3)
+  })
+
+  it("compares rounds in different currencies in the base currency", () => {
+    const events = run([
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({ id: "a", order: 2, currency: "GBP", manualValuation: 9_480_000, investmentAmount: 1_000_000 }),
+    ])
+    const [, seriesA] = getSharePriceHistory(events, "USD", EXCHANGE_RATES)
+
+    // £9.48M over 12.5M shares is £0.7584, about $0.96 at the derived GBP-USD rate
+    expect(seriesA.pricePerShare).toBeCloseTo(0.7584)
+    expect(seriesA.basePricePerShare).toBeCloseTo(0.7584 * EXCHANGE_RATES["GBP-USD"])
+    expect(seriesA.stepUp).toBeCloseTo((0.7584 * EXCHANGE_RATES["GBP-USD"]) / 0.4)
+  })
+
+  it("restates the previous price on the post-split basis", () => {
+    const events = run([
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      stockSplit({ id: "split", order: 2, ratio: 2 }),
+      fundingRound({ id: "a", order: 3, manualValuation: 15_000_000, investmentAmount: 5_000_000 }),
+    ])
+    const [seed, seriesA] = getSharePriceHistory(events, "USD", EXCHANGE_RATES)
+
+    // $15M over 25M post-split shares is $0.60, against the seed's $0.40 restated as $0.20
+    expect(seed.pricePerShare).toBeCloseTo(0.4)
+    expect(seriesA.pricePerShare).toBeCloseTo(0.6)
+    expect(seriesA.stepUp).toBeCloseTo(3)
+  })
+})
+
+describe("pre-money option pool top-ups", () => {
+  const seriesA = fundingRound({
+    id: "a",
+    order: 2,
+    name: "Series A",
+    manualValuation: 8_000_000,
+    investmentAmount: 2_000_000,
+    targetPoolPercentage: 10,
+  })
+
+  it("creates the pool in the pre-money so only existing holders are diluted", () => {
+    const [round] = run([{ ...seriesA, order: 1 }])
+    const result = roundById([round], "a")
+
+    expect(result.poolTopUpName).toBe("Series A Option Pool")
+    expect(result.poolTopUpShares).toBe(1_428_571)
+    expect(percentageOf(round.capTable, "Series A Option Pool")).toBeCloseTo(10, 4)
+    expect(percentageOf(round.capTable, "Series A Investor")).toBeCloseTo(20, 4)
+    expect(percentageOf(round.capTable, "Founders")).toBeCloseTo(70, 4)
+    expect(result.effectivePreMoneyValuation).toBeCloseTo(7_000_000, -1)
+  })
+
+  it("tops up the latest pool instead of creating a new one", () => {
+    const events = run([optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 5 }), seriesA])
+    const capTable = events[1].capTable
+
+    expect(roundById(events, "a").poolTopUpName).toBe("ESOP")
+    expect(percentageOf(capTable, "ESOP")).toBeCloseTo(10, 4)
+    expect(capTable.some((s) => s.name === "Series A Option Pool")).toBe(false)
+  })
+
+  it("leaves a pool already above the target alone", () => {
+    const events = run([optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 20 }), seriesA])
+
+    expect(roundById(events, "a").poolTopUpShares).toBe(0)
+    expect(percentageOf(events[1].capTable, "ESOP")).toBeCloseTo(16, 4)
+  })
+})
+
+describe("option grants", () => {
+  const pool = optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 10 })
+
+  it("moves options from the pool to the grantee without issuing shares", () => {
+    const events = run([pool, optionGrant({ id: "grant", order: 2, options: 100_000 })])
+    const grant = grantById(events, "grant")
+    const grantRow = grant.capTable.find((shareholder) => shareholder.grantedFromPool === "ESOP")
+
+    expect(grant.newSharesIssued).toBe(0)
+    expect(grant.totalSharesAfter).toBe(events[0].totalSharesAfter)
+    expect(sharesOf(grant.capTable, "ESOP")).toBe(1_011_111)
+    expect(grantRow).toMatchObject({ name: "grant Employee", shares: 100_000, role: "employee" })
+  })
+
+  it("grants no more than the pool has left", () => {
+    const events = run([pool, optionGrant({ id: "grant", order: 2, options: 2_000_000 })])
+    const grant = grantById(events, "grant")
+
+    expect(grant.availableOptions).toBe(1_111_111)
+    expect(grant.grantedOptions).toBe(1_111_111)
+  })
+
+  it("drops the pool row once every option is granted", () => {
+    const events = run([
+      pool,
+      optionGrant({ id: "grant", order: 2, options: 1_111_111 }),
+      optionGrant({ id: "later", order: 3, options: 1_000 }),
+    ])
+
+    expect(grantById(events, "grant").capTable.map((shareholder) => shareholder.name)).toEqual([
+      "Founders",
+      "grant Employee",
+    ])
+    expect(grantById(events, "later")).toMatchObject({ availableOptions: 0, grantedOptions: 0 })
+  })
+
+  it("merges repeat grants to one holder from the same pool", () => {
+    const events = run([
+      pool,
+      optionGrant({ id: "first", order: 2, holderName: "Carol", options: 1_000 }),
+      optionGrant({ id: "second", order: 3, holderName: "Carol", options: 500 }),
+    ])
+
+    expect(grantById(events, "second").capTable.filter((shareholder) => shareholder.name === "Carol")).toHaveLength(1)
+    expect(sharesOf(events[2].capTable, "Carol")).toBe(1_500)
+    expect(getVestingSummary(events, "2025-01-01")).toEqual([
+      { holderName: "Carol", granted: 1_500, vested: 1_500, unvested: 0 },
+    ])
+  })
+})
+
+describe("calculateVestedOptions", () => {
+  const grant = optionGrant({
+    id: "grant",
+    order: 1,
+    grantDate: "2024-01-15",
+    vestingMonths: 48,
+    cliffMonths: 12,
+    grantedOptions: 4_800,
+  })
+
+  it("vests nothing before the cliff", () => {
+    expect(calculateVestedOptions(grant, "2025-01-14")).toBe(0)
+  })
+
+  it("releases everything accrued up to the cliff at the cliff", () => {
+    expect(calculateVestedOptions(grant, "2025-01-15")).toBe(1_200)
+  })
+
+  it("vests monthly after the cliff", () => {
+    expect(calculateVestedOptions(grant, "2025-07-14")).toBe(1_700)
+    expect(calculateVestedOptions(grant, "2025-07-15")).toBe(1_800)
+  })
+
+  it("is fully vested at the end of the schedule", () => {
+    expect(calculateVestedOptions(grant, "2028-01-15")).toBe(4_800)
+    expect(calculateVestedOptions(grant, "2030-06-01")).toBe(4_800)
+  })
+
+  it("vests nothing while the grant date is still in the future", () => {
+    expect(calculateVestedOptions(grant, "2023-06-01")).toBe(0)
+    expect(calculateVestedOptions({ ...grant, cliffMonths: 0 }, "2023-06-01")).toBe(0)
+  })
+})
+
+describe("pro-rata participation", () => {
+  const HOLDERS = [holder("Founders", 8_000_000), holder("Angel", 2_000_000, "angel")]
+  const seriesA = (proRataParticipants: FundingRound["proRataParticipants"]) =>
+    fundingRound({
+      id: "a",
+      order: 1,
+      investmentAmount: 1_000_000,
+      manualValuation: 4_000_000,
+      proRataParticipants,
+    })
+  const initialCapTable = getInitialCapTable(HOLDERS)
+
+  it("sizes a full pro-rata allocation as the holder's ownership of the round", () => {
+    const round = seriesA([{ id: "p1", holderName: "Angel", exerciseProRata: true, amount: 0 }])
+
+    expect(calculateProRataAmounts(round, initialCapTable, 10_000_000)).toEqual([
+      { holderName: "Angel", amount: 200_000 },
+    ])
+  })
+
+  it("takes the explicit amount for partial participation and drops holders who decline", () => {
+    const round = seriesA([
+      { id: "p1", holderName: "Angel", exerciseProRata: false, amount: 50_000 },
+      { id: "p2", holderName: "Founders", exerciseProRata: false, amount: 0 },
+    ])
+
+    expect(calculateProRataAmounts(round, initialCapTable, 10_000_000)).toEqual([
+      { holderName: "Angel", amount: 50_000 },
+    ])
+  })
+
+  it("scales requests down to the round size", () => {
+    const round = seriesA([
+      { id: "p1", holderName: "Angel", exerciseProRata: false, amount: 1_500_000 },
+      { id: "p2", holderName: "Founders", exerciseProRata: false, amount: 500_000 },
+    ])
+
+    expect(calculateProRataAmounts(round, initialCapTable, 10_000_000)).toEqual([
+      { holderName: "Angel", amount: 750_000 },
+      { holderName: "Founders", amount: 250_000 },
+    ])
+  })
+
+  it("keeps a full participant's ownership and gives the new investor the rest of the round", () => {
+    const events = run([seriesA([{ id: "p1", holderName: "Angel", exerciseProRata: true, amount: 0 }])], HOLDERS)
+    const round = roundById(events, "a")
+    const lead = round.capTable.find((shareholder) => shareholder.name === "a Investor")!
+
+    expect(round.proRataAllocations).toEqual([{ holderName: "Angel", amount: 200_000, shares: 500_000 }])
+    expect(percentageOf(round.capTable, "Angel")).toBeCloseTo(20)
+    expect(lead).toMatchObject({ shares: 2_000_000, investment: 800_000 })
+    expect(lead.shares + round.proRataAllocations[0].shares).toBe(round.newSharesIssued)
+  })
+
+  it("leaves the new investor out when participants take the whole round", () => {
+    const [round] = run(
+      [seriesA([{ id: "p1", holderName: "Angel", exerciseProRata: false, amount: 1_000_000 }])],
+      HOLDERS,
+    )
+
+    expect(sharesOf(round.capTable, "a Investor")).toBe(0)
+    expect(sharesOf(round.capTable, "Angel")).toBe(2_000_000 + round.newSharesIssued)
+  })
+
+  it("keeps the participant's role on the shares bought in the round", () => {
+    const events = run([seriesA([{ id: "p1", holderName: "Founders", exerciseProRata: true, amount: 0 }])], HOLDERS)
+    const preferredRow = roundById(events, "a").capTable.find(
+      (shareholder) => shareholder.name === "Founders" && shareholder.shareClass,
+    )
+
+    // So a founder's pro-rata still counts towards the team
+    expect(preferredRow).toMatchObject({ shares: 2_000_000, role: "founder" })
+  })
+})
+
+describe("syndicates", () => {
+  const syndicateRound = (investors: FundingRound["investors"]) =>
+    fundingRound({ id: "a", order: 1, investmentAmount: 1_000_000, manualValuation: 4_000_000, investors })
+  const investor = (name: string, amount: number, fillRemaining = false) => ({
+    id: name,
+    name,
+    amount,
+    fillRemaining,
+  })
+
+  it("scales fixed amounts down when they exceed the round", () => {
+    const round = roundById(run([syndicateRound([investor("Lead", 800_000), investor("Angel", 400_000)])]), "a")
+    const [lead, angel] = round.investorAllocations
+
+    expect(lead.amount).toBeCloseTo(666_666.67)
+    expect(angel.amount).toBeCloseTo(333_333.33)
+    // Reported as over-allocated so the form can flag the oversubscription
+    expect(round.unallocatedAmount).toBe(-200_000)
+    expect(lead.shares + angel.shares).toBe(round.newSharesIssued)
+  })
+
+  it("gives the fill-remaining investor what the fixed amounts leave", () => {
+    const round = roundById(run([syndicateRound([investor("Lead", 0, true), investor("Angel", 300_000)])]), "a")
+
+    expect(round.investorAllocations).toEqual([
+      { name: "Angel", amount: 300_000, shares: 750_000 },
+      { name: "Lead", amount: 700_000, shares: 1_750_000 },
+    ])
+    expect(round.unallocatedAmount).toBe(0)
+  })
+
+  it("drops investors left with nothing", () => {
+    const round = roundById(
+      run([syndicateRound([investor("Lead", 0, true), investor("Angel", 1_000_000), investor("Friend", 0)])]),
+      "a",
+    )
+
+    expect(round.investorAllocations.map((allocation) => allocation.name)).toEqual(["Angel"])
+    expect(sharesOf(round.capTable, "Lead")).toBe(0)
+    expect(sharesOf(round.capTable, "Friend")).toBe(0)
+  })
+
+  it("issues shares only for the amount actually allocated", () => {
+    const round = roundById(run([syndicateRound([investor("Angel", 600_000)])]), "a")
+
+    expect(round.unallocatedAmount).toBe(400_000)
+    expect(round.newSharesIssued).toBe(1_500_000)
+  })
+
+  it("migrates the single investor of rounds saved before syndicates", () => {
+    const { investors, ...legacyRound } = syndicateRound([])
+    const round = roundById(run([{ ...legacyRound, newInvestorName: "Legacy Fund" } as FundingRound]), "a")
+
+    expect(investors).toEqual([])
+    expect(round.investors).toEqual([{ id: "a-lead", name: "Legacy Fund", amount: 0, fillRemaining: true }])
+    expect(sharesOf(round.capTable, "Legacy Fund")).toBe(2_500_000)
+  })
+})
+
+describe("anti-dilution", () => {
+  // Seed buys at $0.40; the Series A down round prices at $0.16 before any adjustment
+  const downRound = (antiDilution: FundingRound["antiDilution"], seriesAValuation = 2_000_000) =>
+    run([
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000, antiDilution }),
+      fundingRound({ id: "a", order: 2, manualValuation: seriesAValuation, investmentAmount: 1_000_000 }),
+    ])
+
+  it("reprices a full ratchet class to the new round's price", () => {
+    const events = downRound("full-ratchet")
+    const [adjustment] = roundById(events, "a").antiDilutionAdjustments
+
+    // $2M over 12.5M + 7.5M shares is $0.10, at which the seed's $1M converts into 10M shares
+    expect(adjustment.shareClass).toBe("seed Preferred")
+    expect(adjustment.adjustedConversionPrice).toBeCloseTo(0.1, 6)
+    expect(adjustment.additionalShares).toBe(7_500_000)
+    expect(sharesOf(events[1].capTable, "seed Investor")).toBe(10_000_000)
+  })
+
+  it("reprices on a broad-based weighted average", () => {
+    const [adjustment] = roundById(downRound("broad-based"), "a").antiDilutionAdjustments
+
+    // The round prices at $2M / (12.5M + 681,818) = $0.1517,
+    // so CP2 = 0.40 * (12.5M + 2.5M) / (12.5M + $1M / $0.1517)
+    expect(adjustment.adjustedConversionPrice).toBeCloseTo(11 / 35, 6)
+    expect(adjustment.additionalShares).toBe(681_818)
+  })
+
+  it("reprices on a narrow-based weighted average", () => {
+    const [adjustment] = roundById(downRound("narrow-based"), "a").antiDilutionAdjustments
+
+    // The round prices at $2M / (12.5M + 2.5M) = $0.1333, so CP2 = 0.40 * (2.5M + 2.5M) / (2.5M + 7.5M)
+    expect(adjustment.adjustedConversionPrice).toBeCloseTo(0.2, 6)
+    expect(adjustment.additionalShares).toBe(2_500_000)
+  })
+
+  it("counts the extra shares in the pre-money, so the round still sells its stake", () => {
+    const events = downRound("full-ratchet")
+
+    expect(events[1].newSharesIssued).toBe(10_000_000 + 7_500_000)
+    expect(roundById(events, "a").pricePerShare).toBeCloseTo(0.1, 6)
+    expect(percentageOf(events[1].capTable, "a Investor")).toBeCloseTo(100 / 3, 4)
+  })
+
+  it("reprices a class pushed below its price by another class's extra shares", () => {
+    // Series A buys at $0.45; Series B prices at $0.405 before any adjustment, above the seed's $0.40
+    const events = run([
+      fundingRound({
+        id: "seed",
+        order: 1,
+        manualValuation: 4_000_000,
+        investmentAmount: 1_000_000,
+        antiDilution: "full-ratchet",
+      }),
+      fundingRound({
+        id: "a",
+        order: 2,
+        manualValuation: 5_625_000,
+        investmentAmount: 1_000_000,
+        antiDilution: "full-ratchet",
+      }),
+      fundingRound({ id: "b", order: 3, manualValuation: 5_962_500, investmentAmount: 1_000_000 }),
+    ])
+    const seriesB = roundById(events, "b")
+
+    expect(seriesB.antiDilutionAdjustments.map((adjustment) => adjustment.shareClass)).toEqual([
+      "seed Preferred",
+      "a Preferred",
+    ])
+    seriesB.antiDilutionAdjustments.forEach((adjustment) =>
+      expect(adjustment.adjustedConversionPrice).toBeCloseTo(seriesB.pricePerShare, 4),
+    )
+    expect(seriesB.pricePerShare).toBeLessThan(0.4)
+  })
+
+  it("does nothing on an up round or without protection", () => {
+    expect(roundById(downRound("full-ratchet", 20_000_000), "a").antiDilutionAdjustments).toEqual([])
+    expect(roundById(downRound("none"), "a").antiDilutionAdjustments).toEqual([])
+  })
+})
+
+describe("secondary sales", () => {
+  const HOLDERS = [holder("Founders", 8_000_000), holder("Angel", 2_000_000, "angel")]
+  const seller = (holderName: string, quantity: number, quantityType: "shares" | "percentage" = "shares") => ({
+    id: holderName,
+    holderName,
+    quantityType,
+    quantity,
+  })
+
+  it("moves shares from the seller to the buyer without changing the total", () => {
+    const events = run(
+      [secondarySale({ id: "sale", order: 1, buyerName: "Fund", sellers: [seller("Founders", 1_000_000)] })],
+      HOLDERS,
+    )
+    const sale = saleById(events, "sale")
+
+    expect(sale.totalSharesAfter).toBe(10_000_000)
+    expect(sale.newSharesIssued).toBe(0)
+    expect(sharesOf(sale.capTable, "Founders")).toBe(7_000_000)
+    expect(sharesOf(sale.capTable, "Fund")).toBe(1_000_000)
+    expect(percentageOf(sale.capTable, "Fund")).toBeCloseTo(10)
+    expect(sale.sales).toEqual([{ holderName: "Founders", shares: 1_000_000, proceeds: 1_000_000 }])
+  })
+
+  it("sells a percentage of the seller's holding", () => {
+    const events = run(
+      [secondarySale({ id: "sale", order: 1, buyerName: "Fund", sellers: [seller("Angel", 25, "percentage")] })],
+      HOLDERS,
+    )
+
+    expect(sharesOf(saleById(events, "sale").capTable, "Fund")).toBe(500_000)
+  })
+
+  it("sells no more than the seller holds and drops the emptied row", () => {
+    const events = run(
+      [secondarySale({ id: "sale", order: 1, buyerName: "Fund", sellers: [seller("Angel", 5_000_000)] })],
+      HOLDERS,
+    )
+    const sale = saleById(events, "sale")
+
+    expect(sale.sales[0].shares).toBe(2_000_000)
+    expect(sale.capTable.some((shareholder) => shareholder.name === "Angel")).toBe(false)
+    expect(sharesOf(sale.capTable, "Fund")).toBe(2_000_000)
+  })
+
+  it("adds to the buyer's existing row in the same class", () => {
+    const events = run(
+      [secondarySale({ id: "sale", order: 1, buyerName: "Angel", sellers: [seller("Founders", 1_000_000)] })],
+      HOLDERS,
+    )
+    const angelRows = saleById(events, "sale").capTable.filter((shareholder) => shareholder.name === "Angel")
+
+    expect(angelRows).toHaveLength(1)
+    expect(angelRows[0].shares).toBe(3_000_000)
+  })
+
+  it("carries preferred shares' investment over to the buyer", () => {
+    const events = run([
+      fundingRound({ id: "seed", order: 1, investmentAmount: 1_000_000, manualValuation: 4_000_000 }),
+      secondarySale({ id: "sale", order: 2, buyerName: "Fund", sellers: [seller("seed Investor", 50, "percentage")] }),
+    ])
+    const sale = saleById(events, "sale")
+    const fundRow = sale.capTable.find((shareholder) => shareholder.name === "Fund")!
+
+    expect(fundRow).toMatchObject({ shares: 1_250_000, shareClass: "seed Preferred", investment: 500_000 })
+    expect(sale.capTable.find((shareholder) => shareholder.name === "seed Investor")!.investment).toBe(500_000)
+  })
+})
+
+describe("share buybacks", () => {
+  const HOLDERS = [holder("Founders", 8_000_000), holder("Angel", 2_000_000, "angel")]
+
+  it("cancels the shares bought back and raises everyone else's percentage", () => {
+    const events = run(
+      [shareBuyback({ id: "buyback", order: 1, holderName: "Angel", quantity: 1_000_000, pricePerShare: 2 })],
+      HOLDERS,
+    )
+    const buyback = buybackById(events, "buyback")
+
+    expect(buyback.totalSharesAfter).toBe(9_000_000)
+    expect(buyback.sharesCancelled).toBe(1_000_000)
+    expect(buyback.cost).toBe(2_000_000)
+    expect(sharesOf(buyback.capTable, "Angel")).toBe(1_000_000)
+    expect(percentageOf(buyback.capTable, "Founders")).toBeCloseTo((8 / 9) * 100)
+  })
+
+  it("cancels the bought-back shares' part of the investment", () => {
+    const events = run([
+      fundingRound({ id: "seed", order: 1, investmentAmount: 1_000_000, manualValuation: 4_000_000 }),
+      shareBuyback({ id: "buyback", order: 2, holderName: "seed Investor", quantityType: "percentage", quantity: 40 }),
+    ])
+    const investorRow = buybackById(events, "buyback").capTable.find(
+      (shareholder) => shareholder.name === "seed Investor",
+    )!
+
+    expect(investorRow).toMatchObject({ shares: 1_500_000, investment: 600_000 })
+  })
+
+  it("buys back no more than the holder has", () => {
+    const events = run([shareBuyback({ id: "buyback", order: 1, holderName: "Angel", quantity: 5_000_000 })], HOLDERS)
+    const buyback = buybackById(events, "buyback")
+
+    expect(buyback.sharesCancelled).toBe(2_000_000)
+    expect(buyback.capTable.map((shareholder) => shareholder.name)).toEqual(["Founders"])
+  })
+})
+
+describe("stock splits", () => {
+  const seededEvents = (ratio: number) =>
+    run([
+      fundingRound({ id: "seed", order: 1, investmentAmount: 1_000_000, manualValuation: 4_000_000 }),
+      stockSplit({ id: "split", order: 2, ratio }),
+    ])
+
+  it("multiplies every holding and leaves percentages unchanged", () => {
+    const [seed, split] = seededEvents(2)
+
+    expect(split.totalSharesAfter).toBe(25_000_000)
+    expect(split.newSharesIssued).toBe(12_500_000)
+    split.capTable.forEach((shareholder) => {
+      const before = seed.capTable.find((row) => row.name === shareholder.name)!
+      expect(shareholder.shares).toBe(before.shares * 2)
+      expect(shareholder.percentage).toBeCloseTo(before.percentage)
+    })
+  })
+
+  it("consolidates without issuing shares", () => {
+    const [, split] = seededEvents(0.1)
+
+    expect(split.totalSharesAfter).toBe(1_250_000)
+    expect(split.newSharesIssued).toBe(0)
+    expect(sharesOf(split.capTable, "Founders")).toBe(1_000_000)
+  })
+})
+
+describe("warrants and exercises", () => {
+  const warrantRow = (capTable: Shareholder[]) => capTable.find((shareholder) => shareholder.warrantId === "warrant")
+  const issuedShares = (capTable: Shareholder[]) =>
+    capTable
+      .filter((shareholder) => shareholder.name === "warrant Holder" && !shareholder.warrantId)
+      .reduce((sum, shareholder) => sum + shareholder.shares, 0)
+  const coverWarrant = warrant({
+    id: "warrant",
+    order: 1,
+    coverage: 100_000,
+    strikePrice: 0.5,
+    expiryDate: "2030-12-31",
+  })
+
+  it("issues percentage coverage of the post-issue total in its own row", () => {
+    const events = run([warrant({ id: "warrant", order: 1, coverageType: "percentage", coverage: 10 })])
+    const issued = warrantById(events, "warrant")
+
+    expect(issued.warrantShares).toBe(1_111_111)
+    expect(issued.totalSharesAfter).toBe(11_111_111)
+    expect(warrantRow(issued.capTable)?.percentage).toBeCloseTo(10, 4)
+  })
+
+  it("exercises part of a warrant and leaves the rest exercisable", () => {
+    const events = run([
+      coverWarrant,
+      exercise({ id: "first", order: 2, instrumentId: "warrant", quantity: 40_000 }),
+      exercise({ id: "second", order: 3, instrumentId: "warrant" }),
+    ])
+    const first = exerciseById(events, "first")
+    const second = exerciseById(events, "second")
+
+    expect(first).toMatchObject({ exercisableShares: 100_000, sharesExercised: 40_000, cashReceived: 20_000 })
+    expect(first.totalSharesAfter).toBe(10_100_000)
+    expect(warrantRow(first.capTable)?.shares).toBe(60_000)
+    expect(issuedShares(first.capTable)).toBe(40_000)
+    expect(second).toMatchObject({ exercisableShares: 60_000, sharesExercised: 60_000 })
+    expect(warrantRow(second.capTable)).toBeUndefined()
+    expect(issuedShares(second.capTable)).toBe(100_000)
+  })
+
+  it("exercises no more than is outstanding", () => {
+    const events = run([
+      coverWarrant,
+      exercise({ id: "exercise", order: 2, instrumentId: "warrant", quantity: 150_000 }),
+    ])
+
+    expect(exerciseById(events, "exercise").sharesExercised).toBe(100_000)
+    expect(warrantRow(events[1].capTable)).toBeUndefined()
+  })
+
+  it("exercises the post-split share count at the strike restated for the split", () => {
+    const events = run([
+      coverWarrant,
+      exercise({ id: "first", order: 2, instrumentId: "warrant", quantity: 20_000 }),
+      stockSplit({ id: "split", order: 3, ratio: 2 }),
+      exercise({ id: "second", order: 4, instrumentId: "warrant" }),
+    ])
+    const second = exerciseById(events, "second")
+
+    expect(second).toMatchObject({ exercisableShares: 160_000, sharesExercised: 160_000, cashReceived: 40_000 })
+    expect(issuedShares(second.capTable)).toBe(200_000)
+  })
+
+  it("can't exercise an expired warrant", () => {
+    const events = run([
+      { ...coverWarrant, expiryDate: "2024-12-31" },
+      exercise({ id: "exercise", order: 2, instrumentId: "warrant", exerciseDate: "2025-01-01" }),
+    ])
+    const expired = exerciseById(events, "exercise")
+
+    expect(expired).toMatchObject({ exercisableShares: 0, sharesExercised: 0 })
+    expect(warrantRow(expired.capTable)?.shares).toBe(100_000)
+  })
+
+  it("exercises vested options into common shares held by the grantee", () => {
+    const events = run([
+      optionPool({ id: "pool", order: 1, name: "ESOP" }),
+      optionGrant({ id: "grant", order: 2, options: 10_000, strikePrice: 0.1 }),
+      exercise({ id: "exercise", order: 3, instrumentId: "grant" }),
+    ])
+    const exercised = exerciseById(events, "exercise")
+    const commonRow = exercised.capTable.find(
+      (shareholder) => shareholder.name === "grant Employee" && !shareholder.grantedFromPool,
+    )
+
+    expect(exercised).toMatchObject({ holderName: "grant Employee", sharesExercised: 10_000, cashReceived: 1_000 })
+    expect(commonRow).toMatchObject({ shares: 10_000, role: "employee" })
+  })
+})
+
+describe("getCapTableOnBasis", () => {
+  const events = run([
+    optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 20 }),
+    optionGrant({ id: "grant", order: 2, options: 500_000 }),
+    warrant({ id: "warrant", order: 3, coverage: 1_000_000 }),
+    fundingRound({ id: "a", order: 4, investmentAmount: 1_000_000, manualValuation: 9_000_000 }),
+  ])
+  const fullyDiluted = events[3].capTable
+
+  it("leaves out the pool, unexercised options and warrants and renormalises to 100%", () => {
+    const issued = getCapTableOnBasis(fullyDiluted, "issued")
+    const total = issued.reduce((sum, shareholder) => sum + shareholder.percentage, 0)
+
+    expect(issued.map((shareholder) => shareholder.name)).toEqual(["Founders", "a Investor"])
+    expect(total).toBeCloseTo(100)
+    expect(percentageOf(issued, "Founders")).toBeCloseTo(
+      (10_000_000 / (10_000_000 + sharesOf(fullyDiluted, "a Investor"))) * 100,
+    )
+  })
+
+  it("returns the fully-diluted cap table as computed", () => {
+    expect(getCapTableOnBasis(fullyDiluted, "fully-diluted")).toBe(fullyDiluted)
+  })
+})
+
+describe("reference valuation solver", () => {
+  const referencing = (id: string, order: number, referenceRoundId: string) =>
+    fundingRound({
+      id,
+      order,
+      name: id.toUpperCase(),
+      valuationType: "post-money",
+      valuationSource: "reference",
+      referenceRoundId,
+      referenceAdjustment: "premium",
+      discountPercentage: 100,
+      investmentAmount: 1_000_000,
+    })
+
+  it("resolves a reference to a later round", () => {
+    const events = run([
+      referencing("a", 1, "b"),
+      fundingRound({
+        id: "b",
+        order: 2,
+        valuationType: "post-money",
+        manualValuation: 10_000_000,
+        investmentAmount: 1,
+      }),
+    ])
+
+    expect(roundById(events, "a").calculatedValuation).toBe(20_000_000)
+    expect(roundById(events, "a").valuationError).toBe("")
+  })
+
+  it("resolves chains regardless of event order", () => {
+    const events = run([
+      referencing("a", 1, "b"),
+      referencing("b", 2, "c"),
+      fundingRound({ id: "c", order: 3, valuationType: "post-money", manualValuation: 5_000_000, investmentAmount: 1 }),
+    ])
+
+    expect(roundById(events, "b").calculatedValuation).toBe(10_000_000)
+    expect(roundById(events, "a").calculatedValuation).toBe(20_000_000)
+  })
+
+  it("reports every round on a cycle and leaves the others resolved", () => {
+    const events = run([
+      referencing("a", 1, "b"),
+      referencing("b", 2, "a"),
+      fundingRound({ id: "c", order: 3, manualValuation: 5_000_000, investmentAmount: 1_000_000 }),
+    ])
+
+    expect(roundById(events, "a").valuationError).toMatch(/^Circular reference: /)
+    expect(roundById(events, "b").valuationError).toMatch(/^Circular reference: /)
+    expect(roundById(events, "a").valuationError).toContain("A → B")
+    expect(events[0].newSharesIssued).toBe(0)
+    expect(roundById(events, "c").valuationError).toBe("")
+    expect(events[2].newSharesIssued).toBeGreaterThan(0)
+  })
+
+  it("reports a round referencing itself", () => {
+    const events = run([referencing("a", 1, "a")])
+
+    expect(roundById(events, "a").valuationError).toBe("Circular reference: A → A")
+  })
+
+  it("reports a reference to a round with no valuation", () => {
+    const events = run([referencing("a", 1, "b"), fundingRound({ id: "b", order: 2, name: "B" })])
+
+    expect(roundById(events, "a").valuationError).toBe("References B which has no valuation")
+  })
+})
+
+describe("formula inputs", () => {
+  const variables = [{ id: "arr", name: "ARR", value: 1_000_000 }]
+  const runWithVariables = (events: Event[]) => recalculateAllEvents(events, FOUNDERS, EXCHANGE_RATES, variables)
+
+  it("values a round from model variables", () => {
+    const events = runWithVariables([
+      fundingRound({
+        id: "a",
+        order: 1,
+        name: "Series A",
+        valuationSource: "formula",
+        valuationFormula: "ARR * 12",
+        investmentSource: "formula",
+        investmentFormula: "ARR * 3",
+      }),
+    ])
+    const round = roundById(events, "a")
+
+    expect(round.calculatedValuation).toBe(12_000_000)
+    expect(round.investmentAmount).toBe(3_000_000)
+    expect(percentageOf(round.capTable, "Series A Investor")).toBeCloseTo(20, 4)
+  })
+
+  it("reads other rounds' values in the round's own currency", () => {
+    const events = runWithVariables([
+      fundingRound({ id: "seed", order: 1, name: "Seed", manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({
+        id: "a",
+        order: 2,
+        currency: "EUR",
+        valuationSource: "formula",
+        valuationFormula: "Seed.post * 2 + Seed.investment",
+        investmentAmount: 1_000_000,
+      }),
+    ])
+
+    expect(roundById(events, "a").calculatedValuation).toBeCloseTo(11_000_000 * 0.92)
+  })
+
+  it("reports formula errors instead of valuing the round at 0 silently", () => {
+    const events = runWithVariables([
+      fundingRound({ id: "a", order: 1, valuationSource: "formula", valuationFormula: "Missing * 2" }),
+      fundingRound({ id: "b", order: 2, valuationSource: "formula", valuationFormula: "ARR - ARR" }),
+      fundingRound({ id: "c", order: 3, investmentSource: "formula", investmentFormula: "Nowhere.post" }),
+    ])
+
+    expect(roundById(events, "a").valuationError).toBe('Unknown variable "Missing"')
+    expect(roundById(events, "b").valuationError).toBe("Formula gives no positive valuation")
+    expect(roundById(events, "c").investmentError).toBe('Unknown round "Nowhere"')
+  })
+
+  it("lists the round properties when a round is used as a variable", () => {
+    const events = runWithVariables([
+      fundingRound({ id: "seed", order: 1, name: "Seed", manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({ id: "a", order: 2, valuationSource: "formula", valuationFormula: "Seed * 2" }),
+    ])
+
+    expect(roundById(events, "a").valuationError).toBe("Use Seed.pre, Seed.post, Seed.investment or Seed.valuation")
+  })
+
+  it("reports cycles through formulas", () => {
+    const events = runWithVariables([
+      fundingRound({ id: "a", order: 1, name: "A", valuationSource: "formula", valuationFormula: "B.post" }),
+      fundingRound({ id: "b", order: 2, name: "B", valuationSource: "formula", valuationFormula: "A.pre * 2" }),
+    ])
+
+    expect(roundById(events, "a").valuationError).toMatch(/^Circular reference: /)
+    expect(roundById(events, "b").valuationError).toMatch(/^Circular reference: /)
+  })
+
+  it("rejects rounds that go by the same name in formulas", () => {
+    const events = runWithVariables([
+      fundingRound({ id: "a1", order: 1, name: "Series A", manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({ id: "a2", order: 2, name: "Series-A", manualValuation: 8_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({
+        id: "b",
+        order: 3,
+        name: "Series B",
+        valuationSource: "formula",
+        valuationFormula: "SeriesA.post",
+      }),
+    ])
+
+    expect(roundById(events, "b").valuationError).toBe('"SeriesA" could be Series A or Series-A; rename one')
+    expect(getRoundNameError(roundById(events, "a1"), events)).toBe(
+      "Series-A is also SeriesA in formulas, so neither can be referenced",
+    )
+    expect(getRoundNameError(roundById(events, "b"), events)).toBe("")
+  })
+
+  it("points formulas at a renamed round", () => {
+    const events = [
+      fundingRound({ id: "a", order: 1, name: "Series A", manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({
+        id: "b",
+        order: 2,
+        name: "Series B",
+        valuationSource: "formula",
+        valuationFormula: "max(SeriesA.post * 2, SeriesAB.post)",
+        investmentSource: "formula",
+        investmentFormula: "SeriesA .investment",
+      }),
+    ]
+
+    const renamed = runWithVariables(renameRound(events, "a", "Seed 2"))
+
+    expect(roundById(renamed, "a").name).toBe("Seed 2")
+    expect(roundById(renamed, "b").valuationFormula).toBe("max(Seed2.post * 2, SeriesAB.post)")
+    expect(roundById(renamed, "b").investmentFormula).toBe("Seed2 .investment")
+  })
+
+  it("leaves formulas to report the broken reference when the new name is taken", () => {
+    const events = [
+      fundingRound({ id: "a", order: 1, name: "Series A", manualValuation: 4_000_000, investmentAmount: 1_000_000 }),
+      fundingRound({
+        id: "b",
+        order: 2,
+        name: "Series B",
+        valuationSource: "formula",
+        valuationFormula: "SeriesA.post",
+      }),
+    ]
+
+    const renamed = runWithVariables(renameRound(events, "a", "Series B"))
+
+    expect(roundById(renamed, "b").valuationFormula).toBe("SeriesA.post")
+    expect(roundById(renamed, "b").valuationError).toBe('Unknown round "SeriesA"')
+  })
+})
+
+describe("small holdings", () => {
+  const seriesA = fundingRound({ id: "a", order: 3, manualValuation: 40_000_000, investmentAmount: 10_000_000 })
+  const totalOf = (capTable: Shareholder[]) => capTable.reduce((sum, shareholder) => sum + shareholder.shares, 0)
+
+  it("keeps a small option grant through later rounds so it can still be exercised", () => {
+    const events = run([
+      optionPool({ id: "pool", order: 1 }),
+      optionGrant({ id: "grant", order: 2, options: 500 }),
+      seriesA,
+      exercise({ id: "exercise", order: 4, instrumentId: "grant" }),
+    ])
+    const round = roundById(events, "a")
+    const exercised = exerciseById(events, "exercise")
+
+    expect(round.capTable.find((shareholder) => shareholder.grantedFromPool)?.shares).toBe(500)
+    expect(totalOf(round.capTable)).toBe(round.totalSharesAfter)
+    expect(exercised.exercisableShares).toBe(500)
+    expect(sharesOf(exercised.capTable, "grant Employee")).toBe(500)
+  })
+
+  it("keeps a small warrant through later rounds", () => {
+    const events = run([warrant({ id: "warrant", order: 1, coverage: 500 }), { ...seriesA, order: 2 }])
+    const round = roundById(events, "a")
+
+    expect(round.capTable.find((shareholder) => shareholder.warrantId === "warrant")?.shares).toBe(500)
+    expect(totalOf(round.capTable)).toBe(round.totalSharesAfter)
+  })
+})
+
+describe("rounds without shares outstanding", () => {
+  it("leaves the cap table unchanged instead of dividing by zero", () => {
+    const events = run(
+      [
+        fundingRound({
+          id: "a",
+          order: 1,
+          manualValuation: 4_000_000,
+          investmentAmount: 1_000_000,
+          antiDilution: "full-ratchet",
+        }),
+        fundingRound({ id: "b", order: 2, manualValuation: 1_000_000, investmentAmount: 1_000_000 }),
+      ],
+      [holder("Founders", 0)],
+    )
+    const round = roundById(events, "a")
+
+    expect(round.newSharesIssued).toBe(0)
+    expect(round.pricePerShare).toBe(0)
+    expect(round.pricePerShareBeforeConversions).toBe(0)
+    expect(round.capTable.every((shareholder) => Number.isFinite(shareholder.percentage))).toBe(true)
+    expect(roundById(events, "b").antiDilutionAdjustments).toEqual([])
+  })
+})
@@ -0,0 +1,2114 @@
+// Pure dilution engine: turns a model (initial ownership + ordered events) into
+// per-event cap tables. No React dependency so it can be reused and tested.
+
+import {
+  type FormulaValue,
+  evaluateFormula,
+  getFormulaReferences,
+  isValidFormulaName,
+  parseFormula,
+  renameFormulaReferences,
+} from "@/lib/formula"
+
+export type Currency = "GBP" | "USD" | "EUR"
+
+export type HolderRole = "founder" | "employee" | "angel" | "advisor"
+
+// Roles counted as part of the team rather than as outside investors
+export const TEAM_ROLES: HolderRole[] = ["founder", "employee", "advisor"]
+
+export interface InitialHolder {
+  id: string
+  name: string
+  shares: number
+  role: HolderRole
+}
+
+export interface Shareholder {
+  name: string
+  shares: number
+  percentage: number
+  // Role of an initial holder, carried through every later cap table
+  role?: HolderRole
+  // Unallocated options held in an option pool
+  optionPool?: boolean
+  // Option pool the row's options were granted from; plain shares when absent
+  grantedFromPool?: string
+  // Warrant event the row's unexercised warrant shares were issued in; issued shares when absent
+  warrantId?: string
+  // Preferred share class the shares were issued in; common when absent
+  shareClass?: string
+  // Amount paid for the shares, in the issuing round's currency (drives the liquidation preference)
+  investment?: number
+}
+
+export interface ProRataParticipant {
+  id: string
+  holderName: string
+  // Take up the full pro-rata allocation instead of the explicit amount
+  exerciseProRata: boolean
+  // Amount invested, in the round's currency (used when not exercising in full)
+  amount: number
+}
+
+export type AntiDilutionType = "none" | "full-ratchet" | "broad-based" | "narrow-based"
+
+export interface AntiDilutionAdjustment {
+  shareClass: string
+  type: AntiDilutionType
+  currency: Currency
+  // Conversion prices in the protected class's currency
+  previousConversionPrice: number
+  adjustedConversionPrice: number
+  additionalShares: number
+}
+
+// A preferred class with anti-dilution protection and its current conversion price
+export interface ProtectedClass {
+  shareClass: string
+  type: AntiDilutionType
+  currency: Currency
+  conversionPrice: number
+}
+
+export interface RoundInvestor {
+  id: string
+  name: string
+  // Amount invested, in the round's currency (ignored when filling the remainder)
+  amount: number
+  // Takes whatever the other investors and pro-rata participants leave of the round
+  fillRemaining: boolean
+}
+
+export interface InvestorAllocation {
+  name: string
+  // Amount invested, in the round's currency
+  amount: number
+  shares: number
+}
+
+export interface ProRataAllocation {
+  holderName: string
+  // Amount invested, in the round's currency
+  amount: number
+  shares: number
+}
+
+export type DistributionType = "uniform" | "triangular" | "lognormal"
+
+// Range of values a round input may take, sampled by the Monte Carlo simulation
+export interface InputDistribution {
+  type: DistributionType
+  // Minimum and maximum for uniform and triangular; 10th and 90th percentile for lognormal
+  low: number
+  high: number
+  // Most likely value, used by triangular only
+  mode: number
+}
+
+export interface FundingRound {
+  id: string
+  type: "funding"
+  name: string
+  currency: Currency
+  investmentAmount: number
+  // A formula investment amount is evaluated into investmentAmount
+  investmentSource: "manual" | "formula"
+  investmentFormula: string
+  // Why the investment formula couldn't be evaluated ("" when it was)
+  investmentError: string
+  valuationType: "pre-money" | "post-money"
+  valuationSource: "manual" | "reference" | "formula"
+  manualValuation: number
+  // Used when valuationSource is "formula", e.g. "SeriesA.post * 0.8" or "ARR * 12"
+  valuationFormula: string
+  referenceRoundId: string
+  // Whether the reference valuation is marked down or up, by discountPercentage
+  referenceAdjustment: "discount" | "premium"
+  discountPercentage: number
+  calculatedValuation: number
+  // Why a reference valuation couldn't be resolved ("" when it was)
+  valuationError: string
+  preMoneyValuation: number
+  postMoneyValuation: number
+  // Syndicate investing in the round; at most one fills the remainder
+  investors: RoundInvestor[]
+  // Single investor of rounds saved before syndicates, migrated into investors
+  newInvestorName?: string
+  // Close date (yyyy-mm-dd), used to accrue interest on converting notes
+  date: string
+  // Preferred share class issued in this round; defaults to "<round name> Preferred"
+  shareClassName: string
+  liquidationPreferenceMultiple: number
+  participating: boolean
+  // Total return cap for participating preferred, as a multiple of the investment (0 = uncapped)
+  participationCap: number
+  // Higher seniority is paid first at exit, equal seniority ranks pari passu
+  seniority: number
+  // Option pool the round requires in place post-money, created in the pre-money (0 = none)
+  targetPoolPercentage: number
+  // Existing shareholders taking part of the round alongside the new investor
+  proRataParticipants: ProRataParticipant[]
+  // Protection this round's class gets against later down rounds
+  antiDilution: AntiDilutionType
+  // Pool row the top-up lands in: the latest option pool event, or "<round name> Option Pool"
+  poolTopUpName: string
+  poolTopUpShares: number
+  // Headline pre-money less the value of the pre-money pool top-up
+  effectivePreMoneyValuation: number
+  // Uncertain inputs for the Monte Carlo simulation (null = always the value above)
+  valuationDistribution: InputDistribution | null
+  investmentDistribution: InputDistribution | null
+  poolDistribution: InputDistribution | null
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Price paid by the new investor, after converting instruments are included in the pre-money share count
+  pricePerShare: number
+  // Price the new investor would have paid had nothing converted in this round
+  pricePerShareBeforeConversions: number
+  conversions: ConversionResult[]
+  // Part of the round taken up by existing shareholders
+  proRataAllocations: ProRataAllocation[]
+  investorAllocations: InvestorAllocation[]
+  // Round amount not covered by investors and pro-rata (negative when over-allocated)
+  unallocatedAmount: number
+  // Extra shares issued to earlier protected classes when this is a down round
+  antiDilutionAdjustments: AntiDilutionAdjustment[]
+}
+
+export interface OptionPool {
+  id: string
+  type: "option-pool"
+  name: string
+  percentage: number
+  // "new" adds a fresh pool row; "top-up" refreshes an existing pool to the target percentage
+  mode: "new" | "top-up"
+  // Pool to top up; defaults to the most recent pool
+  topUpPoolName: string
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Cap table row the pool shares landed in
+  poolRowName: string
+}
+
+export interface Safe {
+  id: string
+  type: "safe"
+  name: string
+  currency: Currency
+  investmentAmount: number
+  safeType: "pre-money" | "post-money"
+  valuationCap: number
+  discountPercentage: number
+  mfn: boolean
+  investorName: string
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Filled in once a later funding round converts the SAFE
+  convertedInRoundId: string
+  conversionPrice: number
+  conversionShares: number
+  conversionBasis: ConversionBasis | ""
+}
+
+export interface ConvertibleNote {
+  id: string
+  type: "convertible-note"
+  name: string
+  currency: Currency
+  principal: number
+  // Annual interest rate in percent
+  interestRate: number
+  interestType: "simple" | "compound"
+  issueDate: string
+  maturityDate: string
+  valuationCap: number
+  discountPercentage: number
+  investorName: string
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Interest accrued to the converting round, or projected to maturity while unconverted
+  accruedInterest: number
+  // Filled in once a later funding round converts the note
+  convertedInRoundId: string
+  conversionPrice: number
+  conversionShares: number
+  conversionBasis: ConversionBasis | ""
+}
+
+export interface OptionGrant {
+  id: string
+  type: "option-grant"
+  name: string
+  holderName: string
+  role: HolderRole
+  // Pool the options are drawn from; defaults to the most recent pool
+  poolName: string
+  options: number
+  currency: Currency
+  strikePrice: number
+  // Vesting starts on the grant date (yyyy-mm-dd)
+  grantDate: string
+  vestingMonths: number
+  cliffMonths: number
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Pool row the options were drawn from
+  poolRowName: string
+  // Unallocated options in the pool before this grant
+  availableOptions: number
+  // Options actually granted, limited to what the pool had available
+  grantedOptions: number
+}
+
+export interface SecondarySeller {
+  id: string
+  holderName: string
+  // Either a share count or a percentage of the seller's holding
+  quantityType: "shares" | "percentage"
+  quantity: number
+}
+
+export interface SecondaryProceeds {
+  holderName: string
+  shares: number
+  // Cash received, in the sale's currency
+  proceeds: number
+}
+
+export interface SecondarySale {
+  id: string
+  type: "secondary"
+  name: string
+  buyerName: string
+  currency: Currency
+  pricePerShare: number
+  sellers: SecondarySeller[]
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Shares actually sold, limited to each seller's holding
+  sales: SecondaryProceeds[]
+}
+
+export interface ShareBuyback {
+  id: string
+  type: "buyback"
+  name: string
+  holderName: string
+  // Either a share count or a percentage of the holder's holding
+  quantityType: "shares" | "percentage"
+  quantity: number
+  currency: Currency
+  pricePerShare: number
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Shares bought back and cancelled, limited to the holder's holding
+  sharesCancelled: number
+  // Paid by the company to the holder, in the buyback's currency
+  cost: number
+}
+
+export interface StockSplit {
+  id: string
+  type: "stock-split"
+  name: string
+  // New shares per old share: 2 for a 2-for-1 split, 0.1 for a 1-for-10 consolidation
+  ratio: number
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+}
+
+export interface Warrant {
+  id: string
+  type: "warrant"
+  name: string
+  holderName: string
+  // Either a fixed share count or a percentage of the fully-diluted shares after issue
+  coverageType: "shares" | "percentage"
+  coverage: number
+  currency: Currency
+  strikePrice: number
+  // Last date (yyyy-mm-dd) the warrant can be exercised; blank for no expiry
+  expiryDate: string
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Shares the warrant covers
+  warrantShares: number
+}
+
+export interface Exercise {
+  id: string
+  type: "exercise"
+  name: string
+  // Warrant or option grant being exercised
+  instrumentId: string
+  // Shares to exercise; 0 exercises everything exercisable
+  quantity: number
+  // Options must have vested and warrants must not have expired by this date (yyyy-mm-dd)
+  exerciseDate: string
+  capTable: Shareholder[]
+  order: number
+  totalSharesAfter: number
+  newSharesIssued: number
+  // Holder and strike currency of the exercised instrument
+  holderName: string
+  currency: Currency
+  // Vested or unexpired shares not exercised by earlier events
+  exercisableShares: number
+  sharesExercised: number
+  // Strike price paid to the company, in the instrument's currency
+  cashReceived: number
+}
+
+export type Event =
+  | FundingRound
+  | OptionPool
+  | Safe
+  | ConvertibleNote
+  | OptionGrant
+  | SecondarySale
+  | ShareBuyback
+  | StockSplit
+  | Warrant
+  | Exercise
+
+// Instruments that sit unconverted in the timeline until the next priced round
+export type ConvertibleInstrument = Safe | ConvertibleNote
+
+// Which price an instrument ended up converting at
+export type ConversionBasis = "cap" | "discount" | "round"
+
+export interface ConversionResult {
+  instrumentId: string
+  holderName: string
+  // Amount converted (principal plus interest), in the round's currency
+  amount: number
+  // Interest accrued on a note, in the note's currency (0 for SAFEs)
+  interest: number
+  shares: number
+  // Price per share, in the round's currency
+  conversionPrice: number
+  basis: ConversionBasis
+}
+
+export interface ExchangeRates {
+  "USD-GBP": number
+  "GBP-USD": number
+  "USD-EUR": number
+  "EUR-USD": number
+  "GBP-EUR": number
+  "EUR-GBP": number
+}
+
+export interface PrimaryExchangeRates {
+  "USD-GBP": number
+  "USD-EUR": number
+}
+
+// Named model-level input that formulas can refer to
+export interface ModelVariable {
+  id: string
+  name: string
+  value: number
+}
+
+export interface ModelData {
+  initialHolders: InitialHolder[]
+  events: Event[]
+  variables: ModelVariable[]
+}
+
+export interface ModelResult {
+  events: Event[]
+  capTable: Shareholder[]
+  totalShares: number
+}
+
+interface CapTableStep {
+  capTable: Shareholder[]
+  totalSharesAfter: number
+  newSharesIssued: number
+}
+
+interface OptionPoolStep extends CapTableStep {
+  poolRowName: string
+}
+
+interface OptionGrantStep extends CapTableStep {
+  poolRowName: string
+  availableOptions: number
+  grantedOptions: number
+}
+
+interface SecondarySaleStep extends CapTableStep {
+  sales: SecondaryProceeds[]
+}
+
+interface ShareBuybackStep extends CapTableStep {
+  sharesCancelled: number
+  cost: number
+}
+
+interface WarrantStep extends CapTableStep {
+  warrantShares: number
+}
+
+interface ExerciseStep extends CapTableStep {
+  holderName: string
+  currency: Currency
+  exercisableShares: number
+  sharesExercised: number
+  cashReceived: number
+}
+
+// A warrant or grant open for exercise. Splits after issue rescale the outstanding shares,
+// so both the split factor since issue and the shares exercised so far (on the current
+// share basis) are tracked.
+interface ExercisableInstrument {
+  instrument: Warrant | OptionGrant
+  splitFactor: number
+  exercised: number
+}
+
+interface FundingRoundStep extends CapTableStep {
+  conversions: ConversionResult[]
+  pricePerShare: number
+  pricePerShareBeforeConversions: number
+  poolTopUpName: string
+  poolTopUpShares: number
+  effectivePreMoneyValuation: number
+  proRataAllocations: ProRataAllocation[]
+  investorAllocations: InvestorAllocation[]
+  unallocatedAmount: number
+  antiDilutionAdjustments: AntiDilutionAdjustment[]
+}
+
+// Terms that configurations saved before they existed don't carry
+const FUNDING_ROUND_TERM_DEFAULTS = {
+  date: "",
+  shareClassName: "",
+  liquidationPreferenceMultiple: 1,
+  participating: false,
+  participationCap: 0,
+  seniority: 1,
+  targetPoolPercentage: 0,
+  proRataParticipants: [] as ProRataParticipant[],
+  investors: [] as RoundInvestor[],
+  antiDilution: "none" as AntiDilutionType,
+  referenceAdjustment: "discount" as const,
+  valuationFormula: "",
+  investmentSource: "manual" as const,
+  investmentFormula: "",
+  valuationDistribution: null as InputDistribution | null,
+  investmentDistribution: null as InputDistribution | null,
+  poolDistribution: null as InputDistribution | null,
+}
+
+const OPTION_POOL_DEFAULTS = {
+  mode: "new" as const,
+  topUpPoolName: "",
+}
+
+export const COMMON_SHARE_CLASS = "Common"
+
+// Cap tables are computed fully diluted; the issued basis leaves out anything not yet stock
+export type CapTableBasis = "issued" | "fully-diluted"
+
+// Investor leading the round: the one filling the remainder, otherwise the first listed
+export const getLeadInvestorName = (round: FundingRound): string => {
+  const lead = round.investors.find((investor) => investor.fillRemaining) || round.investors[0]
+  return lead ? lead.name : ""
+}
+
+export const getShareClassName = (round: FundingRound): string => round.shareClassName || `${round.name} Preferred`
+
+// Default exchange rates (primary rates)
+export const DEFAULT_PRIMARY_EXCHANGE_RATES: PrimaryExchangeRates = {
+  "USD-GBP": 0.79,
+  "USD-EUR": 0.92,
+}
+
+// Function to derive all exchange rates from primary ones
+export const deriveAllExchangeRates = (primaryRates: PrimaryExchangeRates): ExchangeRates => {
+  const usdGbp = primaryRates["USD-GBP"]
+  const usdEur = primaryRates["USD-EUR"]
+
+  const gbpUsd = usdGbp > 0 ? 1 / usdGbp : 0
+  const gbpEur = usdGbp > 0 ? usdEur / usdGbp : 0
+  const eurGbp = usdEur > 0 ? usdGbp / usdEur : 0
+  const eurUsd = usdEur > 0 ? 1 / usdEur : 0
+
+  return {
+    "USD-GBP": usdGbp,
+    "GBP-USD": Number(gbpUsd.toFixed(4)),
+    "USD-EUR": usdEur,
+    "EUR-USD": Number(eurUsd.toFixed(4)),
+    "GBP-EUR": Number(gbpEur.toFixed(4)),
+    "EUR-GBP": Number(eurGbp.toFixed(4)),
+  }
+}
+
+export const convertCurrency = (
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  exchangeRates: ExchangeRates,
+): number => {
+  if (fromCurrency === toCurrency) return amount
+  const rateKey = `${fromCurrency}-${toCurrency}` as keyof ExchangeRates
+  const rate = exchangeRates[rateKey]
+  return amount * (rate || 1)
+}
+
+export const getInitialShares = (holders: InitialHolder[]): number =>
+  holders.reduce((sum, holder) => sum + Math.max(0, holder.shares || 0), 0)
+
+export const getInitialCapTable = (holders: InitialHolder[]): Shareholder[] => {
+  const totalShares = getInitialShares(holders)
+  return holders.map((holder) => {
+    const shares = Math.max(0, holder.shares || 0)
+    return {
+      name: holder.name,
+      shares,
+      percentage: totalShares > 0 ? (shares / totalShares) * 100 : 0,
+      role: holder.role,
+    }
+  })
+}
+
+// Outstanding stock, as opposed to unallocated pool, granted options or unexercised warrants
+export const isIssuedShareholding = (shareholder: Shareholder): boolean =>
+  !shareholder.optionPool && !shareholder.grantedFromPool && !shareholder.warrantId
+
+export const getIssuedShares = (capTable: Shareholder[]): number =>
+  capTable.filter(isIssuedShareholding).reduce((sum, shareholder) => sum + shareholder.shares, 0)
+
+// Restates a cap table on the given basis, recalculating percentages against its own total
+export const getCapTableOnBasis = (capTable: Shareholder[], basis: CapTableBasis): Shareholder[] => {
+  if (basis === "fully-diluted") return capTable
+
+  const totalShares = getIssuedShares(capTable)
+  return capTable.filter(isIssuedShareholding).map((shareholder) => ({
+    ...shareholder,
+    percentage: totalShares > 0 ? (shareholder.shares / totalShares) * 100 : 0,
+  }))
+}
+
+export interface ValuationResult {
+  valuation: number
+  error: string
+}
+
+// Round values formulas can read as `<round>.<property>`, in the round's own currency
+export const ROUND_FORMULA_PROPERTIES = ["pre", "post", "investment", "valuation"]
+
+// Name a round goes by in formulas: its name without spaces or punctuation ("Series A" is SeriesA)
+export const getRoundFormulaName = (round: FundingRound): string => round.name.replace(/[^A-Za-z0-9_]/g, "")
+
+const getRoundsNamed = (formulaName: string, allEvents: Event[]): FundingRound[] =>
+  allEvents.filter((e): e is FundingRound => e.type === "funding" && getRoundFormulaName(e) === formulaName)
+
+// Why formulas can't reference a round ("" when they can): another round goes by the same name
+export const getRoundNameError = (round: FundingRound, allEvents: Event[]): string => {
+  const name = getRoundFormulaName(round)
+  const other = getRoundsNamed(name, allEvents).find((r) => r.id !== round.id)
+  return name && other ? `${other.name} is also ${name} in formulas, so neither can be referenced` : ""
+}
+
+// Renames a round and points the formulas that reference it at the new name. Formulas are only
+// rewritten when the old and new names each belong to this round alone; otherwise they keep
+// their text and report the unknown or ambiguous round.
+export const renameRound = (events: Event[], roundId: string, name: string): Event[] => {
+  const round = events.find((e): e is FundingRound => e.id === roundId && e.type === "funding")
+  if (!round) return events
+
+  const oldName = getRoundFormulaName(round)
+  const newName = getRoundFormulaName({ ...round, name })
+  const isOwnName = (formulaName: string) =>
+    isValidFormulaName(formulaName) && getRoundsNamed(formulaName, events).every((r) => r.id === roundId)
+  const rewrite = oldName !== newName && isOwnName(oldName) && isOwnName(newName)
+
+  return events.map((event) => {
+    if (event.type !== "funding") return event
+
+    const renamed = event.id === roundId ? { ...event, name } : event
+    if (!rewrite) return renamed
+    return {
+      ...renamed,
+      valuationFormula: renameFormulaReferences(renamed.valuationFormula || "", oldName, newName),
+      investmentFormula: renameFormulaReferences(renamed.investmentFormula || "", oldName, newName),
+    }
+  })
+}
+
+// Why a variable can't be used in formulas ("" when it can)
+export const getVariableError = (variable: ModelVariable, variables: ModelVariable[]): string => {
+  if (!isValidFormulaName(variable.name)) return "Use letters, digits and underscores, starting with a letter"
+  if (variables.some((v) => v.id !== variable.id && v.name === variable.name)) {
+    return `${variable.name} is already defined`
+  }
+  return ""
+}
+
+// Evaluates a formula for a round against the model variables and other rounds' values, which
+// are converted into the round's currency. Referenced rounds must already be resolved.
+const evaluateRoundFormula = (
+  formula: string,
+  round: FundingRound,
+  allEvents: Event[],
+  variables: ModelVariable[],
+  exchangeRates: ExchangeRates,
+): FormulaValue => {
+  const { node, error } = parseFormula(formula)
+  if (!node) return { value: 0, error }
+
+  const rounds = allEvents.filter((e): e is FundingRound => e.type === "funding")
+
+  return evaluateFormula(node, ({ name, property }) => {
+    const [referencedRound, ...sameNamed] = rounds.filter((r) => getRoundFormulaName(r) === name)
+
+    if (!property) {
+      const variable = variables.find((v) => v.name === name)
+      if (variable) return { value: variable.value || 0, error: "" }
+      if (!referencedRound) return { value: 0, error: `Unknown variable "${name}"` }
+
+      const options = ROUND_FORMULA_PROPERTIES.map((p) => `${name}.${p}`)
+      return { value: 0, error: `Use ${options.slice(0, -1).join(", ")} or ${options[options.length - 1]}` }
+    }
+
+    if (!referencedRound) return { value: 0, error: `Unknown round "${name}"` }
+    if (sameNamed.length > 0) {
+      return { value: 0, error: `"${name}" could be ${referencedRound.name} or ${sameNamed[0].name}; rename one` }
+    }
+    if (!ROUND_FORMULA_PROPERTIES.includes(property)) {
+      return { value: 0, error: `Unknown property "${name}.${property}"` }
+    }
+    if (property === "investment" && referencedRound.investmentError) {
+      return { value: 0, error: `References ${referencedRound.name} which has no investment amount` }
+    }
+    if (property !== "investment" && referencedRound.valuationError) {
+      return { value: 0, error: `References ${referencedRound.name} which has no valuation` }
+    }
+
+    const value =
+      property === "pre"
+        ? referencedRound.preMoneyValuation
+        : property === "post"
+          ? referencedRound.postMoneyValuation
+          : property === "investment"
+            ? referencedRound.investmentAmount
+            : referencedRound.calculatedValuation
+    return { value: convertCurrency(value, referencedRound.currency, round.currency, exchangeRates), error: "" }
+  })
+}
+
+// Valuation of a single round. Referenced rounds must already carry their own valuations,
+// so the solver in recalculateAllEvents calls this in dependency order.
+export const calculateValuation = (
+  round: FundingRound,
+  allEvents: Event[],
+  exchangeRates: ExchangeRates,
+  variables: ModelVariable[] = [],
+): ValuationResult => {
+  if (round.valuationSource === "manual") {
+    return { valuation: round.manualValuation, error: "" }
+  }
+
+  if (round.valuationSource === "formula") {
+    const { value, error } = evaluateRoundFormula(round.valuationFormula, round, allEvents, variables, exchangeRates)
+    if (error) return { valuation: 0, error }
+    return value > 0 ? { valuation: value, error: "" } : { valuation: 0, error: "Formula gives no positive valuation" }
+  }
+
+  if (!round.referenceRoundId) {
+    return { valuation: 0, error: "No reference round selected" }
+  }
+
+  const referenceRound = allEvents.find(
+    (e): e is FundingRound => e.id === round.referenceRoundId && e.type === "funding",
+  )
+  if (!referenceRound) {
+    return { valuation: 0, error: "References a round that no longer exists" }
+  }
+
+  const referenceValuation =
+    round.valuationType === "pre-money" ? referenceRound.preMoneyValuation : referenceRound.postMoneyValuation
+  if (!(referenceValuation > 0)) {
+    return { valuation: 0, error: `References ${referenceRound.name} which has no valuation` }
+  }
+
+  const percentage = round.discountPercentage || 0
+  const multiplier = round.referenceAdjustment === "premium" ? 1 + percentage / 100 : 1 - percentage / 100
+  if (multiplier <= 0) {
+    return {
+      valuation: 0,
+      error: round.referenceAdjustment === "premium" ? "Premium must be above -100%" : "Discount must be below 100%",
+    }
+  }
+
+  return {
+    valuation: convertCurrency(referenceValuation, referenceRound.currency, round.currency, exchangeRates) * multiplier,
+    error: "",
+  }
+}
+
+// Evaluates a formula investment amount into investmentAmount, so the rest of the engine reads it as usual
+const withInvestment = (
+  round: FundingRound,
+  allEvents: Event[],
+  variables: ModelVariable[],
+  exchangeRates: ExchangeRates,
+): FundingRound => {
+  if (round.investmentSource !== "formula") return { ...round, investmentError: "" }
+
+  const { value, error } = evaluateRoundFormula(round.investmentFormula, round, allEvents, variables, exchangeRates)
+  return { ...round, investmentAmount: error ? 0 : Math.max(0, value), investmentError: error }
+}
+
+// Derives pre- and post-money from a round's headline valuation and its valuation type
+const withValuation = (round: FundingRound, { valuation, error }: ValuationResult): FundingRound => {
+  const preMoneyValuation =
+    round.valuationType === "pre-money" ? valuation : Math.max(0, valuation - round.investmentAmount)
+  const postMoneyValuation = round.valuationType === "pre-money" ? valuation + round.investmentAmount : valuation
+
+  return {
+    ...round,
+    calculatedValuation: valuation,
+    preMoneyValuation,
+    postMoneyValuation,
+    valuationError: error,
+  }
+}
+
+// Rounds a round's valuation or investment depends on, through a reference or formulas
+const getRoundDependencies = (round: FundingRound, rounds: FundingRound[]): FundingRound[] => {
+  const formulas = [
+    round.valuationSource === "formula" ? round.valuationFormula : "",
+    round.investmentSource === "formula" ? round.investmentFormula : "",
+  ]
+  const names = formulas.flatMap((formula) => {
+    const { node } = parseFormula(formula)
+    return node ? getFormulaReferences(node).filter((reference) => reference.property) : []
+  })
+
+  // Every round going by a referenced name, so the formula sees them all and reports the ambiguity
+  const dependencies: (FundingRound | undefined)[] = names.flatMap(({ name }) => getRoundsNamed(name, rounds))
+  if (round.valuationSource === "reference") {
+    dependencies.push(rounds.find((r) => r.id === round.referenceRoundId))
+  }
+  return Array.from(new Set(dependencies.filter((r): r is FundingRound => !!r)))
+}
+
+// Resolves every round's investment and valuation in dependency order. Following each round's
+// dependencies depth first values them before the round itself; reaching a round already on
+// the current path closes a cycle, and every round on the cycle gets an error instead.
+const resolveValuations = (
+  rounds: FundingRound[],
+  variables: ModelVariable[],
+  exchangeRates: ExchangeRates,
+): Map<string, FundingRound> => {
+  const resolved = new Map<string, FundingRound>()
+
+  const resolve = (round: FundingRound, path: FundingRound[]) => {
+    if (resolved.has(round.id)) return
+
+    for (const dependency of getRoundDependencies(round, rounds)) {
+      const cycleStart = path.findIndex((r) => r.id === dependency.id)
+      const cycle = dependency === round ? [round] : cycleStart >= 0 ? [...path.slice(cycleStart), round] : []
+
+      if (cycle.length > 0) {
+        const error = `Circular reference: ${[...cycle, cycle[0]].map((r) => r.name).join(" → ")}`
+        cycle
+          .filter((r) => !resolved.has(r.id))
+          .forEach((r) => {
+            const funded =
+              r.investmentSource === "formula"
+                ? { ...r, investmentAmount: 0, investmentError: error }
+                : { ...r, investmentError: "" }
+            resolved.set(r.id, withValuation(funded, { valuation: 0, error }))
+          })
+        return
+      }
+
+      resolve(dependency, [...path, round])
+      // Resolving a dependency can close a cycle through this round
+      if (resolved.has(round.id)) return
+    }
+
+    const resolvedRounds = Array.from(resolved.values())
+    const funded = withInvestment(round, resolvedRounds, variables, exchangeRates)
+    resolved.set(round.id, withValuation(funded, calculateValuation(funded, resolvedRounds, exchangeRates, variables)))
+  }
+
+  rounds.forEach((round) => resolve(round, []))
+  return resolved
+}
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000
+
+// Years between two ISO dates (yyyy-mm-dd), 0 when either is missing or the range is negative
+export const yearsBetween = (startDate: string, endDate: string): number => {
+  if (!startDate || !endDate) return 0
+  const start = Date.parse(startDate)
+  const end = Date.parse(endDate)
+  if (isNaN(start) || isNaN(end) || end <= start) return 0
+  return (end - start) / MS_PER_YEAR
+}
+
+// Interest accrued on a note from its issue date up to the given date (in the note's currency)
+export const calculateAccruedInterest = (note: ConvertibleNote, untilDate: string): number => {
+  const years = yearsBetween(note.issueDate, untilDate)
+  const rate = note.interestRate / 100
+  if (note.principal <= 0 || rate <= 0 || years <= 0) return 0
+
+  if (note.interestType === "compound") {
+    return note.principal * (Math.pow(1 + rate, years) - 1)
+  }
+  return note.principal * rate * years
+}
+
+// Whole calendar months between two ISO dates, 0 when either is missing or the range is negative
+export const monthsBetween = (startDate: string, endDate: string): number => {
+  if (!startDate || !endDate) return 0
+  const start = new Date(startDate)
+  const end = new Date(endDate)
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) return 0
+  const months =
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    (end.getUTCMonth() - start.getUTCMonth()) -
+    (end.getUTCDate() < start.getUTCDate() ? 1 : 0)
+  return Math.max(0, months)
+}
+
+// Options vested by the given date: nothing before the cliff, then monthly vesting
+// from the grant date (the cliff releases everything accrued up to it at once)
+export const calculateVestedOptions = (grant: OptionGrant, asOfDate: string): number => {
+  const months = monthsBetween(grant.grantDate, asOfDate)
+  if (grant.grantedOptions <= 0 || months < grant.cliffMonths) return 0
+  if (grant.vestingMonths <= 0 || months >= grant.vestingMonths) return grant.grantedOptions
+  return Math.floor((grant.grantedOptions * months) / grant.vestingMonths)
+}
+
+// Converts every pending SAFE and convertible note into shares at the given priced
+// round. Each instrument takes the lowest of its cap price, discounted round price
+// and the round price. Converted shares count towards the pre-money share count
+// (so they dilute the existing holders, not the new investor), which makes the
+// round price depend on the conversions; we iterate to a fixed point. A pre-money
+// pool top-up also sits in the pre-money share count and depends on the converted
+// shares, so it is passed in as a function of them.
+export const calculateInstrumentConversions = (
+  round: FundingRound,
+  pendingInstruments: ConvertibleInstrument[],
+  previousTotalShares: number,
+  exchangeRates: ExchangeRates,
+  poolTopUpShares: (convertedShares: number) => number = () => 0,
+): ConversionResult[] => {
+  if (pendingInstruments.length === 0 || round.preMoneyValuation <= 0 || previousTotalShares <= 0) {
+    return []
+  }
+
+  const toRoundCurrency = (amount: number, currency: Currency) =>
+    convertCurrency(amount, currency, round.currency, exchangeRates)
+
+  const terms = pendingInstruments.map((instrument, index) => {
+    let valuationCap = instrument.valuationCap > 0 ? toRoundCurrency(instrument.valuationCap, instrument.currency) : 0
+    let discountPercentage = instrument.discountPercentage
+
+    // MFN: adopt the best cap and discount of any instrument issued after this one
+    if (instrument.type === "safe" && instrument.mfn) {
+      pendingInstruments.slice(index + 1).forEach((laterInstrument) => {
+        if (laterInstrument.valuationCap > 0) {
+          const laterCap = toRoundCurrency(laterInstrument.valuationCap, laterInstrument.currency)
+          valuationCap = valuationCap > 0 ? Math.min(valuationCap, laterCap) : laterCap
+        }
+        discountPercentage = Math.max(discountPercentage, laterInstrument.discountPercentage)
+      })
+    }
+
+    // Notes convert principal plus interest accrued to the round's close date (or maturity if undated)
+    const interest =
+      instrument.type === "convertible-note"
+        ? calculateAccruedInterest(instrument, round.date || instrument.maturityDate)
+        : 0
+    const principal = instrument.type === "convertible-note" ? instrument.principal : instrument.investmentAmount
+
+    return {
+      instrument,
+      interest,
+      amount: toRoundCurrency(principal + interest, instrument.currency),
+      valuationCap,
+      discountPercentage: Math.min(Math.max(discountPercentage, 0), 99),
+      // Post-money SAFEs are capped against the capitalization including all converting
+      // instruments (but not the round's pool top-up), pre-money SAFEs and notes against
+      // the shares outstanding before conversion
+      postMoneyCap: instrument.type === "safe" && instrument.safeType === "post-money",
+    }
+  })
+
+  let shares = terms.map(() => 0)
+  let prices = terms.map(() => ({ price: 0, basis: "round" as ConversionBasis }))
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const convertedShares = shares.reduce((sum, s) => sum + s, 0)
+    const capitalization = previousTotalShares + convertedShares
+    const roundPrice = round.preMoneyValuation / (capitalization + poolTopUpShares(convertedShares))
+
+    prices = terms.map((term) => {
+      let best = { price: roundPrice, basis: "round" as ConversionBasis }
+
+      if (term.discountPercentage > 0) {
+        const discountPrice = roundPrice * (1 - term.discountPercentage / 100)
+        if (discountPrice < best.price) best = { price: discountPrice, basis: "discount" }
+      }
+
+      if (term.valuationCap > 0) {
+        const capShares = term.postMoneyCap ? capitalization : previousTotalShares
+        const capPrice = term.valuationCap / capShares
+        if (capPrice < best.price) best = { price: capPrice, basis: "cap" }
+      }
+
+      return best
+    })
+
+    const nextShares = terms.map((term, i) => (prices[i].price > 0 ? term.amount / prices[i].price : 0))
+    const converged = nextShares.every((s, i) => Math.abs(s - shares[i]) < 0.5)
+    shares = nextShares
+    if (converged) break
+  }
+
+  return terms
+    .map((term, i) => ({
+      instrumentId: term.instrument.id,
+      holderName: term.instrument.investorName,
+      amount: term.amount,
+      interest: term.interest,
+      shares: Math.round(shares[i]),
+      conversionPrice: prices[i].price,
+      basis: prices[i].basis,
+    }))
+    .filter((conversion) => conversion.shares > 0)
+}
+
+// New pool shares needed so the pool holds the target fraction of the post-round total, given
+// the investor fraction, the pre-round shares before the top-up and the pool's current shares
+const solvePoolTopUp = (
+  targetFraction: number,
+  investorFraction: number,
+  preRoundShares: number,
+  existingPoolShares: number,
+): number => {
+  if (targetFraction <= 0 || investorFraction + targetFraction >= 1) return 0
+  // pool + topUp = target * total, total = (preRound + topUp) / (1 - investor)
+  const topUp =
+    (targetFraction * preRoundShares - existingPoolShares * (1 - investorFraction)) /
+    (1 - investorFraction - targetFraction)
+  return Math.max(0, topUp)
+}
+
+// Amount each participating holder puts into the round. A full pro-rata allocation keeps
+// the holder's ownership from before the round; requests beyond the round size are scaled down.
+export const calculateProRataAmounts = (
+  round: FundingRound,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+): { holderName: string; amount: number }[] => {
+  const requested = (round.proRataParticipants || [])
+    .filter((participant) => participant.holderName)
+    .map((participant) => {
+      if (!participant.exerciseProRata) {
+        return { holderName: participant.holderName, amount: Math.max(0, participant.amount || 0) }
+      }
+      const heldShares = previousCapTable
+        .filter((shareholder) => shareholder.name === participant.holderName)
+        .reduce((sum, shareholder) => sum + shareholder.shares, 0)
+      const ownership = previousTotalShares > 0 ? heldShares / previousTotalShares : 0
+      return { holderName: participant.holderName, amount: ownership * round.investmentAmount }
+    })
+    .filter((request) => request.amount > 0)
+
+  const totalRequested = requested.reduce((sum, request) => sum + request.amount, 0)
+  const scale = totalRequested > round.investmentAmount ? round.investmentAmount / totalRequested : 1
+  return requested.map((request) => ({ ...request, amount: request.amount * scale }))
+}
+
+// Reprices protected classes when a round comes in below their conversion price. Full ratchet
+// drops the price to the new round's; weighted average uses CP2 = CP1 * (A + B) / (A + C), with A the
+// shares outstanding before the round (all of them broad-based, only preferred narrow-based), B the
+// shares the new money would have bought at CP1 and C the shares it actually buys. Holders get the
+// extra shares needed to convert at the new price, pro rata within the class.
+//
+// The extra shares are part of the pre-money, so they lower the round price that triggers them.
+// With N the pre-round share count the round price is V / N, and under either method a class's
+// extra shares come to slope * N + intercept, so N = baseShares + sum(slope * N + intercept) solves
+// directly. Repricing one class can push the price below another's, so the solve repeats until no
+// further class is triggered.
+const calculateAntiDilution = (
+  round: FundingRound,
+  protectedClasses: ProtectedClass[],
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+  baseShares: number,
+  exchangeRates: ExchangeRates,
+) => {
+  const adjustments: AntiDilutionAdjustment[] = []
+  const extraShares = new Map<Shareholder, number>()
+  const preferredShares = previousCapTable
+    .filter((shareholder) => shareholder.shareClass)
+    .reduce((sum, shareholder) => sum + shareholder.shares, 0)
+
+  const terms = protectedClasses
+    .filter((protectedClass) => protectedClass.type !== "none" && protectedClass.conversionPrice > 0)
+    .map((protectedClass) => {
+      const classRows = previousCapTable.filter((shareholder) => shareholder.shareClass === protectedClass.shareClass)
+      const classShares = classRows.reduce((sum, shareholder) => sum + shareholder.shares, 0)
+      const previousPrice = protectedClass.conversionPrice
+      // Pre-money valuation and new money in the protected class's currency
+      const value = convertCurrency(round.preMoneyValuation, round.currency, protectedClass.currency, exchangeRates)
+      const newMoney = convertCurrency(round.investmentAmount, round.currency, protectedClass.currency, exchangeRates)
+      const outstanding = protectedClass.type === "broad-based" ? previousTotalShares : preferredShares
+      // Full ratchet: S * (CP1 * N / V - 1). Weighted average: S * M * (N / V - 1 / CP1) / (A + M / CP1)
+      const weight =
+        protectedClass.type === "full-ratchet"
+          ? classShares * previousPrice
+          : (classShares * newMoney) / (outstanding + newMoney / previousPrice)
+      return {
+        protectedClass,
+        classRows,
+        value,
+        newMoney,
+        outstanding,
+        slope: weight / value,
+        intercept: -weight / previousPrice,
+      }
+    })
+    .filter((term) => term.classRows.length > 0 && term.value > 0)
+
+  let preRoundShares = baseShares
+  let triggered: typeof terms = []
+  for (;;) {
+    const nowTriggered = terms.filter((term) => term.value / preRoundShares < term.protectedClass.conversionPrice)
+    if (nowTriggered.length === triggered.length) break
+    triggered = nowTriggered
+
+    const slope = triggered.reduce((sum, term) => sum + term.slope, 0)
+    const intercept = triggered.reduce((sum, term) => sum + term.intercept, 0)
+    // At slope >= 1 the protected classes would need the whole pre-money, so there is no share count
+    // that prices the round; reprice at the price before the adjustment instead
+    if (slope >= 1) {
+      preRoundShares = baseShares
+      break
+    }
+    preRoundShares = baseShares + Math.max(0, (slope * baseShares + intercept) / (1 - slope))
+  }
+
+  triggered.forEach(({ protectedClass, classRows, value, newMoney, outstanding }) => {
+    const previousPrice = protectedClass.conversionPrice
+    const roundPrice = value / preRoundShares
+    const adjustedPrice =
+      protectedClass.type === "full-ratchet"
+        ? roundPrice
+        : (previousPrice * (outstanding + newMoney / previousPrice)) / (outstanding + newMoney / roundPrice)
+
+    let additionalShares = 0
+    classRows.forEach((shareholder) => {
+      const extra = Math.round(shareholder.shares * (previousPrice / adjustedPrice - 1))
+      extraShares.set(shareholder, extra)
+      additionalShares += extra
+    })
+    if (additionalShares <= 0) return
+
+    adjustments.push({
+      shareClass: protectedClass.shareClass,
+      type: protectedClass.type,
+      currency: protectedClass.currency,
+      previousConversionPrice: previousPrice,
+      adjustedConversionPrice: adjustedPrice,
+      additionalShares,
+    })
+  })
+
+  return { adjustments, extraShares }
+}
+
+export const calculateCapTableForFundingRound = (
+  round: FundingRound,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+  pendingInstruments: ConvertibleInstrument[],
+  exchangeRates: ExchangeRates,
+  latestPoolName = "",
+  protectedClasses: ProtectedClass[] = [],
+): FundingRoundStep => {
+  const poolTopUpName = latestPoolName || `${round.name} Option Pool`
+  const unchanged: FundingRoundStep = {
+    capTable: previousCapTable,
+    totalSharesAfter: previousTotalShares,
+    newSharesIssued: 0,
+    conversions: [],
+    pricePerShare: 0,
+    pricePerShareBeforeConversions: 0,
+    poolTopUpName,
+    poolTopUpShares: 0,
+    effectivePreMoneyValuation: round.preMoneyValuation,
+    proRataAllocations: [],
+    investorAllocations: [],
+    unallocatedAmount: round.investmentAmount,
+    antiDilutionAdjustments: [],
+  }
+
+  if (round.postMoneyValuation <= 0 || round.investmentAmount <= 0) {
+    return unchanged
+  }
+
+  // Without shares outstanding there is no price per share. Conversions and the pool top-up
+  // only add to a non-zero count, so this also keeps the pre-round share count above zero.
+  if (previousTotalShares <= 0) {
+    return unchanged
+  }
+
+  // Calculate new investor ownership percentage
+  const newInvestorPercentage = (round.investmentAmount / round.postMoneyValuation) * 100
+
+  // Validate that the new investor percentage is reasonable
+  if (newInvestorPercentage <= 0 || newInvestorPercentage >= 100) {
+    return unchanged
+  }
+
+  // The pre-money pool top-up ("option pool shuffle") dilutes only the existing holders
+  const investorFraction = newInvestorPercentage / 100
+  const targetPoolFraction = (round.targetPoolPercentage || 0) / 100
+  const existingPoolShares = previousCapTable
+    .filter((shareholder) => shareholder.name === poolTopUpName)
+    .reduce((sum, shareholder) => sum + shareholder.shares, 0)
+  const poolTopUpFor = (convertedShares: number) =>
+    solvePoolTopUp(targetPoolFraction, investorFraction, previousTotalShares + convertedShares, existingPoolShares)
+
+  // Convert outstanding SAFEs and notes first, they are part of the pre-money share count
+  const conversions = calculateInstrumentConversions(
+    round,
+    pendingInstruments,
+    previousTotalShares,
+    exchangeRates,
+    poolTopUpFor,
+  )
+  const convertedShares = conversions.reduce((sum, conversion) => sum + conversion.shares, 0)
+  const poolTopUpShares = Math.round(poolTopUpFor(convertedShares))
+
+  // Down-round anti-dilution shares go to earlier protected classes, also in the pre-money
+  const { adjustments: antiDilutionAdjustments, extraShares } = calculateAntiDilution(
+    round,
+    protectedClasses,
+    previousCapTable,
+    previousTotalShares,
+    previousTotalShares + convertedShares + poolTopUpShares,
+    exchangeRates,
+  )
+  const antiDilutionShares = antiDilutionAdjustments.reduce((sum, adjustment) => sum + adjustment.additionalShares, 0)
+  const preRoundShares = previousTotalShares + convertedShares + poolTopUpShares + antiDilutionShares
+
+  // Calculate new shares to issue
+  // If investor gets X% of post-money, then:
+  // newShares / (previousShares + newShares) = X/100
+  // newShares = (X/100) * (previousShares + newShares)
+  // newShares = (X/100) * previousShares / (1 - X/100)
+  const investorShares = Math.round(
+    ((newInvestorPercentage / 100) * preRoundShares) / (1 - newInvestorPercentage / 100),
+  )
+  const sharesFor = (amount: number) => Math.round((investorShares * amount) / round.investmentAmount)
+
+  // Existing holders exercising pro-rata take their slice of the round's shares at the round price
+  const proRataAllocations: ProRataAllocation[] = calculateProRataAmounts(
+    round,
+    previousCapTable,
+    previousTotalShares,
+  ).map(({ holderName, amount }) => ({ holderName, amount, shares: sharesFor(amount) }))
+  const proRataAmount = proRataAllocations.reduce((sum, allocation) => sum + allocation.amount, 0)
+
+  // Then the syndicate: fixed amounts first (scaled down if they overshoot the round), and
+  // the fill-remaining investor takes whatever is left
+  const syndicate = round.investors.filter((investor) => investor.name)
+  const fillInvestor = syndicate.find((investor) => investor.fillRemaining)
+  const fixedInvestors = syndicate.filter((investor) => investor !== fillInvestor)
+  const fixedAmount = fixedInvestors.reduce((sum, investor) => sum + Math.max(0, investor.amount || 0), 0)
+  const availableAmount = Math.max(0, round.investmentAmount - proRataAmount)
+  const fixedScale = fixedAmount > availableAmount ? availableAmount / fixedAmount : 1
+  const fillAmount = fillInvestor ? Math.max(0, availableAmount - fixedAmount) : 0
+  const unallocatedAmount = round.investmentAmount - proRataAmount - fixedAmount - fillAmount
+
+  const investorAllocations: InvestorAllocation[] = [
+    ...fixedInvestors.map((investor) => ({
+      name: investor.name,
+      amount: Math.max(0, investor.amount || 0) * fixedScale,
+    })),
+    ...(fillInvestor ? [{ name: fillInvestor.name, amount: fillAmount }] : []),
+  ]
+    .filter((allocation) => allocation.amount > 0)
+    .map((allocation) => ({ ...allocation, shares: sharesFor(allocation.amount) }))
+
+  const roundShares = [...proRataAllocations, ...investorAllocations].reduce(
+    (sum, allocation) => sum + allocation.shares,
+    0,
+  )
+  const pricePerShare = round.preMoneyValuation / preRoundShares
+
+  const newSharesIssued = convertedShares + poolTopUpShares + roundShares + antiDilutionShares
+  const totalSharesAfter = previousTotalShares + newSharesIssued
+
+  // Create new cap table with actual share counts
+  const newCapTable: Shareholder[] = []
+
+  // Add existing shareholders (their share count stays the same unless anti-dilution applies,
+  // but percentage dilutes)
+  previousCapTable.forEach((shareholder) => {
+    const shares = shareholder.shares + (extraShares.get(shareholder) || 0)
+    const newPercentage = (shares / totalSharesAfter) * 100
+    if (shares > 0) {
+      newCapTable.push({
+        ...shareholder,
+        shares,
+        percentage: newPercentage,
+      })
+    }
+  })
+
+  // Top up the pool row, or add it if the round creates the first pool
+  if (poolTopUpShares > 0) {
+    const poolRow = newCapTable.find((shareholder) => shareholder.name === poolTopUpName)
+    if (poolRow) {
+      poolRow.shares += poolTopUpShares
+      poolRow.percentage = (poolRow.shares / totalSharesAfter) * 100
+    } else {
+      newCapTable.push({
+        name: poolTopUpName,
+        shares: poolTopUpShares,
+        percentage: (poolTopUpShares / totalSharesAfter) * 100,
+        optionPool: true,
+      })
+    }
+  }
+
+  // Converted instruments and the round's investors all receive this round's preferred class
+  const shareClass = getShareClassName(round)
+
+  // Everyone buying into this round grows their row in this round's class, or gets one if they
+  // don't hold it yet (an investor's shares from earlier rounds stay in those rounds' classes)
+  const addRoundShares = (name: string, shares: number, investment: number) => {
+    const holderRow = newCapTable.find(
+      (shareholder) =>
+        shareholder.name === name &&
+        shareholder.shareClass === shareClass &&
+        !shareholder.grantedFromPool &&
+        !shareholder.warrantId,
+    )
+    if (holderRow) {
+      holderRow.shares += shares
+      holderRow.percentage = (holderRow.shares / totalSharesAfter) * 100
+      holderRow.investment = (holderRow.investment || 0) + investment
+    } else {
+      // A holder buying into the round keeps their role, so founders' pro-rata still counts as team
+      const role = newCapTable.find((shareholder) => shareholder.name === name && shareholder.role)?.role
+      newCapTable.push({
+        name,
+        shares,
+        percentage: (shares / totalSharesAfter) * 100,
+        shareClass,
+        investment,
+        ...(role && { role }),
+      })
+    }
+  }
+
+  conversions.forEach((conversion) => addRoundShares(conversion.holderName, conversion.shares, conversion.amount))
+  proRataAllocations.forEach((allocation) =>
+    addRoundShares(allocation.holderName, allocation.shares, allocation.amount),
+  )
+  investorAllocations.forEach((allocation) => addRoundShares(allocation.name, allocation.shares, allocation.amount))
+
+  return {
+    capTable: newCapTable,
+    totalSharesAfter,
+    newSharesIssued,
+    conversions,
+    pricePerShare,
+    pricePerShareBeforeConversions: round.preMoneyValuation / previousTotalShares,
+    poolTopUpName,
+    poolTopUpShares,
+    effectivePreMoneyValuation: round.preMoneyValuation - poolTopUpShares * pricePerShare,
+    proRataAllocations,
+    investorAllocations,
+    unallocatedAmount,
+    antiDilutionAdjustments,
+  }
+}
+
+export const calculateCapTableForOptionPool = (
+  pool: OptionPool,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+  latestPoolName = "",
+): OptionPoolStep => {
+  const poolPercentage = pool.percentage
+  // Top-ups fall back to creating a new pool when there is nothing to top up yet
+  const topUpRowName = pool.mode === "top-up" ? pool.topUpPoolName || latestPoolName : ""
+  const existingPoolRow = topUpRowName
+    ? previousCapTable.find((shareholder) => shareholder.name === topUpRowName)
+    : undefined
+  const poolRowName = existingPoolRow ? existingPoolRow.name : pool.name
+
+  if (poolPercentage <= 0 || poolPercentage >= 100) {
+    return {
+      capTable: previousCapTable,
+      totalSharesAfter: previousTotalShares,
+      newSharesIssued: 0,
+      poolRowName,
+    }
+  }
+
+  // Calculate new shares to issue for option pool
+  // Similar to funding round calculation; a top-up only issues what the existing pool lacks:
+  // (existing + new) / (previous + new) = X/100
+  // new = ((X/100) * previous - existing) / (1 - X/100)
+  const existingPoolShares = existingPoolRow ? existingPoolRow.shares : 0
+  const newSharesIssued = Math.max(
+    0,
+    Math.round(((poolPercentage / 100) * previousTotalShares - existingPoolShares) / (1 - poolPercentage / 100)),
+  )
+  const totalSharesAfter = previousTotalShares + newSharesIssued
+
+  // Create new cap table
+  const newCapTable: Shareholder[] = []
+
+  // Add existing shareholders (their share count stays the same, but percentage dilutes)
+  previousCapTable.forEach((shareholder) => {
+    const shares = shareholder === existingPoolRow ? shareholder.shares + newSharesIssued : shareholder.shares
+    newCapTable.push({
+      ...shareholder,
+      shares,
+      percentage: (shares / totalSharesAfter) * 100,
+    })
+  })
+
+  // Add option pool
+  if (!existingPoolRow) {
+    newCapTable.push({
+      name: pool.name,
+      shares: newSharesIssued,
+      percentage: poolPercentage,
+      optionPool: true,
+    })
+  }
+
+  return {
+    capTable: newCapTable,
+    totalSharesAfter,
+    newSharesIssued,
+    poolRowName,
+  }
+}
+
+// Moves options from a pool row to the grantee. No new shares are issued, so only the
+// pool row and the grantee's option row change; repeat grants from the same pool merge.
+// A fully granted pool leaves the cap table.
+export const calculateCapTableForOptionGrant = (
+  grant: OptionGrant,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+  latestPoolName = "",
+): OptionGrantStep => {
+  const poolRowName = grant.poolName || latestPoolName
+  const poolRow = poolRowName
+    ? previousCapTable.find((shareholder) => shareholder.name === poolRowName && !shareholder.grantedFromPool)
+    : undefined
+  const availableOptions = poolRow ? poolRow.shares : 0
+  const grantedOptions = Math.max(0, Math.min(Math.round(grant.options || 0), availableOptions))
+
+  if (!poolRow || grantedOptions <= 0) {
+    return {
+      capTable: previousCapTable,
+      totalSharesAfter: previousTotalShares,
+      newSharesIssued: 0,
+      poolRowName,
+      availableOptions,
+      grantedOptions: 0,
+    }
+  }
+
+  const existingGrantRow = previousCapTable.find(
+    (shareholder) => shareholder.name === grant.holderName && shareholder.grantedFromPool === poolRowName,
+  )
+
+  const newCapTable: Shareholder[] = previousCapTable.map((shareholder) => {
+    const shares =
+      shareholder === poolRow
+        ? shareholder.shares - grantedOptions
+        : shareholder === existingGrantRow
+          ? shareholder.shares + grantedOptions
+          : shareholder.shares
+    return {
+      ...shareholder,
+      shares,
+      percentage: (shares / previousTotalShares) * 100,
+    }
+  })
+
+  if (!existingGrantRow) {
+    newCapTable.push({
+      name: grant.holderName,
+      shares: grantedOptions,
+      percentage: (grantedOptions / previousTotalShares) * 100,
+      role: grant.role,
+      grantedFromPool: poolRowName,
+    })
+  }
+
+  return {
+    capTable: newCapTable.filter((shareholder) => shareholder.shares > 0),
+    totalSharesAfter: previousTotalShares,
+    newSharesIssued: 0,
+    poolRowName,
+    availableOptions,
+    grantedOptions,
+  }
+}
+
+// Picks shares from a holder's issued (non-option) rows, in proportion to each row's size
+const takeHolderShares = (
+  capTable: Shareholder[],
+  holderName: string,
+  quantityType: "shares" | "percentage",
+  quantity: number,
+) => {
+  const rows = capTable.filter(
+    (shareholder) => shareholder.name === holderName && !shareholder.grantedFromPool && !shareholder.warrantId,
+  )
+  const heldShares = rows.reduce((sum, shareholder) => sum + shareholder.shares, 0)
+  const requested =
+    quantityType === "percentage" ? (heldShares * Math.max(0, quantity || 0)) / 100 : Math.max(0, quantity || 0)
+  const sharesTaken = Math.min(heldShares, Math.round(requested))
+  const takenByRow = new Map<Shareholder, number>()
+  if (sharesTaken <= 0) return { sharesTaken: 0, takenByRow }
+
+  let remaining = sharesTaken
+  rows.forEach((shareholder, index) => {
+    const fromRow = index === rows.length - 1 ? remaining : Math.round((sharesTaken * shareholder.shares) / heldShares)
+    takenByRow.set(shareholder, fromRow)
+    remaining -= fromRow
+  })
+  return { sharesTaken, takenByRow }
+}
+
+// Transfers existing shares from sellers to the buyer. Shares keep their class and carry their
+// share of the original investment (and so the liquidation preference) with them; a seller with
+// several rows sells from each in proportion. Options can't be sold, only issued shares.
+export const calculateCapTableForSecondarySale = (
+  sale: SecondarySale,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+): SecondarySaleStep => {
+  const soldByRow = new Map<Shareholder, number>()
+  const sales: SecondaryProceeds[] = []
+
+  sale.sellers
+    .filter((seller) => seller.holderName && seller.holderName !== sale.buyerName)
+    .forEach((seller) => {
+      const rows = previousCapTable.filter((shareholder) => !soldByRow.has(shareholder))
+      const { sharesTaken, takenByRow } = takeHolderShares(
+        rows,
+        seller.holderName,
+        seller.quantityType,
+        seller.quantity,
+      )
+      if (sharesTaken <= 0) return
+
+      takenByRow.forEach((shares, shareholder) => soldByRow.set(shareholder, shares))
+      sales.push({ holderName: seller.holderName, shares: sharesTaken, proceeds: sharesTaken * sale.pricePerShare })
+    })
+
+  if (sales.length === 0 || !sale.buyerName) {
+    return {
+      capTable: previousCapTable,
+      totalSharesAfter: previousTotalShares,
+      newSharesIssued: 0,
+      sales: [],
+    }
+  }
+
+  const newCapTable: Shareholder[] = previousCapTable.map((shareholder) => ({ ...shareholder }))
+
+  previousCapTable.forEach((shareholder, index) => {
+    const sold = soldByRow.get(shareholder) || 0
+    if (sold <= 0) return
+
+    const sellerRow = newCapTable[index]
+    const transferredInvestment = shareholder.investment ? (shareholder.investment * sold) / shareholder.shares : 0
+    sellerRow.shares -= sold
+    if (shareholder.investment) sellerRow.investment = shareholder.investment - transferredInvestment
+
+    const buyerRow = newCapTable.find(
+      (row) =>
+        row.name === sale.buyerName &&
+        row.shareClass === shareholder.shareClass &&
+        !row.grantedFromPool &&
+        !row.warrantId,
+    )
+    if (buyerRow) {
+      buyerRow.shares += sold
+      if (transferredInvestment) buyerRow.investment = (buyerRow.investment || 0) + transferredInvestment
+    } else {
+      newCapTable.push({
+        name: sale.buyerName,
+        shares: sold,
+        percentage: 0,
+        ...(shareholder.shareClass && { shareClass: shareholder.shareClass, investment: transferredInvestment }),
+      })
+    }
+  })
+
+  return {
+    capTable: newCapTable
+      .filter((shareholder) => shareholder.shares > 0)
+      .map((shareholder) => ({ ...shareholder, percentage: (shareholder.shares / previousTotalShares) * 100 })),
+    totalSharesAfter: previousTotalShares,
+    newSharesIssued: 0,
+    sales,
+  }
+}
+
+// The company buys shares back from a holder and cancels them, so the total goes down. The
+// cancelled shares' part of the holder's investment (and liquidation preference) goes with them.
+export const calculateCapTableForShareBuyback = (
+  buyback: ShareBuyback,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+): ShareBuybackStep => {
+  const { sharesTaken, takenByRow } = takeHolderShares(
+    previousCapTable,
+    buyback.holderName,
+    buyback.quantityType,
+    buyback.quantity,
+  )
+
+  if (sharesTaken <= 0 || sharesTaken >= previousTotalShares) {
+    return {
+      capTable: previousCapTable,
+      totalSharesAfter: previousTotalShares,
+      newSharesIssued: 0,
+      sharesCancelled: 0,
+      cost: 0,
+    }
+  }
+
+  const totalSharesAfter = previousTotalShares - sharesTaken
+  const newCapTable: Shareholder[] = previousCapTable
+    .map((shareholder) => {
+      const cancelled = takenByRow.get(shareholder) || 0
+      const shares = shareholder.shares - cancelled
+      return {
+        ...shareholder,
+        shares,
+        percentage: (shares / totalSharesAfter) * 100,
+        ...(shareholder.investment && { investment: (shareholder.investment * shares) / shareholder.shares }),
+      }
+    })
+    .filter((shareholder) => shareholder.shares > 0)
+
+  return {
+    capTable: newCapTable,
+    totalSharesAfter,
+    newSharesIssued: 0,
+    sharesCancelled: sharesTaken,
+    cost: sharesTaken * buyback.pricePerShare,
+  }
+}
+
+// Rescales every holding by the split ratio; ownership percentages don't change
+export const calculateCapTableForStockSplit = (
+  split: StockSplit,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+): CapTableStep => {
+  if (!(split.ratio > 0) || split.ratio === 1) {
+    return {
+      capTable: previousCapTable,
+      totalSharesAfter: previousTotalShares,
+      newSharesIssued: 0,
+    }
+  }
+
+  const rescaled = previousCapTable.map((shareholder) => ({
+    ...shareholder,
+    shares: Math.round(shareholder.shares * split.ratio),
+  }))
+  const totalSharesAfter = rescaled.reduce((sum, shareholder) => sum + shareholder.shares, 0)
+
+  return {
+    capTable: rescaled.map((shareholder) => ({
+      ...shareholder,
+      percentage: totalSharesAfter > 0 ? (shareholder.shares / totalSharesAfter) * 100 : 0,
+    })),
+    totalSharesAfter,
+    // Consolidations reduce the count; only a split issues shares
+    newSharesIssued: Math.max(0, totalSharesAfter - previousTotalShares),
+  }
+}
+
+// Issues warrant shares to the holder. They count towards the fully-diluted total (and so
+// dilute everyone, like a pool) but sit in their own row until exercised.
+export const calculateCapTableForWarrant = (
+  warrant: Warrant,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+): WarrantStep => {
+  const coverage = Math.max(0, warrant.coverage || 0)
+  // Percentage coverage is of the post-issue total: new / (previous + new) = X/100
+  const warrantShares =
+    warrant.coverageType === "percentage"
+      ? coverage < 100
+        ? Math.round(((coverage / 100) * previousTotalShares) / (1 - coverage / 100))
+        : 0
+      : Math.round(coverage)
+
+  if (!warrant.holderName || warrantShares <= 0) {
+    return {
+      capTable: previousCapTable,
+      totalSharesAfter: previousTotalShares,
+      newSharesIssued: 0,
+      warrantShares: 0,
+    }
+  }
+
+  const totalSharesAfter = previousTotalShares + warrantShares
+  const newCapTable: Shareholder[] = previousCapTable.map((shareholder) => ({
+    ...shareholder,
+    percentage: (shareholder.shares / totalSharesAfter) * 100,
+  }))
+  newCapTable.push({
+    name: warrant.holderName,
+    shares: warrantShares,
+    percentage: (warrantShares / totalSharesAfter) * 100,
+    warrantId: warrant.id,
+  })
+
+  return {
+    capTable: newCapTable,
+    totalSharesAfter,
+    newSharesIssued: warrantShares,
+    warrantShares,
+  }
+}
+
+// Turns exercisable warrant shares or vested options into issued common shares held by the
+// holder. They were already in the fully-diluted total, so the share count doesn't change.
+export const calculateCapTableForExercise = (
+  exercise: Exercise,
+  exercisable: ExercisableInstrument | undefined,
+  previousCapTable: Shareholder[],
+  previousTotalShares: number,
+): ExerciseStep => {
+  const unchanged = {
+    capTable: previousCapTable,
+    totalSharesAfter: previousTotalShares,
+    newSharesIssued: 0,
+    holderName: exercisable?.instrument.holderName || "",
+    currency: exercisable?.instrument.currency || exercise.currency,
+    exercisableShares: 0,
+    sharesExercised: 0,
+    cashReceived: 0,
+  }
+  if (!exercisable) return unchanged
+
+  const { instrument, splitFactor, exercised } = exercisable
+  const sourceRow = previousCapTable.find((shareholder) =>
+    instrument.type === "warrant"
+      ? shareholder.warrantId === instrument.id
+      : shareholder.name === instrument.holderName && shareholder.grantedFromPool === instrument.poolRowName,
+  )
+
+  let entitledShares: number
+  if (instrument.type === "warrant") {
+    const expired = !!instrument.expiryDate && !!exercise.exerciseDate && exercise.exerciseDate > instrument.expiryDate
+    entitledShares = expired ? 0 : instrument.warrantShares * splitFactor
+  } else {
+    entitledShares = calculateVestedOptions(instrument, exercise.exerciseDate) * splitFactor
+  }
+
+  // Repeat grants from one pool share a row, so never take more than the row holds
+  const exercisableShares = Math.max(
+    0,
+    Math.min(Math.round(entitledShares - exercised), sourceRow ? sourceRow.shares : 0),
+  )
+  const requested = Math.round(Math.max(0, exercise.quantity || 0))
+  const sharesExercised = requested > 0 ? Math.min(requested, exercisableShares) : exercisableShares
+
+  if (!sourceRow || sharesExercised <= 0) {
+    return { ...unchanged, exercisableShares }
+  }
+
+  const issuedRow = previousCapTable.find(
+    (shareholder) =>
+      shareholder.name === instrument.holderName &&
+      !shareholder.shareClass &&
+      !shareholder.grantedFromPool &&
+      !shareholder.warrantId,
+  )
+
+  const newCapTable: Shareholder[] = previousCapTable.map((shareholder) => {
+    const shares =
+      shareholder === sourceRow
+        ? shareholder.shares - sharesExercised
+        : shareholder === issuedRow
+          ? shareholder.shares + sharesExercised
+          : shareholder.shares
+    return { ...shareholder, shares, percentage: (shares / previousTotalShares) * 100 }
+  })
+
+  if (!issuedRow) {
+    newCapTable.push({
+      name: instrument.holderName,
+      shares: sharesExercised,
+      percentage: (sharesExercised / previousTotalShares) * 100,
+      ...(instrument.type === "option-grant" && { role: instrument.role }),
+    })
+  }
+
+  return {
+    capTable: newCapTable.filter((shareholder) => shareholder.shares > 0),
+    totalSharesAfter: previousTotalShares,
+    newSharesIssued: 0,
+    holderName: instrument.holderName,
+    currency: instrument.currency,
+    exercisableShares,
+    sharesExercised,
+    // The strike is quoted on the share basis at issue
+    cashReceived: (sharesExercised * instrument.strikePrice) / splitFactor,
+  }
+}
+
+export const recalculateAllEvents = (
+  updatedEvents: Event[],
+  initialHolders: InitialHolder[],
+  exchangeRates: ExchangeRates,
+  variables: ModelVariable[] = [],
+): Event[] => {
+  // Sort events by order
+  const sortedEvents = [...updatedEvents].sort((a, b) => a.order - b.order)
+  const result: Event[] = []
+
+  // First pass: fill in terms older configurations lack and reset computed share counts
+  const normalizedEvents: Event[] = sortedEvents.map((event) => {
+    if (event.type !== "funding") {
+      return { ...event, totalSharesAfter: 0, newSharesIssued: 0 }
+    }
+
+    const { newInvestorName: legacyInvestorName, ...roundTerms } = { ...FUNDING_ROUND_TERM_DEFAULTS, ...event }
+    return {
+      ...roundTerms,
+      // Rounds saved before syndicates had a single investor taking the whole round
+      investors:
+        roundTerms.investors.length > 0 || !legacyInvestorName
+          ? roundTerms.investors
+          : [{ id: `${event.id}-lead`, name: legacyInvestorName, amount: 0, fillRemaining: true }],
+      capTable: [],
+      totalSharesAfter: 0,
+      newSharesIssued: 0,
+    }
+  })
+
+  // Second pass: resolve valuations and formula investments, following references between rounds
+  // in either direction
+  const valuedRounds = resolveValuations(
+    normalizedEvents.filter((e): e is FundingRound => e.type === "funding"),
+    variables,
+    exchangeRates,
+  )
+  const tempResults = normalizedEvents.map((event) => valuedRounds.get(event.id) || event)
+
+  // Third pass: calculate cap tables and share counts in order
+  let currentCapTable = getInitialCapTable(initialHolders)
+  let currentTotalShares = getInitialShares(initialHolders)
+  // SAFEs and notes waiting for the next priced round to convert
+  let pendingInstruments: ConvertibleInstrument[] = []
+  // Pre-money pool top-ups land in the most recent option pool
+  let latestPoolName = ""
+  // Classes with anti-dilution protection, repriced by later down rounds
+  let protectedClasses: ProtectedClass[] = []
+  // Warrants and option grants that later exercise events can draw on, by event id
+  const exercisableInstruments = new Map<string, ExercisableInstrument>()
+
+  for (const event of tempResults) {
+    if (event.type === "funding") {
+      const round = event as FundingRound
+
+      // Calculate cap table and shares for this funding round
+      const step = calculateCapTableForFundingRound(
+        round,
+        currentCapTable,
+        currentTotalShares,
+        pendingInstruments,
+        exchangeRates,
+        latestPoolName,
+        protectedClasses,
+      )
+
+      const updatedRound: FundingRound = {
+        ...round,
+        ...step,
+      }
+
+      // Record the conversion on each SAFE or note that converted in this round
+      step.conversions.forEach((conversion) => {
+        const instrumentIndex = result.findIndex((e) => e.id === conversion.instrumentId)
+        const instrument = result[instrumentIndex]
+        if (instrument?.type === "safe" || instrument?.type === "convertible-note") {
+          result[instrumentIndex] = {
+            ...instrument,
+            ...(instrument.type === "convertible-note" && { accruedInterest: conversion.interest }),
+            convertedInRoundId: round.id,
+            conversionPrice: conversion.conversionPrice,
+            conversionShares: conversion.shares,
+            conversionBasis: conversion.basis,
+          }
+        }
+      })
+      if (step.newSharesIssued > 0) {
+        pendingInstruments = []
+      }
+      if (step.poolTopUpShares > 0) {
+        latestPoolName = step.poolTopUpName
+      }
+      protectedClasses = protectedClasses.map((protectedClass) => {
+        const adjustment = step.antiDilutionAdjustments.find((a) => a.shareClass === protectedClass.shareClass)
+        return adjustment ? { ...protectedClass, conversionPrice: adjustment.adjustedConversionPrice } : protectedClass
+      })
+      if (round.antiDilution !== "none" && step.pricePerShare > 0) {
+        protectedClasses.push({
+          shareClass: getShareClassName(round),
+          type: round.antiDilution,
+          currency: round.currency,
+          conversionPrice: step.pricePerShare,
+        })
+      }
+
+      result.push(updatedRound)
+      currentCapTable = step.capTable
+      currentTotalShares = step.totalSharesAfter
+    } else if (event.type === "safe") {
+      const safe: Safe = {
+        ...event,
+        capTable: currentCapTable,
+        totalSharesAfter: currentTotalShares,
+        newSharesIssued: 0,
+        convertedInRoundId: "",
+        conversionPrice: 0,
+        conversionShares: 0,
+        conversionBasis: "",
+      }
+
+      // Unconverted SAFEs don't issue shares until the next priced round
+      result.push(safe)
+      pendingInstruments.push(safe)
+    } else if (event.type === "convertible-note") {
+      const note: ConvertibleNote = {
+        ...event,
+        capTable: currentCapTable,
+        totalSharesAfter: currentTotalShares,
+        newSharesIssued: 0,
+        accruedInterest: calculateAccruedInterest(event, event.maturityDate),
+        convertedInRoundId: "",
+        conversionPrice: 0,
+        conversionShares: 0,
+        conversionBasis: "",
+      }
+
+      // Notes accrue interest until they convert at the next priced round
+      result.push(note)
+      pendingInstruments.push(note)
+    } else if (event.type === "option-pool") {
+      const pool: OptionPool = { ...OPTION_POOL_DEFAULTS, ...event }
+
+      // Calculate option pool dilution and shares
+      const { capTable, totalSharesAfter, newSharesIssued, poolRowName } = calculateCapTableForOptionPool(
+        pool,
+        currentCapTable,
+        currentTotalShares,
+        latestPoolName,
+      )
+
+      const updatedPool: OptionPool = {
+        ...pool,
+        capTable,
+        totalSharesAfter,
+        newSharesIssued,
+        poolRowName,
+      }
+
+      result.push(updatedPool)
+      currentCapTable = capTable
+      currentTotalShares = totalSharesAfter
+      latestPoolName = poolRowName
+    } else if (event.type === "option-grant") {
+      // Grants draw down the pool without changing the share count
+      const step = calculateCapTableForOptionGrant(event, currentCapTable, currentTotalShares, latestPoolName)
+      const grant: OptionGrant = { ...event, ...step }
+
+      result.push(grant)
+      currentCapTable = step.capTable
+      exercisableInstruments.set(grant.id, { instrument: grant, splitFactor: 1, exercised: 0 })
+    } else if (event.type === "secondary") {
+      // Secondaries move existing shares between holders without changing the share count
+      const step = calculateCapTableForSecondarySale(event, currentCapTable, currentTotalShares)
+
+      result.push({ ...event, ...step })
+      currentCapTable = step.capTable
+    } else if (event.type === "buyback") {
+      const step = calculateCapTableForShareBuyback(event, currentCapTable, currentTotalShares)
+
+      result.push({ ...event, ...step })
+      currentCapTable = step.capTable
+      currentTotalShares = step.totalSharesAfter
+    } else if (event.type === "stock-split") {
+      const step = calculateCapTableForStockSplit(event, currentCapTable, currentTotalShares)
+
+      // Per-share prices and share counts carried forward are restated on the new share basis
+      if (event.ratio > 0) {
+        protectedClasses = protectedClasses.map((protectedClass) => ({
+          ...protectedClass,
+          conversionPrice: protectedClass.conversionPrice / event.ratio,
+        }))
+        exercisableInstruments.forEach((exercisable) => {
+          exercisable.splitFactor *= event.ratio
+          exercisable.exercised *= event.ratio
+        })
+      }
+
+      result.push({ ...event, ...step })
+      currentCapTable = step.capTable
+      currentTotalShares = step.totalSharesAfter
+    } else if (event.type === "warrant") {
+      const step = calculateCapTableForWarrant(event, currentCapTable, currentTotalShares)
+      const warrant: Warrant = { ...event, ...step }
+
+      result.push(warrant)
+      currentCapTable = step.capTable
+      currentTotalShares = step.totalSharesAfter
+      exercisableInstruments.set(warrant.id, { instrument: warrant, splitFactor: 1, exercised: 0 })
+    } else if (event.type === "exercise") {
+      // Only instruments issued earlier in the timeline can be exercised
+      const exercisable = exercisableInstruments.get(event.instrumentId)
+      const step = calculateCapTableForExercise(event, exercisable, currentCapTable, currentTotalShares)
+
+      result.push({ ...event, ...step })
+      currentCapTable = step.capTable
+      if (exercisable) exercisable.exercised += step.sharesExercised
+    }
+  }
+
+  return result
+}
+
+export interface SharePricePoint {
+  roundId: string
+  name: string
+  currency: Currency
+  // Issue price in the round's own currency
+  pricePerShare: number
+  // Issue price normalized to the base currency
+  basePricePerShare: number
+  // Base-currency price relative to the previous priced round, split-adjusted (null for the first)
+  stepUp: number | null
+}
+
+// Issue price history across all priced rounds, normalized to one currency so step-ups compare like for like
+export const getSharePriceHistory = (
+  events: Event[],
+  baseCurrency: Currency,
+  exchangeRates: ExchangeRates,
+): SharePricePoint[] => {
+  const history: SharePricePoint[] = []
+  // Step-ups are split-adjusted: splits since the previous round restate its price on today's basis
+  let splitFactor = 1
+
+  events.forEach((event) => {
+    if (event.type === "stock-split" && event.ratio > 0) {
+      splitFactor *= event.ratio
+      return
+    }
+    if (event.type !== "funding" || event.pricePerShare <= 0) return
+
+    const basePricePerShare = convertCurrency(event.pricePerShare, event.currency, baseCurrency, exchangeRates)
+    const previous = history[history.length - 1]
+    const previousAdjusted = previous ? previous.basePricePerShare / splitFactor : 0
+
+    history.push({
+      roundId: event.id,
+      name: event.name,
+      currency: event.currency,
+      pricePerShare: event.pricePerShare,
+      basePricePerShare,
+      stepUp: previousAdjusted > 0 ? basePricePerShare / previousAdjusted : null,
+    })
+    splitFactor = 1
+  })
+
+  return history
+}
+
+export interface VestingPosition {
+  holderName: string
+  granted: number
+  vested: number
+  unvested: number
+}
+
+// Vested and unvested options per grantee at the given date, summed across their grants
+export const getVestingSummary = (events: Event[], asOfDate: string): VestingPosition[] => {
+  const positions = new Map<string, VestingPosition>()
+
+  events
+    .filter((e): e is OptionGrant => e.type === "option-grant")
+    .forEach((grant) => {
+      const vested = calculateVestedOptions(grant, asOfDate)
+      const position = positions.get(grant.holderName) || {
+        holderName: grant.holderName,
+        granted: 0,
+        vested: 0,
+        unvested: 0,
+      }
+      position.granted += grant.grantedOptions
+      position.vested += vested
+      position.unvested += grant.grantedOptions - vested
+      positions.set(grant.holderName, position)
+    })
+
+  return Array.from(positions.values())
+}
+
+// Runs a whole model and returns the computed events plus the final cap table
+export const runModel = (model: ModelData, exchangeRates: ExchangeRates): ModelResult => {
+  const events = recalculateAllEvents(model.events, model.initialHolders, exchangeRates, model.variables)
+  const lastEvent = events[events.length - 1]
+
+  return {
+    events,
+    capTable: lastEvent ? lastEvent.capTable : getInitialCapTable(model.initialHolders),
+    totalShares: lastEvent ? lastEvent.totalSharesAfter : getInitialShares(model.initialHolders),
+  }
+}
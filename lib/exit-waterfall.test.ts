@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest"
+import { type FundingRound, recalculateAllEvents } from "@/lib/dilution-engine"
+import { calculateExitWaterfall, calculatePayoutSweep, getShareClassError } from "@/lib/exit-waterfall"
+import { EXCHANGE_RATES, fundingRound, holder } from "@/lib/test-fixtures"
+
+// Seed investor buys 20% for $1M
+const seedEvents = (terms: Partial<FundingRound>, laterRounds: FundingRound[] = []) =>
+  recalculateAllEvents(
+    [
+      fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000, ...terms }),
+      ...laterRounds,
+    ],
+    [holder("Founders", 10_000_000)],
+    EXCHANGE_RATES,
+  )
+
+const waterfallFor = (terms: Partial<FundingRound>, exitValue: number, laterRounds: FundingRound[] = []) => {
+  const events = seedEvents(terms, laterRounds)
+  const capTable = events[events.length - 1].capTable
+  return calculateExitWaterfall(capTable, events, exitValue, "USD", EXCHANGE_RATES)
+}
+
+const sweepFor = (terms: Partial<FundingRound>, laterRounds: FundingRound[] = []) => {
+  const events = seedEvents(terms, laterRounds)
+  const capTable = events[events.length - 1].capTable
+  return calculatePayoutSweep(capTable, events, 0, 10_000_000, 20, "USD", EXCHANGE_RATES)
+}
+
+const payoutOf = (result: ReturnType<typeof calculateExitWaterfall>, name: string) =>
+  result.payouts.filter((payout) => payout.name === name).reduce((sum, payout) => sum + payout.total, 0)
+
+describe("calculateExitWaterfall", () => {
+  it("pays a non-participating preference first on a small exit", () => {
+    const result = waterfallFor({}, 2_000_000)
+
+    expect(payoutOf(result, "seed Investor")).toBeCloseTo(1_000_000)
+    expect(payoutOf(result, "Founders")).toBeCloseTo(1_000_000)
+    expect(result.classes[0].converted).toBe(false)
+  })
+
+  it("converts to common when that pays more than the preference", () => {
+    const result = waterfallFor({}, 20_000_000)
+
+    expect(result.classes[0].converted).toBe(true)
+    expect(payoutOf(result, "seed Investor")).toBeCloseTo(4_000_000)
+    expect(payoutOf(result, "Founders")).toBeCloseTo(16_000_000)
+  })
+
+  it("applies the preference multiple", () => {
+    const result = waterfallFor({ liquidationPreferenceMultiple: 2 }, 3_000_000)
+
+    expect(payoutOf(result, "seed Investor")).toBeCloseTo(2_000_000)
+    expect(payoutOf(result, "Founders")).toBeCloseTo(1_000_000)
+  })
+
+  it("lets participating preferred take its preference and its share of the rest", () => {
+    const result = waterfallFor({ participating: true }, 6_000_000)
+
+    expect(payoutOf(result, "seed Investor")).toBeCloseTo(2_000_000)
+    expect(payoutOf(result, "Founders")).toBeCloseTo(4_000_000)
+  })
+
+  it("converts capped participating preferred once the cap binds", () => {
+    const capped = waterfallFor({ participating: true, participationCap: 2 }, 8_000_000)
+    const converting = waterfallFor({ participating: true, participationCap: 2 }, 100_000_000)
+
+    // 1M preference plus 20% of 7M would be 2.4M, above the 2x cap
+    expect(payoutOf(capped, "seed Investor")).toBeCloseTo(2_000_000)
+    expect(converting.classes[0].converted).toBe(true)
+    expect(payoutOf(converting, "seed Investor")).toBeCloseTo(20_000_000)
+  })
+
+  it("pays senior classes before junior ones", () => {
+    const seriesA = fundingRound({
+      id: "a",
+      order: 2,
+      manualValuation: 15_000_000,
+      investmentAmount: 5_000_000,
+      seniority: 2,
+    })
+    const result = waterfallFor({}, 5_500_000, [seriesA])
+
+    expect(payoutOf(result, "a Investor")).toBeCloseTo(5_000_000)
+    expect(payoutOf(result, "seed Investor")).toBeCloseTo(500_000)
+    expect(payoutOf(result, "Founders")).toBeCloseTo(0)
+  })
+
+  it("converts preferences into the exit currency", () => {
+    const events = recalculateAllEvents(
+      [fundingRound({ id: "seed", order: 1, manualValuation: 4_000_000, investmentAmount: 1_000_000 })],
+      [holder("Founders", 10_000_000)],
+      EXCHANGE_RATES,
+    )
+    const result = calculateExitWaterfall(events[0].capTable, events, 1_000_000, "GBP", EXCHANGE_RATES)
+
+    expect(payoutOf(result, "seed Investor")).toBeCloseTo(790_000)
+    expect(payoutOf(result, "Founders")).toBeCloseTo(210_000)
+  })
+})
+
+describe("calculatePayoutSweep", () => {
+  it("marks where the preference clears and where the class converts", () => {
+    const { breakpoints } = sweepFor({})
+
+    // Converting pays 20% of the exit, which beats the $1M preference above $5M
+    expect(breakpoints.map((breakpoint) => breakpoint.label)).toEqual([
+      "seed Preferred preference cleared",
+      "seed Preferred converts to common",
+    ])
+    expect(breakpoints[0].exitValue).toBe(1_000_000)
+    expect(breakpoints[1].exitValue).toBeCloseTo(5_000_000, -1)
+  })
+
+  it("clears senior preferences before junior ones", () => {
+    const seriesA = fundingRound({
+      id: "a",
+      order: 2,
+      manualValuation: 15_000_000,
+      investmentAmount: 5_000_000,
+      seniority: 2,
+    })
+    const cleared = sweepFor({}, [seriesA]).breakpoints.filter((breakpoint) => breakpoint.label.endsWith("cleared"))
+
+    expect(cleared).toEqual([
+      { exitValue: 5_000_000, label: "a Preferred preference cleared" },
+      { exitValue: 6_000_000, label: "seed Preferred preference cleared" },
+    ])
+  })
+
+  it("pays out the whole exit at every point, rising with the exit value", () => {
+    const { holders, points } = sweepFor({ participating: true, participationCap: 3 })
+
+    const totals = points.map((point) => holders.reduce((sum, holder) => sum + point[holder], 0))
+
+    points.forEach((point, index) => {
+      expect(totals[index]).toBeCloseTo(point.exitValue)
+      if (index === 0) return
+      expect(totals[index]).toBeGreaterThan(totals[index - 1])
+      holders.forEach((holder) => expect(point[holder]).toBeGreaterThanOrEqual(points[index - 1][holder] - 1e-6))
+    })
+  })
+})
+
+describe("share classes issued by several rounds", () => {
+  // A $1M extension buying more of the seed's class
+  const extension = (terms: Partial<FundingRound>) =>
+    fundingRound({
+      id: "ext",
+      order: 2,
+      manualValuation: 12_500_000,
+      investmentAmount: 1_000_000,
+      shareClassName: "seed Preferred",
+      ...terms,
+    })
+
+  it("treats an extension on the same terms as one class", () => {
+    const events = seedEvents({}, [extension({})])
+    const result = waterfallFor({}, 2_000_000, [extension({})])
+
+    expect(getShareClassError(events[1] as FundingRound, events)).toBe("")
+    expect(result.classes.map((shareClass) => [shareClass.name, shareClass.preference])).toEqual([
+      ["seed Preferred", 2_000_000],
+    ])
+    expect(payoutOf(result, "seed Investor")).toBeCloseTo(1_000_000)
+    expect(payoutOf(result, "ext Investor")).toBeCloseTo(1_000_000)
+    expect(sweepFor({}, [extension({})]).breakpoints[0]).toEqual({
+      exitValue: 2_000_000,
+      label: "seed Preferred preference cleared",
+    })
+  })
+
+  it("rejects a round reusing a class name on other terms, keeping the first round's terms", () => {
+    const events = seedEvents({}, [extension({ participating: true })])
+    const result = waterfallFor({}, 20_000_000, [extension({ participating: true })])
+
+    expect(getShareClassError(events[0] as FundingRound, events)).toBe("")
+    expect(getShareClassError(events[1] as FundingRound, events)).toBe(
+      "seed already issues seed Preferred on other terms; rename the class or match its terms",
+    )
+    // Non-participating like the seed, so the class converts: 1M of 13.5M shares
+    expect(result.classes.map((shareClass) => shareClass.converted)).toEqual([true])
+    expect(payoutOf(result, "ext Investor")).toBeCloseTo(20_000_000 / 13.5)
+  })
+})
@@ -0,0 +1,369 @@
+// Liquidation preference waterfall: distributes an exit value across the final
+// cap table according to each funding round's preferred share class terms.
+
+import {
+  type Currency,
+  type Event,
+  type ExchangeRates,
+  type FundingRound,
+  type Shareholder,
+  COMMON_SHARE_CLASS,
+  convertCurrency,
+  getShareClassName,
+} from "@/lib/dilution-engine"
+
+export interface ShareClassTerms {
+  name: string
+  currency: Currency
+  liquidationPreferenceMultiple: number
+  participating: boolean
+  participationCap: number
+  seniority: number
+}
+
+export interface WaterfallPayout {
+  name: string
+  shareClass: string
+  shares: number
+  preference: number
+  participation: number
+  total: number
+  // Share of the exit value, in percent
+  percentage: number
+}
+
+export interface ShareClassPayout {
+  name: string
+  shares: number
+  // Full preference entitlement, in the exit currency
+  preference: number
+  // Whether the class is better off converting to common than taking its preference
+  converted: boolean
+  total: number
+}
+
+export interface WaterfallResult {
+  exitValue: number
+  currency: Currency
+  payouts: WaterfallPayout[]
+  classes: ShareClassPayout[]
+}
+
+interface ClassState {
+  terms: ShareClassTerms
+  holders: Shareholder[]
+  shares: number
+  // Amounts in the exit currency
+  invested: number
+  preference: number
+}
+
+interface Distribution {
+  preferencePaid: Map<string, number>
+  participationPaid: Map<string, number>
+  commonPerShare: number
+}
+
+const toShareClassTerms = (round: FundingRound): ShareClassTerms => ({
+  name: getShareClassName(round),
+  currency: round.currency,
+  liquidationPreferenceMultiple: round.liquidationPreferenceMultiple ?? 1,
+  participating: !!round.participating,
+  participationCap: round.participationCap || 0,
+  seniority: round.seniority ?? 1,
+})
+
+const hasSameTerms = (a: ShareClassTerms, b: ShareClassTerms) =>
+  a.currency === b.currency &&
+  a.liquidationPreferenceMultiple === b.liquidationPreferenceMultiple &&
+  a.participating === b.participating &&
+  a.participationCap === b.participationCap &&
+  a.seniority === b.seniority
+
+// First round, by order, issuing a class: the one whose terms the class carries
+const getIssuingRound = (shareClass: string, events: Event[]): FundingRound | undefined =>
+  events
+    .filter((e): e is FundingRound => e.type === "funding" && getShareClassName(e) === shareClass)
+    .sort((a, b) => a.order - b.order)[0]
+
+// One set of terms per class. Later rounds can issue more of an earlier round's class, like an
+// extension, but only on the same terms: getShareClassError reports the rounds that don't.
+export const getShareClassTerms = (events: Event[]): ShareClassTerms[] => {
+  const shareClasses = new Set(
+    events.filter((e): e is FundingRound => e.type === "funding").map((round) => getShareClassName(round)),
+  )
+  return Array.from(shareClasses).map((shareClass) => toShareClassTerms(getIssuingRound(shareClass, events)!))
+}
+
+// Why a round can't issue its share class ("" when it can): an earlier round issues a class of
+// the same name on other terms
+export const getShareClassError = (round: FundingRound, events: Event[]): string => {
+  const shareClass = getShareClassName(round)
+  const issuingRound = getIssuingRound(shareClass, events)
+  if (!issuingRound || issuingRound.id === round.id) return ""
+  if (hasSameTerms(toShareClassTerms(issuingRound), toShareClassTerms(round))) return ""
+  return `${issuingRound.name} already issues ${shareClass} on other terms; rename the class or match its terms`
+}
+
+// Pays preferences by seniority (pari passu within a seniority level), then shares the
+// remainder pro rata between common, converted classes and participating classes,
+// clipping capped participating classes and redistributing the excess.
+const distribute = (classes: ClassState[], commonShares: number, exitValue: number, converted: Set<string>) => {
+  const preferencePaid = new Map<string, number>()
+  const participationPaid = new Map<string, number>()
+  let remaining = exitValue
+
+  const preferred = classes.filter((c) => !converted.has(c.terms.name))
+  const seniorities = Array.from(new Set(preferred.map((c) => c.terms.seniority))).sort((a, b) => b - a)
+
+  for (const seniority of seniorities) {
+    const group = preferred.filter((c) => c.terms.seniority === seniority)
+    const groupPreference = group.reduce((sum, c) => sum + c.preference, 0)
+    if (groupPreference <= 0) continue
+
+    const paid = Math.min(remaining, groupPreference)
+    group.forEach((c) => preferencePaid.set(c.terms.name, (paid * c.preference) / groupPreference))
+    remaining -= paid
+  }
+
+  let participants = classes.filter((c) => converted.has(c.terms.name) || c.terms.participating)
+  let commonPerShare = 0
+
+  while (remaining > 0) {
+    const activeShares = commonShares + participants.reduce((sum, c) => sum + c.shares, 0)
+    if (activeShares <= 0) break
+    const perShare = remaining / activeShares
+
+    const capped = participants.filter((c) => {
+      if (converted.has(c.terms.name) || c.terms.participationCap <= 0) return false
+      const headroom = c.invested * c.terms.participationCap - (preferencePaid.get(c.terms.name) || 0)
+      return c.shares * perShare > Math.max(0, headroom)
+    })
+
+    if (capped.length === 0) {
+      participants.forEach((c) => participationPaid.set(c.terms.name, c.shares * perShare))
+      commonPerShare = perShare
+      break
+    }
+
+    capped.forEach((c) => {
+      const headroom = Math.max(0, c.invested * c.terms.participationCap - (preferencePaid.get(c.terms.name) || 0))
+      participationPaid.set(c.terms.name, headroom)
+      remaining -= headroom
+    })
+    participants = participants.filter((c) => !capped.includes(c))
+  }
+
+  return { preferencePaid, participationPaid, commonPerShare }
+}
+
+const classTotal = (distribution: Distribution, name: string) =>
+  (distribution.preferencePaid.get(name) || 0) + (distribution.participationPaid.get(name) || 0)
+
+export const calculateExitWaterfall = (
+  capTable: Shareholder[],
+  events: Event[],
+  exitValue: number,
+  exitCurrency: Currency,
+  exchangeRates: ExchangeRates,
+): WaterfallResult => {
+  const termsByName = new Map(getShareClassTerms(events).map((terms) => [terms.name, terms]))
+  const classStates = new Map<string, ClassState>()
+  const commonHolders: Shareholder[] = []
+
+  capTable.forEach((holder) => {
+    const terms = holder.shareClass ? termsByName.get(holder.shareClass) : undefined
+    if (!terms) {
+      // Founders, option pools and anything without a known preferred class rank as common
+      commonHolders.push(holder)
+      return
+    }
+
+    const invested = convertCurrency(holder.investment || 0, terms.currency, exitCurrency, exchangeRates)
+    const state = classStates.get(terms.name) || { terms, holders: [], shares: 0, invested: 0, preference: 0 }
+    state.holders.push(holder)
+    state.shares += holder.shares
+    state.invested += invested
+    state.preference += invested * terms.liquidationPreferenceMultiple
+    classStates.set(terms.name, state)
+  })
+
+  const classes = Array.from(classStates.values())
+  const commonShares = commonHolders.reduce((sum, holder) => sum + holder.shares, 0)
+  const value = Math.max(0, exitValue)
+
+  // Each class converts to common when that pays more than its preference, given
+  // the other classes' choices; repeat until no class wants to switch
+  let converted = new Set<string>()
+  for (let iteration = 0; iteration <= classes.length; iteration++) {
+    let changed = false
+
+    classes.forEach((c) => {
+      // Uncapped participating preferred never gains by converting
+      if (c.terms.participating && c.terms.participationCap <= 0) return
+
+      const toggled = new Set(converted)
+      if (toggled.has(c.terms.name)) {
+        toggled.delete(c.terms.name)
+      } else {
+        toggled.add(c.terms.name)
+      }
+
+      const current = classTotal(distribute(classes, commonShares, value, converted), c.terms.name)
+      const alternative = classTotal(distribute(classes, commonShares, value, toggled), c.terms.name)
+      if (alternative > current + 0.01) {
+        converted = toggled
+        changed = true
+      }
+    })
+
+    if (!changed) break
+  }
+
+  const distribution = distribute(classes, commonShares, value, converted)
+  const payouts: WaterfallPayout[] = []
+
+  commonHolders.forEach((holder) => {
+    const total = holder.shares * distribution.commonPerShare
+    payouts.push({
+      name: holder.name,
+      shareClass: COMMON_SHARE_CLASS,
+      shares: holder.shares,
+      preference: 0,
+      participation: total,
+      total,
+      percentage: value > 0 ? (total / value) * 100 : 0,
+    })
+  })
+
+  classes.forEach((c) => {
+    const preferencePaid = distribution.preferencePaid.get(c.terms.name) || 0
+    const participationPaid = distribution.participationPaid.get(c.terms.name) || 0
+
+    c.holders.forEach((holder) => {
+      const invested = convertCurrency(holder.investment || 0, c.terms.currency, exitCurrency, exchangeRates)
+      // Preferences split by amount invested, participation by shares held
+      const preference = c.invested > 0 ? (preferencePaid * invested) / c.invested : 0
+      const participation = c.shares > 0 ? (participationPaid * holder.shares) / c.shares : 0
+      payouts.push({
+        name: holder.name,
+        shareClass: c.terms.name,
+        shares: holder.shares,
+        preference,
+        participation,
+        total: preference + participation,
+        percentage: value > 0 ? ((preference + participation) / value) * 100 : 0,
+      })
+    })
+  })
+
+  return {
+    exitValue: value,
+    currency: exitCurrency,
+    payouts,
+    classes: classes.map((c) => ({
+      name: c.terms.name,
+      shares: c.shares,
+      preference: c.preference,
+      converted: converted.has(c.terms.name),
+      total: classTotal(distribution, c.terms.name),
+    })),
+  }
+}
+
+export interface PayoutSweepPoint {
+  exitValue: number
+  [holder: string]: number
+}
+
+export interface PayoutBreakpoint {
+  exitValue: number
+  label: string
+}
+
+export interface PayoutSweep {
+  holders: string[]
+  points: PayoutSweepPoint[]
+  breakpoints: PayoutBreakpoint[]
+}
+
+const convertedClasses = (result: WaterfallResult) =>
+  new Set(result.classes.filter((shareClass) => shareClass.converted).map((shareClass) => shareClass.name))
+
+// Runs the waterfall across a range of exit values, one series per holder, and marks
+// where each seniority level's preferences are cleared and where classes start converting
+export const calculatePayoutSweep = (
+  capTable: Shareholder[],
+  events: Event[],
+  minExitValue: number,
+  maxExitValue: number,
+  steps: number,
+  exitCurrency: Currency,
+  exchangeRates: ExchangeRates,
+): PayoutSweep => {
+  const min = Math.max(0, Math.min(minExitValue, maxExitValue))
+  const max = Math.max(minExitValue, maxExitValue, 0)
+  const stepCount = Math.max(1, Math.round(steps))
+  const run = (exitValue: number) => calculateExitWaterfall(capTable, events, exitValue, exitCurrency, exchangeRates)
+
+  const holders = Array.from(new Set(capTable.map((holder) => holder.name)))
+  const points: PayoutSweepPoint[] = []
+  const results: WaterfallResult[] = []
+
+  for (let step = 0; step <= stepCount; step++) {
+    const exitValue = min + ((max - min) * step) / stepCount
+    const result = run(exitValue)
+    const point: PayoutSweepPoint = { exitValue }
+    holders.forEach((holder) => (point[holder] = 0))
+    // Holders can appear in several rows (one per class), sum them
+    result.payouts.forEach((payout) => (point[payout.name] = (point[payout.name] || 0) + payout.total))
+    points.push(point)
+    results.push(result)
+  }
+
+  const breakpoints: PayoutBreakpoint[] = []
+
+  // Preferences clear from the most senior level down
+  const preferenceByClass = new Map((results[0]?.classes || []).map((c) => [c.name, c.preference]))
+  const terms = getShareClassTerms(events).filter((t) => (preferenceByClass.get(t.name) || 0) > 0)
+  const seniorities = Array.from(new Set(terms.map((t) => t.seniority))).sort((a, b) => b - a)
+  let clearedAt = 0
+  seniorities.forEach((seniority) => {
+    const level = terms.filter((t) => t.seniority === seniority)
+    clearedAt += level.reduce((sum, t) => sum + (preferenceByClass.get(t.name) || 0), 0)
+    if (clearedAt >= min && clearedAt <= max) {
+      breakpoints.push({
+        exitValue: clearedAt,
+        label: `${level.map((t) => t.name).join(", ")} preference cleared`,
+      })
+    }
+  })
+
+  // Conversion thresholds, located by bisection between sweep points
+  for (let i = 1; i < results.length; i++) {
+    const before = convertedClasses(results[i - 1])
+    const after = convertedClasses(results[i])
+
+    after.forEach((name) => {
+      if (before.has(name)) return
+
+      let low = points[i - 1].exitValue
+      let high = points[i].exitValue
+      for (let iteration = 0; iteration < 30; iteration++) {
+        const mid = (low + high) / 2
+        if (convertedClasses(run(mid)).has(name)) {
+          high = mid
+        } else {
+          low = mid
+        }
+      }
+      breakpoints.push({ exitValue: high, label: `${name} converts to common` })
+    })
+  }
+
+  return {
+    holders,
+    points,
+    breakpoints: breakpoints.sort((a, b) => a.exitValue - b.exitValue),
+  }
+}
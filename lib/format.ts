@@ -0,0 +1,17 @@
+export const getCurrencySymbol = (currency: string) => {
+  return currency === "GBP" ? "£" : currency === "EUR" ? "€" : "$"
+}
+
+export const formatCurrency = (amount: number, currency: string) => {
+  return `${getCurrencySymbol(currency)}${amount.toLocaleString()}`
+}
+
+export const formatPricePerShare = (amount: number, currency: string) => {
+  const formatted = amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 })
+  return `${getCurrencySymbol(currency)}${formatted}`
+}
+
+export const formatCompactCurrency = (amount: number, currency: string) => {
+  const formatted = amount.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 })
+  return `${getCurrencySymbol(currency)}${formatted}`
+}
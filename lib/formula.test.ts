@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import {
+  type FormulaReference,
+  evaluateFormula,
+  getFormulaReferences,
+  parseFormula,
+  renameFormulaReferences,
+} from "@/lib/formula"
+
+const VALUES: Record<string, number> = { ARR: 2_000_000, "SeriesA.post": 10_000_000, Zero: 0 }
+
+const resolve = ({ name, property }: FormulaReference) => {
+  const key = property ? `${name}.${property}` : name
+  return key in VALUES ? { value: VALUES[key], error: "" } : { value: 0, error: `Unknown "${key}"` }
+}
+
+const evaluate = (text: string) => {
+  const { node, error } = parseFormula(text)
+  return node ? evaluateFormula(node, resolve) : { value: 0, error }
+}
+
+describe("parseFormula", () => {
+  it("rejects empty and malformed formulas", () => {
+    expect(parseFormula("  ").error).toBe("Formula is empty")
+    expect(parseFormula("1 +").error).toBe("Unexpected end of formula")
+    expect(parseFormula("(1 + 2").error).toBe('Expected ")"')
+    expect(parseFormula("1 $ 2").error).toBe('Unexpected "$"')
+    expect(parseFormula("SeriesA.").error).toBe('Expected a property after "SeriesA."')
+  })
+
+  it("lists variable and round references", () => {
+    const { node } = parseFormula("max(ARR * 10, SeriesA.post) - Discount")
+
+    expect(getFormulaReferences(node!)).toEqual([
+      { name: "ARR", property: "" },
+      { name: "SeriesA", property: "post" },
+      { name: "Discount", property: "" },
+    ])
+  })
+})
+
+describe("evaluateFormula", () => {
+  it("follows operator precedence", () => {
+    expect(evaluate("1 + 2 * 3").value).toBe(7)
+    expect(evaluate("(1 + 2) * 3").value).toBe(9)
+    expect(evaluate("2 ^ 3 ^ 2").value).toBe(512)
+    expect(evaluate("-2 ^ 2").value).toBe(-4)
+    expect(evaluate("10 - 4 - 3").value).toBe(3)
+    expect(evaluate("1.5e6 / .5").value).toBe(3_000_000)
+  })
+
+  it("evaluates references and min/max", () => {
+    expect(evaluate("ARR * 12").value).toBe(24_000_000)
+    expect(evaluate("SeriesA.post * 0.8").value).toBe(8_000_000)
+    expect(evaluate("min(ARR, SeriesA.post, 5)").value).toBe(5)
+    expect(evaluate("MAX(ARR, 1)").value).toBe(2_000_000)
+  })
+
+  it("reports reference errors and division by zero", () => {
+    expect(evaluate("Unknown + 1")).toEqual({ value: 0, error: 'Unknown "Unknown"' })
+    expect(evaluate("ARR / Zero")).toEqual({ value: 0, error: "Division by zero" })
+    expect(evaluate("10 ^ 400").error).toBe("Result is not a finite number")
+  })
+})
+
+describe("renameFormulaReferences", () => {
+  it("renames round references only", () => {
+    expect(renameFormulaReferences("SeriesA.post + SeriesA + Seed.SeriesA", "SeriesA", "Seed2")).toBe(
+      "Seed2.post + SeriesA + Seed.SeriesA",
+    )
+    expect(renameFormulaReferences("min(SeriesA . pre, XSeriesA.pre)", "SeriesA", "B")).toBe(
+      "min(B . pre, XSeriesA.pre)",
+    )
+  })
+})
@@ -0,0 +1,235 @@
+// Small arithmetic formula language for model inputs: numbers, named variables (`ARR`),
+// round properties (`SeriesA.post`), + - * / ^, parentheses and min/max. Formulas are
+// parsed into a tree rather than eval'd, so a loaded configuration can't run code.
+
+export interface FormulaReference {
+  name: string
+  // Round property after the dot; "" for a plain variable
+  property: string
+}
+
+export type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "reference"; reference: FormulaReference }
+  | { type: "negate"; operand: FormulaNode }
+  | { type: "binary"; operator: "+" | "-" | "*" | "/" | "^"; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: "min" | "max"; args: FormulaNode[] }
+
+export interface ParsedFormula {
+  node: FormulaNode | null
+  error: string
+}
+
+export interface FormulaValue {
+  value: number
+  error: string
+}
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "symbol"; value: string }
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const FUNCTIONS = ["min", "max"] as const
+
+export const isValidFormulaName = (name: string): boolean => NAME_PATTERN.test(name)
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < text.length) {
+    const char = text[index]
+    if (/\s/.test(char)) {
+      index++
+    } else if (/^(\d|\.\d)/.test(text.slice(index, index + 2))) {
+      const match = text.slice(index).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i)!
+      tokens.push({ type: "number", value: Number(match[0]) })
+      index += match[0].length
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = text.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/)!
+      tokens.push({ type: "name", value: match[0] })
+      index += match[0].length
+    } else if ("+-*/^(),.".includes(char)) {
+      tokens.push({ type: "symbol", value: char })
+      index++
+    } else {
+      throw new Error(`Unexpected "${char}"`)
+    }
+  }
+
+  return tokens
+}
+
+// Recursive descent, lowest precedence first: sums, products, powers (right associative),
+// unary minus, then numbers, references, calls and parentheses
+const parseTokens = (tokens: Token[]): FormulaNode => {
+  let position = 0
+
+  const peek = (value: string) => {
+    const token = tokens[position]
+    return token?.type === "symbol" && token.value === value
+  }
+  const expect = (value: string) => {
+    if (!peek(value)) throw new Error(`Expected "${value}"`)
+    position++
+  }
+
+  const parseSum = (): FormulaNode => {
+    let node = parseProduct()
+    while (peek("+") || peek("-")) {
+      const operator = tokens[position++].value as "+" | "-"
+      node = { type: "binary", operator, left: node, right: parseProduct() }
+    }
+    return node
+  }
+
+  const parseProduct = (): FormulaNode => {
+    let node = parseUnary()
+    while (peek("*") || peek("/")) {
+      const operator = tokens[position++].value as "*" | "/"
+      node = { type: "binary", operator, left: node, right: parseUnary() }
+    }
+    return node
+  }
+
+  const parseUnary = (): FormulaNode => {
+    if (peek("-")) {
+      position++
+      return { type: "negate", operand: parseUnary() }
+    }
+    if (peek("+")) {
+      position++
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  const parsePower = (): FormulaNode => {
+    const base = parseOperand()
+    if (!peek("^")) return base
+    position++
+    return { type: "binary", operator: "^", left: base, right: parseUnary() }
+  }
+
+  const parseOperand = (): FormulaNode => {
+    const token = tokens[position++]
+    if (!token) throw new Error("Unexpected end of formula")
+
+    if (token.type === "number") return { type: "number", value: token.value }
+
+    if (token.type === "name") {
+      const name = FUNCTIONS.find((f) => f === token.value.toLowerCase())
+      if (name && peek("(")) {
+        position++
+        const args = [parseSum()]
+        while (peek(",")) {
+          position++
+          args.push(parseSum())
+        }
+        expect(")")
+        return { type: "call", name, args }
+      }
+
+      let property = ""
+      if (peek(".")) {
+        position++
+        const propertyToken = tokens[position++]
+        if (propertyToken?.type !== "name") throw new Error(`Expected a property after "${token.value}."`)
+        property = propertyToken.value
+      }
+      return { type: "reference", reference: { name: token.value, property } }
+    }
+
+    if (token.value === "(") {
+      const node = parseSum()
+      expect(")")
+      return node
+    }
+
+    throw new Error(`Unexpected "${token.value}"`)
+  }
+
+  const node = parseSum()
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`)
+  return node
+}
+
+export const parseFormula = (text: string): ParsedFormula => {
+  if (!text.trim()) return { node: null, error: "Formula is empty" }
+
+  try {
+    return { node: parseTokens(tokenize(text)), error: "" }
+  } catch (error) {
+    return { node: null, error: (error as Error).message }
+  }
+}
+
+export const getFormulaReferences = (node: FormulaNode): FormulaReference[] => {
+  switch (node.type) {
+    case "number":
+      return []
+    case "reference":
+      return [node.reference]
+    case "negate":
+      return getFormulaReferences(node.operand)
+    case "binary":
+      return [...getFormulaReferences(node.left), ...getFormulaReferences(node.right)]
+    case "call":
+      return node.args.flatMap(getFormulaReferences)
+  }
+}
+
+// Points the round references `<oldName>.<property>` at newName, leaving the rest of the formula as typed
+export const renameFormulaReferences = (formula: string, oldName: string, newName: string): string =>
+  formula.replace(new RegExp(`(^|[^A-Za-z0-9_.])${oldName}(?=\\s*\\.)`, "g"), `$1${newName}`)
+
+// Evaluates a parsed formula; the first error from a reference, or a non-finite
+// intermediate result, is reported instead of a value
+export const evaluateFormula = (
+  node: FormulaNode,
+  resolve: (reference: FormulaReference) => FormulaValue,
+): FormulaValue => {
+  const evaluate = (current: FormulaNode): number => {
+    switch (current.type) {
+      case "number":
+        return current.value
+      case "reference": {
+        const { value, error } = resolve(current.reference)
+        if (error) throw new Error(error)
+        return value
+      }
+      case "negate":
+        return -evaluate(current.operand)
+      case "call": {
+        const values = current.args.map(evaluate)
+        return current.name === "min" ? Math.min(...values) : Math.max(...values)
+      }
+      case "binary": {
+        const left = evaluate(current.left)
+        const right = evaluate(current.right)
+        if (current.operator === "/" && right === 0) throw new Error("Division by zero")
+        const value =
+          current.operator === "+"
+            ? left + right
+            : current.operator === "-"
+              ? left - right
+              : current.operator === "*"
+                ? left * right
+                : current.operator === "/"
+                  ? left / right
+                  : Math.pow(left, right)
+        if (!isFinite(value)) throw new Error("Result is not a finite number")
+        return value
+      }
+    }
+  }
+
+  try {
+    return { value: evaluate(node), error: "" }
+  } catch (error) {
+    return { value: 0, error: (error as Error).message }
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { type FundingRound, recalculateAllEvents } from "@/lib/dilution-engine"
+import { type GoalSeekInput, TEAM_TARGET, solveGoalSeek } from "@/lib/goal-seek"
+import { EXCHANGE_RATES, fundingRound, holder, optionPool } from "@/lib/test-fixtures"
+
+const FOUNDERS = [holder("Alice", 8_000_000), holder("Bob", 2_000_000)]
+
+const modelWith = (round: FundingRound) => ({
+  initialHolders: FOUNDERS,
+  events: recalculateAllEvents([round], FOUNDERS, EXCHANGE_RATES),
+  variables: [],
+})
+
+const solveFor = (round: FundingRound, input: GoalSeekInput, targetHolder: string, targetPercentage: number) =>
+  solveGoalSeek(modelWith(round), EXCHANGE_RATES, {
+    targetEventId: "",
+    targetHolder,
+    targetPercentage,
+    basis: "fully-diluted",
+    inputEventId: round.id,
+    input,
+  })
+
+// Founders hold 80% after a $2M raise at a $10M valuation
+const postMoneyRound = fundingRound({
+  id: "a",
+  order: 1,
+  valuationType: "post-money",
+  manualValuation: 10_000_000,
+  investmentAmount: 2_000_000,
+})
+const preMoneyRound = fundingRound({ id: "a", order: 1, manualValuation: 8_000_000, investmentAmount: 2_000_000 })
+
+describe("solveGoalSeek", () => {
+  it("solves a post-money round's valuation", () => {
+    const result = solveFor(postMoneyRound, "valuation", TEAM_TARGET, 70)
+
+    expect(result.error).toBe("")
+    expect(result.value).toBeCloseTo(6_666_667, -1)
+    expect(result.achievedPercentage).toBeCloseTo(70, 4)
+  })
+
+  it("solves a post-money round's investment", () => {
+    const result = solveFor(postMoneyRound, "investment", TEAM_TARGET, 70)
+
+    expect(result.error).toBe("")
+    expect(result.value).toBeCloseTo(3_000_000, -1)
+  })
+
+  it("solves a pre-money round's valuation and investment", () => {
+    const valuation = solveFor(preMoneyRound, "valuation", "a Investor", 25)
+    const investment = solveFor(preMoneyRound, "investment", "Alice", 40)
+
+    expect(valuation.value).toBeCloseTo(6_000_000, -1)
+    expect(investment.value).toBeCloseTo(8_000_000, -1)
+  })
+
+  it("solves a funding round's pool top-up on either valuation type", () => {
+    // The investor keeps 20% either way; Alice holds 80% of what the pool leaves the existing holders
+    const preMoney = solveFor(preMoneyRound, "pool-percentage", "Alice", 48)
+    const postMoney = solveFor(postMoneyRound, "pool-percentage", "Alice", 56)
+
+    expect(preMoney.error).toBe("")
+    expect(preMoney.value).toBeCloseTo(20, 1)
+    expect(postMoney.value).toBeCloseTo(10, 1)
+  })
+
+  it("reports targets outside the input's reach", () => {
+    const result = solveFor(postMoneyRound, "valuation", "a Investor", 100)
+
+    expect(result.error).toMatch(/^Not reachable with this input, which only gives 0\.0% to 100\.0%/)
+  })
+
+  it("solves an option pool's size", () => {
+    const pool = optionPool({ id: "pool", order: 1 })
+    const events = recalculateAllEvents([pool], FOUNDERS, EXCHANGE_RATES)
+    const result = solveGoalSeek({ initialHolders: FOUNDERS, events, variables: [] }, EXCHANGE_RATES, {
+      targetEventId: "",
+      targetHolder: "Alice",
+      targetPercentage: 60,
+      basis: "fully-diluted",
+      inputEventId: "pool",
+      input: "pool-percentage",
+    })
+
+    expect(result.value).toBeCloseTo(25, 1)
+  })
+})
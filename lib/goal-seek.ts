@@ -0,0 +1,203 @@
+// Goal seek: finds the value of one model input (a round's valuation, investment amount
+// or pool size) that gives a holder, or the team, a target ownership at a given event.
+
+import {
+  type CapTableBasis,
+  type Event,
+  type ExchangeRates,
+  type ModelData,
+  type Shareholder,
+  TEAM_ROLES,
+  getCapTableOnBasis,
+  getInitialCapTable,
+  recalculateAllEvents,
+} from "@/lib/dilution-engine"
+
+export type GoalSeekInput = "valuation" | "investment" | "pool-percentage"
+
+export const GOAL_SEEK_INPUT_LABELS: Record<GoalSeekInput, string> = {
+  valuation: "Valuation",
+  investment: "Investment Amount",
+  "pool-percentage": "Option Pool %",
+}
+
+// Stands in for a holder name to target founders, employees, advisors and option pools together
+export const TEAM_TARGET = "The Team"
+
+export interface GoalSeekRequest {
+  // Event whose cap table is measured; "" for the final cap table
+  targetEventId: string
+  // Holder name, or TEAM_TARGET
+  targetHolder: string
+  targetPercentage: number
+  basis: CapTableBasis
+  inputEventId: string
+  input: GoalSeekInput
+}
+
+export interface GoalSeekResult {
+  value: number
+  // Ownership the solved value actually gives, in percent
+  achievedPercentage: number
+  error: string
+}
+
+const SOLVER_ITERATIONS = 80
+
+// Valuations and investment amounts are searched on a log scale between these bounds
+const AMOUNT_RANGE = { min: 1, max: 1e13 }
+const PERCENTAGE_RANGE = { min: 0, max: 99 }
+// Keeps the search just inside the bounds where a round stops issuing shares
+const BOUND_MARGIN = 1e-6
+
+// A round only prices when the investor gets under 100%, and only tops up its pool while
+// investor plus pool stay under 100%; outside that it leaves the cap table unchanged, which
+// would break the bisection. Investor share is investment / post-money.
+const getSearchRange = (event: Event, input: GoalSeekInput): { min: number; max: number } => {
+  if (event.type !== "funding") return PERCENTAGE_RANGE
+
+  const investment = event.investmentAmount
+  const valuation = event.calculatedValuation
+  const poolFraction = Math.min(event.targetPoolPercentage || 0, PERCENTAGE_RANGE.max) / 100
+  const preMoney = event.valuationType === "pre-money"
+
+  if (input === "valuation") {
+    const minPostMoney = investment / (1 - poolFraction)
+    const minValuation = preMoney ? minPostMoney - investment : minPostMoney
+    return { min: Math.max(AMOUNT_RANGE.min, minValuation * (1 + BOUND_MARGIN)), max: AMOUNT_RANGE.max }
+  }
+  if (input === "investment") {
+    // Post-money: I < V(1 - p). Pre-money: I / (V + I) < 1 - p, so I < V(1 - p) / p
+    const maxInvestment = preMoney
+      ? poolFraction > 0
+        ? (valuation * (1 - poolFraction)) / poolFraction
+        : AMOUNT_RANGE.max
+      : valuation * (1 - poolFraction)
+    return { min: AMOUNT_RANGE.min, max: Math.min(AMOUNT_RANGE.max, maxInvestment * (1 - BOUND_MARGIN)) }
+  }
+
+  const investorPercentage = event.postMoneyValuation > 0 ? (investment / event.postMoneyValuation) * 100 : 100
+  return {
+    min: PERCENTAGE_RANGE.min,
+    max: Math.min(PERCENTAGE_RANGE.max, (100 - investorPercentage) * (1 - BOUND_MARGIN)),
+  }
+}
+
+// Inputs each event type can be solved for
+export const getGoalSeekInputs = (event: Event): GoalSeekInput[] => {
+  if (event.type === "funding") return ["valuation", "investment", "pool-percentage"]
+  if (event.type === "option-pool") return ["pool-percentage"]
+  return []
+}
+
+// Sets an input on its event. Formula and reference inputs are replaced by the entered value,
+// since that is what the solver varies.
+export const applyGoalSeekInput = (
+  events: Event[],
+  inputEventId: string,
+  input: GoalSeekInput,
+  value: number,
+): Event[] =>
+  events.map((event) => {
+    if (event.id !== inputEventId) return event
+
+    if (event.type === "funding") {
+      if (input === "valuation") return { ...event, valuationSource: "manual", manualValuation: value }
+      if (input === "investment") return { ...event, investmentSource: "manual", investmentAmount: value }
+      return { ...event, targetPoolPercentage: value }
+    }
+    if (event.type === "option-pool" && input === "pool-percentage") {
+      return { ...event, percentage: value }
+    }
+    return event
+  })
+
+// Current value of an input, the starting point shown before solving
+export const getGoalSeekInputValue = (event: Event | undefined, input: GoalSeekInput): number => {
+  if (event?.type === "funding") {
+    if (input === "valuation") return event.calculatedValuation
+    if (input === "investment") return event.investmentAmount
+    return event.targetPoolPercentage
+  }
+  if (event?.type === "option-pool") return event.percentage
+  return 0
+}
+
+export const isTargetHolder = (shareholder: Shareholder, holder: string): boolean =>
+  holder === TEAM_TARGET
+    ? (!!shareholder.role && TEAM_ROLES.includes(shareholder.role)) || !!shareholder.optionPool
+    : shareholder.name === holder
+
+export const getOwnershipPercentage = (capTable: Shareholder[], holder: string, basis: CapTableBasis): number =>
+  getCapTableOnBasis(capTable, basis)
+    .filter((shareholder) => isTargetHolder(shareholder, holder))
+    .reduce((sum, shareholder) => sum + shareholder.percentage, 0)
+
+// Bisects on the input until the target ownership is hit. Ownership moves one way as each
+// input grows (more valuation dilutes existing holders less, more investment or pool more)
+// within the range where the round prices, so a target between the ownership at the two ends
+// of that range has a single solution.
+export const solveGoalSeek = (
+  model: ModelData,
+  exchangeRates: ExchangeRates,
+  request: GoalSeekRequest,
+): GoalSeekResult => {
+  const inputEvent = model.events.find((e) => e.id === request.inputEventId)
+  if (!inputEvent || !getGoalSeekInputs(inputEvent).includes(request.input)) {
+    return { value: 0, achievedPercentage: 0, error: "Choose an input to solve for" }
+  }
+  if (!request.targetHolder) {
+    return { value: 0, achievedPercentage: 0, error: "Choose a holder to target" }
+  }
+
+  const ownershipAt = (value: number) => {
+    const events = recalculateAllEvents(
+      applyGoalSeekInput(model.events, request.inputEventId, request.input, value),
+      model.initialHolders,
+      exchangeRates,
+      model.variables,
+    )
+    const targetEvent = request.targetEventId
+      ? events.find((e) => e.id === request.targetEventId)
+      : events[events.length - 1]
+    const capTable = targetEvent ? targetEvent.capTable : getInitialCapTable(model.initialHolders)
+    return getOwnershipPercentage(capTable, request.targetHolder, request.basis)
+  }
+
+  const logScale = request.input !== "pool-percentage"
+  const range = getSearchRange(inputEvent, request.input)
+  if (range.max <= range.min) {
+    return { value: 0, achievedPercentage: 0, error: "No value of this input prices the round with its other terms" }
+  }
+  const toSearch = (value: number) => (logScale ? Math.log(value) : value)
+  const fromSearch = (position: number) => (logScale ? Math.exp(position) : position)
+
+  let low = toSearch(range.min)
+  let high = toSearch(range.max)
+  const lowOwnership = ownershipAt(fromSearch(low))
+  const highOwnership = ownershipAt(fromSearch(high))
+  const minOwnership = Math.min(lowOwnership, highOwnership)
+  const maxOwnership = Math.max(lowOwnership, highOwnership)
+
+  if (request.targetPercentage < minOwnership || request.targetPercentage > maxOwnership) {
+    const reachable = `${minOwnership.toFixed(1)}% to ${maxOwnership.toFixed(1)}%`
+    return { value: 0, achievedPercentage: 0, error: `Not reachable with this input, which only gives ${reachable}` }
+  }
+
+  // Which end of the range sits below the target decides which half to keep
+  const increasing = highOwnership >= lowOwnership
+  for (let iteration = 0; iteration < SOLVER_ITERATIONS; iteration++) {
+    const middle = (low + high) / 2
+    if ((ownershipAt(fromSearch(middle)) < request.targetPercentage) === increasing) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+
+  // Whole currency units, or hundredths of a percent for pools
+  const solved = fromSearch((low + high) / 2)
+  const value = logScale ? Math.round(solved) : Math.round(solved * 100) / 100
+
+  return { value, achievedPercentage: ownershipAt(value), error: "" }
+}
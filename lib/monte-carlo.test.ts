@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+import type { InputDistribution, ModelData } from "@/lib/dilution-engine"
+import {
+  type MonteCarloRequest,
+  createRandom,
+  hasDistributions,
+  runMonteCarlo,
+  sampleDistribution,
+} from "@/lib/monte-carlo"
+import { EXCHANGE_RATES, fundingRound, holder } from "@/lib/test-fixtures"
+
+const FOUNDERS = [holder("Founders", 10_000_000)]
+
+const distribution = (type: InputDistribution["type"], low: number, high: number, mode = 0): InputDistribution => ({
+  type,
+  low,
+  high,
+  mode,
+})
+
+const samples = (range: InputDistribution, count = 2_000, seed = 7) => {
+  const random = createRandom(seed)
+  return Array.from({ length: count }, () => sampleDistribution(range, random))
+}
+
+// A $2M raise at a pre-money valuation anywhere from $4M to $16M
+const modelWith = (valuationDistribution: InputDistribution | null): ModelData => ({
+  initialHolders: FOUNDERS,
+  events: [
+    fundingRound({ id: "a", order: 1, manualValuation: 8_000_000, investmentAmount: 2_000_000, valuationDistribution }),
+  ],
+  variables: [],
+})
+
+const request = (model: ModelData, seed = 42): MonteCarloRequest => ({
+  model,
+  exchangeRates: EXCHANGE_RATES,
+  runs: 200,
+  seed,
+  basis: "fully-diluted",
+  exitValue: 50_000_000,
+  exitCurrency: "USD",
+})
+
+const foundersOf = (model: ModelData, seed?: number) =>
+  runMonteCarlo(request(model, seed)).holders.find((result) => result.name === "Founders")!
+
+describe("createRandom", () => {
+  it("gives the same sequence for the same seed", () => {
+    const first = createRandom(123)
+    const second = createRandom(123)
+    const sequence = Array.from({ length: 5 }, () => first())
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence)
+    expect(createRandom(124)()).not.toBe(sequence[0])
+  })
+
+  it("stays in [0, 1)", () => {
+    const random = createRandom(1)
+    const values = Array.from({ length: 1_000 }, () => random())
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0)
+    expect(Math.max(...values)).toBeLessThan(1)
+  })
+})
+
+describe("sampleDistribution", () => {
+  it("keeps uniform samples within the range, whichever way round it's given", () => {
+    const values = [...samples(distribution("uniform", 4, 16)), ...samples(distribution("uniform", 16, 4))]
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(4)
+    expect(Math.max(...values)).toBeLessThanOrEqual(16)
+  })
+
+  it("keeps triangular samples within the range and clusters them around the mode", () => {
+    const values = samples(distribution("triangular", 4, 16, 6))
+    const belowMode = values.filter((value) => value < 6).length / values.length
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(4)
+    expect(Math.max(...values)).toBeLessThanOrEqual(16)
+    // P(X < mode) = (mode - low) / (high - low)
+    expect(belowMode).toBeCloseTo(2 / 12, 1)
+    expect(samples(distribution("triangular", 5, 5, 9))).toContain(5)
+  })
+
+  it("fits lognormal samples to the P10-P90 range", () => {
+    const values = samples(distribution("lognormal", 4, 16)).sort((a, b) => a - b)
+    const inRange = values.filter((value) => value >= 4 && value <= 16).length / values.length
+
+    expect(Math.min(...values)).toBeGreaterThan(0)
+    expect(inRange).toBeCloseTo(0.8, 1)
+    expect(values[values.length / 2]).toBeCloseTo(8, 0)
+    expect(sampleDistribution(distribution("lognormal", 0, 16), createRandom(1))).toBe(16)
+  })
+})
+
+describe("runMonteCarlo", () => {
+  const uncertain = modelWith(distribution("uniform", 4_000_000, 16_000_000))
+
+  it("gives the same percentiles for the same seed", () => {
+    expect(runMonteCarlo(request(uncertain))).toEqual(runMonteCarlo(request(uncertain)))
+    expect(foundersOf(uncertain, 43).ownership).not.toEqual(foundersOf(uncertain).ownership)
+  })
+
+  it("spreads the outcome over the sampled range", () => {
+    const { ownership } = foundersOf(uncertain)
+
+    expect(ownership.p10).toBeGreaterThanOrEqual((4 / 6) * 100)
+    expect(ownership.p90).toBeLessThanOrEqual((16 / 18) * 100)
+    expect(ownership.p10).toBeLessThan(ownership.p50)
+    expect(ownership.p50).toBeLessThan(ownership.p90)
+  })
+
+  it("collapses to the model's own outcome without distributions", () => {
+    const certain = modelWith(null)
+    const { ownership, payout } = foundersOf(certain)
+
+    expect(hasDistributions(certain)).toBe(false)
+    expect(hasDistributions(uncertain)).toBe(true)
+    expect(ownership).toEqual({ p10: 80, p50: 80, p90: 80 })
+    expect(payout.p50).toBeCloseTo(40_000_000, 0)
+  })
+})
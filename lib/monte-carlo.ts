@@ -0,0 +1,173 @@
+// Monte Carlo simulation: samples uncertain round inputs from their distributions, reruns the
+// model for each sample and summarises final ownership and exit payout per holder as percentiles.
+// Runs from a seed, so the same inputs always give the same bands.
+
+import {
+  type CapTableBasis,
+  type Currency,
+  type ExchangeRates,
+  type FundingRound,
+  type InputDistribution,
+  type ModelData,
+  getCapTableOnBasis,
+  getInitialCapTable,
+  recalculateAllEvents,
+} from "@/lib/dilution-engine"
+import { calculateExitWaterfall } from "@/lib/exit-waterfall"
+import { type GoalSeekInput, applyGoalSeekInput } from "@/lib/goal-seek"
+
+export interface MonteCarloRequest {
+  model: ModelData
+  exchangeRates: ExchangeRates
+  runs: number
+  seed: number
+  basis: CapTableBasis
+  exitValue: number
+  exitCurrency: Currency
+}
+
+export interface PercentileBand {
+  p10: number
+  p50: number
+  p90: number
+}
+
+export interface MonteCarloHolderResult {
+  name: string
+  // Final ownership in percent
+  ownership: PercentileBand
+  // Exit payout in the exit currency
+  payout: PercentileBand
+}
+
+export interface MonteCarloResult {
+  runs: number
+  holders: MonteCarloHolderResult[]
+}
+
+// Messages posted back by the simulation worker
+export type MonteCarloWorkerMessage =
+  | { type: "progress"; completedRuns: number }
+  | { type: "result"; result: MonteCarloResult }
+
+export const MAX_MONTE_CARLO_RUNS = 10000
+
+// 90th percentile of the standard normal, used to fit lognormals to a P10-P90 range
+const NORMAL_P90 = 1.2815515655446004
+
+// Mulberry32: a small seedable generator, good enough for sampling (Math.random can't be seeded)
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const sampleDistribution = (distribution: InputDistribution, random: () => number): number => {
+  const low = Math.min(distribution.low, distribution.high)
+  const high = Math.max(distribution.low, distribution.high)
+
+  if (distribution.type === "uniform") {
+    return low + (high - low) * random()
+  }
+
+  if (distribution.type === "triangular") {
+    if (high === low) return low
+    const mode = Math.min(high, Math.max(low, distribution.mode))
+    const u = random()
+    const split = (mode - low) / (high - low)
+    return u < split
+      ? low + Math.sqrt(u * (high - low) * (mode - low))
+      : high - Math.sqrt((1 - u) * (high - low) * (high - mode))
+  }
+
+  // Lognormal needs a positive range; the median sits at the geometric mean of P10 and P90
+  if (low <= 0) return high
+  const mu = (Math.log(low) + Math.log(high)) / 2
+  const sigma = (Math.log(high) - Math.log(low)) / (2 * NORMAL_P90)
+  // Box-Muller, with 1 - u to keep the logarithm finite
+  const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+  return Math.exp(mu + sigma * normal)
+}
+
+interface RoundDistribution {
+  input: GoalSeekInput
+  distribution: (round: FundingRound) => InputDistribution | null
+}
+
+const ROUND_DISTRIBUTIONS: RoundDistribution[] = [
+  { input: "valuation", distribution: (round) => round.valuationDistribution },
+  { input: "investment", distribution: (round) => round.investmentDistribution },
+  { input: "pool-percentage", distribution: (round) => round.poolDistribution },
+]
+
+export const hasDistributions = (model: ModelData): boolean =>
+  model.events.some(
+    (event) => event.type === "funding" && ROUND_DISTRIBUTIONS.some(({ distribution }) => distribution(event)),
+  )
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], fraction: number): number =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))] : 0
+
+const toBand = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) }
+}
+
+export const runMonteCarlo = (
+  request: MonteCarloRequest,
+  onProgress?: (completedRuns: number) => void,
+): MonteCarloResult => {
+  const { model, exchangeRates, basis, exitValue, exitCurrency } = request
+  const runs = Math.min(MAX_MONTE_CARLO_RUNS, Math.max(1, Math.round(request.runs)))
+  const random = createRandom(request.seed)
+
+  // Per holder, one ownership and payout entry per run (0 in runs where the holder doesn't appear)
+  const ownership = new Map<string, number[]>()
+  const payout = new Map<string, number[]>()
+  const record = (values: Map<string, number[]>, name: string, run: number, amount: number) => {
+    if (!values.has(name)) values.set(name, new Array(runs).fill(0))
+    values.get(name)![run] += amount
+  }
+
+  for (let run = 0; run < runs; run++) {
+    let events = model.events
+    events.forEach((event) => {
+      if (event.type !== "funding") return
+      ROUND_DISTRIBUTIONS.forEach(({ input, distribution }) => {
+        const range = distribution(event)
+        if (!range) return
+        const value = sampleDistribution(range, random)
+        events = applyGoalSeekInput(events, event.id, input, input === "pool-percentage" ? Math.min(99, value) : value)
+      })
+    })
+
+    const recalculated = recalculateAllEvents(events, model.initialHolders, exchangeRates, model.variables)
+    const finalEvent = recalculated[recalculated.length - 1]
+    const capTable = finalEvent ? finalEvent.capTable : getInitialCapTable(model.initialHolders)
+
+    getCapTableOnBasis(capTable, basis).forEach((shareholder) =>
+      record(ownership, shareholder.name, run, shareholder.percentage),
+    )
+    calculateExitWaterfall(capTable, recalculated, exitValue, exitCurrency, exchangeRates).payouts.forEach((entry) =>
+      record(payout, entry.name, run, entry.total),
+    )
+
+    if (onProgress && (run + 1) % 100 === 0) onProgress(run + 1)
+  }
+
+  const names = Array.from(new Set([...Array.from(ownership.keys()), ...Array.from(payout.keys())]))
+  return {
+    runs,
+    holders: names.map((name) => ({
+      name,
+      ownership: toBand(ownership.get(name) || new Array(runs).fill(0)),
+      payout: toBand(payout.get(name) || new Array(runs).fill(0)),
+    })),
+  }
+}
@@ -0,0 +1,11 @@
+// Runs the Monte Carlo simulation off the main thread. Posts progress every hundred runs,
+// then the result.
+
+import { type MonteCarloRequest, type MonteCarloWorkerMessage, runMonteCarlo } from "@/lib/monte-carlo"
+
+const post = (message: MonteCarloWorkerMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const result = runMonteCarlo(event.data, (completedRuns) => post({ type: "progress", completedRuns }))
+  post({ type: "result", result })
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { recalculateAllEvents } from "@/lib/dilution-engine"
+import { TEAM_TARGET } from "@/lib/goal-seek"
+import { getOwnershipHistory } from "@/lib/ownership-history"
+import { EXCHANGE_RATES, fundingRound, holder, optionPool } from "@/lib/test-fixtures"
+
+const HOLDERS = [holder("Alice", 8_000_000), holder("Angel", 2_000_000, "angel")]
+
+// A 20% pool, then a €2.5M raise at a €10M pre-money valuation
+const EVENTS = recalculateAllEvents(
+  [
+    optionPool({ id: "pool", order: 1, name: "ESOP", percentage: 20 }),
+    fundingRound({ id: "seed", order: 2, currency: "EUR", manualValuation: 10_000_000, investmentAmount: 2_500_000 }),
+  ],
+  HOLDERS,
+  EXCHANGE_RATES,
+)
+
+const historyFor = (basis: "issued" | "fully-diluted", groupTeam: boolean) =>
+  getOwnershipHistory(HOLDERS, EVENTS, basis, groupTeam, "USD", EXCHANGE_RATES)
+
+describe("getOwnershipHistory", () => {
+  it("starts from the initial holders and adds a point per event", () => {
+    const { holders, points } = historyFor("fully-diluted", false)
+
+    expect(points.map((point) => point.eventId)).toEqual(["", "pool", "seed"])
+    expect(points[0].holders.Alice).toEqual({ shares: 8_000_000, percentage: 80 })
+    expect(holders).toEqual(["Alice", "Angel", "ESOP", "seed Investor"])
+  })
+
+  it("gives the post-money valuation in the base currency for funding rounds only", () => {
+    const [start, pool, seed] = historyFor("fully-diluted", false).points
+
+    expect(start.postMoneyValuation).toBeNull()
+    expect(pool.postMoneyValuation).toBeNull()
+    expect(seed.postMoneyValuation).toBeCloseTo(12_500_000 * EXCHANGE_RATES["EUR-USD"])
+  })
+
+  it("groups founders, employees, advisors and the pool as the team", () => {
+    const { holders, points } = historyFor("fully-diluted", true)
+    const seed = points[2].holders
+
+    expect(holders).toEqual([TEAM_TARGET, "Angel", "seed Investor"])
+    expect(seed[TEAM_TARGET].shares).toBe(10_500_000)
+    expect(seed[TEAM_TARGET].percentage).toBeCloseTo((10.5 / 15.625) * 100)
+    expect(seed.Angel.percentage).toBeCloseTo(12.8)
+  })
+
+  it("leaves the unallocated pool out on the issued basis", () => {
+    const seed = historyFor("issued", false).points[2].holders
+
+    expect(seed.ESOP).toBeUndefined()
+    expect(seed.Alice.percentage).toBeCloseTo((8 / 13.125) * 100)
+    expect(seed["seed Investor"].percentage).toBeCloseTo((3.125 / 13.125) * 100)
+  })
+})
@@ -0,0 +1,70 @@
+// Ownership history: each holder's share of the company after every event, for the timeline chart
+
+import {
+  type CapTableBasis,
+  type Currency,
+  type Event,
+  type ExchangeRates,
+  type InitialHolder,
+  type Shareholder,
+  convertCurrency,
+  getCapTableOnBasis,
+  getInitialCapTable,
+} from "@/lib/dilution-engine"
+import { TEAM_TARGET, isTargetHolder } from "@/lib/goal-seek"
+
+export interface HolderPosition {
+  shares: number
+  // Ownership in percent, on the requested basis
+  percentage: number
+}
+
+export interface OwnershipPoint {
+  // "" for the starting cap table
+  eventId: string
+  name: string
+  // Post-money valuation of a funding round in the base currency (null after other events)
+  postMoneyValuation: number | null
+  holders: Record<string, HolderPosition>
+}
+
+export interface OwnershipHistory {
+  // Holder (or group) names in the order they first appear
+  holders: string[]
+  points: OwnershipPoint[]
+}
+
+export const getOwnershipHistory = (
+  initialHolders: InitialHolder[],
+  events: Event[],
+  basis: CapTableBasis,
+  groupTeam: boolean,
+  baseCurrency: Currency,
+  exchangeRates: ExchangeRates,
+): OwnershipHistory => {
+  const holders: string[] = []
+
+  const toPoint = (eventId: string, name: string, capTable: Shareholder[], postMoneyValuation: number | null) => {
+    const positions: Record<string, HolderPosition> = {}
+    // Rows are per holder and share class, so positions are totalled per name (or for the whole team)
+    getCapTableOnBasis(capTable, basis).forEach((shareholder) => {
+      const holder = groupTeam && isTargetHolder(shareholder, TEAM_TARGET) ? TEAM_TARGET : shareholder.name
+      if (!holders.includes(holder)) holders.push(holder)
+      const position = positions[holder] || (positions[holder] = { shares: 0, percentage: 0 })
+      position.shares += shareholder.shares
+      position.percentage += shareholder.percentage
+    })
+    return { eventId, name, postMoneyValuation, holders: positions }
+  }
+
+  const points = [toPoint("", "Start", getInitialCapTable(initialHolders), null)]
+  events.forEach((event) => {
+    const postMoneyValuation =
+      event.type === "funding"
+        ? convertCurrency(event.postMoneyValuation, event.currency, baseCurrency, exchangeRates)
+        : null
+    points.push(toPoint(event.id, event.name, event.capTable, postMoneyValuation))
+  })
+
+  return { holders, points }
+}
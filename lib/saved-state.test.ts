@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_PRIMARY_EXCHANGE_RATES, recalculateAllEvents } from "@/lib/dilution-engine"
+import { restoreSavedState } from "@/lib/saved-state"
+import { EXCHANGE_RATES, fundingRound, holder, optionPool } from "@/lib/test-fixtures"
+
+const FOUNDERS = [holder("Founders", 10_000_000)]
+
+// Saved events carry no cap table
+const { capTable, ...seed } = fundingRound({
+  id: "seed",
+  order: 1,
+  name: "Seed",
+  manualValuation: 4_000_000,
+  investmentAmount: 1_000_000,
+})
+
+const savedScenario = (id: string, name: string) => ({
+  id,
+  name,
+  initialHolders: FOUNDERS,
+  events: [seed],
+  variables: [],
+})
+
+describe("restoreSavedState", () => {
+  it("restores every scenario of the current format", () => {
+    const restored = restoreSavedState({
+      comparisonMode: true,
+      exchangeRates: { "USD-GBP": 0.8, "USD-EUR": 0.9 },
+      scenarios: [savedScenario("base", "Base"), savedScenario("upside", "Upside"), savedScenario("down", "Down")],
+      activeScenarioId: "upside",
+      comparedScenarioIds: ["base", "down"],
+    })
+
+    expect(restored.exchangeRates).toEqual({ "USD-GBP": 0.8, "USD-EUR": 0.9 })
+    expect(restored.scenarios.map((s) => [s.id, s.name])).toEqual([
+      ["base", "Base"],
+      ["upside", "Upside"],
+      ["down", "Down"],
+    ])
+    expect(restored.scenarios[0].initialHolders).toEqual(FOUNDERS)
+    expect(restored.scenarios[0].events[0]).toMatchObject({ id: "seed", capTable: [] })
+    expect(restored.activeScenarioId).toBe("upside")
+    expect(restored.comparedScenarioIds).toEqual(["base", "down"])
+    expect(restored.comparisonMode).toBe(true)
+  })
+
+  it("drops references to scenarios that aren't in the state", () => {
+    const restored = restoreSavedState({
+      comparisonMode: true,
+      exchangeRates: DEFAULT_PRIMARY_EXCHANGE_RATES,
+      scenarios: [savedScenario("base", "Base"), savedScenario("upside", "Upside")],
+      activeScenarioId: "deleted",
+      comparedScenarioIds: ["base", "deleted"],
+    })
+
+    expect(restored.activeScenarioId).toBe("base")
+    expect(restored.comparedScenarioIds).toEqual(["base"])
+    // Comparing needs at least two scenarios
+    expect(restored.comparisonMode).toBe(false)
+  })
+
+  it("gives each model of the two-model format its own scenario", () => {
+    const { events, ...modelB } = savedScenario("", "")
+    const restored = restoreSavedState({
+      comparisonMode: true,
+      exchangeRates: DEFAULT_PRIMARY_EXCHANGE_RATES,
+      modelA: { founderName: "Alice", initialShares: 8_000_000, events: [seed] },
+      modelB: { ...modelB, events: [{ ...seed, investmentAmount: 2_000_000 }] },
+    })
+
+    expect(restored.scenarios.map((s) => [s.id, s.name])).toEqual([
+      ["scenario-1", "Model A"],
+      ["scenario-2", "Model B"],
+    ])
+    expect(restored.scenarios[0].initialHolders).toEqual([
+      { id: "holder-founders", name: "Alice", shares: 8_000_000, role: "founder" },
+    ])
+    // Models saved before variables existed have none
+    expect(restored.scenarios[0].variables).toEqual([])
+    expect(restored.scenarios[1].events[0]).toMatchObject({ investmentAmount: 2_000_000 })
+    expect(restored.activeScenarioId).toBe("scenario-1")
+    expect(restored.comparedScenarioIds).toEqual(["scenario-1", "scenario-2"])
+    expect(restored.comparisonMode).toBe(true)
+  })
+
+  it("ignores model B outside comparison mode", () => {
+    const restored = restoreSavedState({ comparisonMode: false, modelA: { events: [] }, modelB: { events: [seed] } })
+
+    expect(restored.scenarios.map((s) => s.name)).toEqual(["Model A"])
+    expect(restored.comparisonMode).toBe(false)
+    expect(restored.exchangeRates).toEqual(DEFAULT_PRIMARY_EXCHANGE_RATES)
+  })
+
+  it("interleaves the rounds and pools of the single-model format", () => {
+    const { capTable: poolCapTable, type, order, ...pool } = optionPool({ id: "pool", order: 0, percentage: 10 })
+    const restored = restoreSavedState({
+      founderName: "Alice",
+      rounds: [{ ...seed, order: 0 }],
+      optionPools: [pool],
+    })
+
+    const [scenario] = restored.scenarios
+    expect(scenario.initialHolders).toEqual([
+      { id: "holder-founders", name: "Alice", shares: 10_000_000, role: "founder" },
+    ])
+    expect(scenario.events.map((e) => [e.type, e.order])).toEqual([
+      ["funding", 1],
+      ["option-pool", 2],
+    ])
+
+    // The restored events recalculate like any others
+    const events = recalculateAllEvents(scenario.events, scenario.initialHolders, EXCHANGE_RATES)
+    expect(events[0].totalSharesAfter).toBe(12_500_000)
+  })
+})
@@ -0,0 +1,148 @@
+// Saved state: the scenario set as it is copied, pasted and shared in the URL, and the migration
+// of states saved by earlier versions into it.
+
+import {
+  type Event,
+  type InitialHolder,
+  type ModelVariable,
+  type PrimaryExchangeRates,
+  DEFAULT_PRIMARY_EXCHANGE_RATES,
+} from "@/lib/dilution-engine"
+
+// A named model: its own holders, events and variables
+export interface Scenario {
+  id: string
+  name: string
+  initialHolders: InitialHolder[]
+  events: Event[]
+  variables: ModelVariable[]
+}
+
+export interface SavedScenario {
+  id: string
+  name: string
+  initialHolders: InitialHolder[]
+  events: Omit<Event, "capTable">[]
+  variables: ModelVariable[]
+}
+
+// States saved before named scenarios carry modelA and, when comparing, modelB instead of scenarios
+export interface SavedState {
+  comparisonMode: boolean
+  exchangeRates: PrimaryExchangeRates
+  scenarios: SavedScenario[]
+  activeScenarioId: string
+  comparedScenarioIds: string[]
+}
+
+// A loaded state, with its scenarios ready to recalculate
+export interface RestoredState extends Omit<SavedState, "scenarios"> {
+  scenarios: Scenario[]
+}
+
+export const DEFAULT_INITIAL_HOLDERS: InitialHolder[] = [
+  { id: "holder-founders", name: "Founders", shares: 10000000, role: "founder" },
+]
+
+export const createScenario = (id: string, name: string, initialHolders = DEFAULT_INITIAL_HOLDERS): Scenario => ({
+  id,
+  name,
+  initialHolders,
+  events: [],
+  variables: [],
+})
+
+// Saved events have no cap tables; they are rebuilt by recalculating
+const restoreEvents = (eventsData: any[]): Event[] =>
+  eventsData.map((eventData: any) => ({
+    ...eventData,
+    capTable: [],
+    totalSharesAfter: 0,
+    newSharesIssued: 0,
+  }))
+
+// Saved states from before the holder list carry a single founder name and share count
+const restoreInitialHolders = (modelState: any): InitialHolder[] => {
+  if (Array.isArray(modelState?.initialHolders)) return modelState.initialHolders
+  return [
+    {
+      id: "holder-founders",
+      name: modelState?.founderName || "Founders",
+      shares: modelState?.initialShares || 10000000,
+      role: "founder",
+    },
+  ]
+}
+
+const restoreScenario = (scenarioData: any, id: string, name: string): Scenario => ({
+  id,
+  name,
+  initialHolders: restoreInitialHolders(scenarioData),
+  events: restoreEvents(scenarioData.events || []),
+  // Models saved before variables existed have none
+  variables: scenarioData.variables || [],
+})
+
+// Handle old format with separate rounds and optionPools, interleaved round then pool
+const restoreRoundsAndPools = (state: any): Event[] => [
+  ...(state.rounds || []).map((roundData: any, index: number) => ({
+    ...roundData,
+    type: "funding",
+    capTable: [],
+    order: index * 2 + 1,
+    totalSharesAfter: 0,
+    newSharesIssued: 0,
+  })),
+  ...(state.optionPools || []).map((poolData: any, index: number) => ({
+    ...poolData,
+    type: "option-pool",
+    capTable: [],
+    order: index * 2 + 2,
+    totalSharesAfter: 0,
+    newSharesIssued: 0,
+  })),
+]
+
+// Reads a state saved by any version into the current shape. The scenarios still need
+// recalculating: their events have empty cap tables.
+export const restoreSavedState = (state: SavedState | any): RestoredState => {
+  const exchangeRates: PrimaryExchangeRates = state.exchangeRates || DEFAULT_PRIMARY_EXCHANGE_RATES
+
+  let scenarios: Scenario[]
+  let activeScenarioId = "scenario-1"
+  let comparedScenarioIds: string[] = []
+
+  if (Array.isArray(state.scenarios) && state.scenarios.length > 0) {
+    scenarios = state.scenarios.map((scenarioData: any, index: number) =>
+      restoreScenario(
+        scenarioData,
+        scenarioData.id || `scenario-${index + 1}`,
+        scenarioData.name || `Scenario ${index + 1}`,
+      ),
+    )
+    const loadedIds = new Set(scenarios.map((s) => s.id))
+    comparedScenarioIds = (state.comparedScenarioIds || []).filter((id: string) => loadedIds.has(id))
+    activeScenarioId = loadedIds.has(state.activeScenarioId) ? state.activeScenarioId : scenarios[0].id
+  } else if (state.modelA) {
+    // Two-model format: model B is only saved in comparison mode
+    scenarios = [restoreScenario(state.modelA, "scenario-1", "Model A")]
+    if (state.comparisonMode && state.modelB) {
+      scenarios.push(restoreScenario(state.modelB, "scenario-2", "Model B"))
+      comparedScenarioIds = ["scenario-1", "scenario-2"]
+    }
+  } else {
+    // Single-model format from before comparison, with no initial share count, so the default is used
+    const legacyHolders = restoreInitialHolders({ founderName: state.founderName })
+    const events = state.events ? restoreEvents(state.events) : restoreRoundsAndPools(state)
+    scenarios = [{ ...createScenario("scenario-1", "Scenario 1", legacyHolders), events }]
+  }
+
+  return {
+    exchangeRates,
+    scenarios,
+    activeScenarioId,
+    comparedScenarioIds,
+    // Comparing needs at least two scenarios
+    comparisonMode: !!state.comparisonMode && comparedScenarioIds.length >= 2,
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { type Event, recalculateAllEvents } from "@/lib/dilution-engine"
+import { type DiffScenario, alignScenarioEvents, compareHolderOutcomes } from "@/lib/scenario-diff"
+import { EXCHANGE_RATES, fundingRound, holder, optionPool, safe } from "@/lib/test-fixtures"
+
+const FOUNDERS = [holder("Founders", 10_000_000)]
+
+const scenario = (id: string, events: Event[]): DiffScenario => ({
+  id,
+  name: id,
+  initialHolders: FOUNDERS,
+  events: recalculateAllEvents(events, FOUNDERS, EXCHANGE_RATES),
+})
+
+const seed = fundingRound({
+  id: "seed",
+  order: 1,
+  name: "Seed",
+  manualValuation: 4_000_000,
+  investmentAmount: 1_000_000,
+})
+
+describe("alignScenarioEvents", () => {
+  it("pairs events by id and flags only the changed inputs", () => {
+    const [row] = alignScenarioEvents([seed], [{ ...seed, investmentAmount: 2_000_000 }])
+
+    expect(row.match).toBe("id")
+    expect(row.changed).toBe(true)
+    expect(row.inputs.filter((input) => input.changed).map((input) => input.label)).toEqual(["Amount"])
+    expect(alignScenarioEvents([seed], [seed])[0].changed).toBe(false)
+  })
+
+  it("pairs copies by name, then the rest by position within their type", () => {
+    const rows = alignScenarioEvents(
+      [seed, fundingRound({ id: "a", order: 2, name: "Series A" })],
+      [
+        { ...seed, id: "seed-copy", name: " seed " },
+        fundingRound({ id: "a-copy", order: 2, name: "Series A (bigger)" }),
+      ],
+    )
+
+    expect(rows.map((row) => row.match)).toEqual(["name", "order"])
+    expect(rows.map((row) => row.compare?.id)).toEqual(["seed-copy", "a-copy"])
+  })
+
+  it("shows removed events with no counterpart and places added ones right after their predecessor", () => {
+    const pool = optionPool({ id: "pool", order: 2 })
+    const note = safe({ id: "safe", order: 2 })
+    const rows = alignScenarioEvents([seed, pool], [seed, note])
+
+    expect(rows.map((row) => [row.base?.id ?? null, row.compare?.id ?? null])).toEqual([
+      ["seed", "seed"],
+      [null, "safe"],
+      ["pool", null],
+    ])
+    expect(rows[1].changed).toBe(true)
+    expect(rows[2]).toMatchObject({ match: null, changed: true })
+    expect(rows[2].inputs.map((input) => [input.label, input.compare])).toEqual([["Pool %", "—"]])
+  })
+})
+
+describe("compareHolderOutcomes", () => {
+  it("lists base holders first and gives holders missing from a scenario nothing there", () => {
+    const seriesA = fundingRound({
+      id: "a",
+      order: 1,
+      name: "Series A",
+      manualValuation: 8_000_000,
+      investmentAmount: 2_000_000,
+    })
+    const outcomes = compareHolderOutcomes(
+      scenario("base", [seed]),
+      scenario("compare", [seriesA]),
+      EXCHANGE_RATES,
+      "fully-diluted",
+      50_000_000,
+      "USD",
+    )
+    const byName = (name: string) => outcomes.find((outcome) => outcome.name === name)!
+
+    expect(outcomes.map((outcome) => outcome.name)).toEqual(["Founders", "Seed Investor", "Series A Investor"])
+    expect(byName("Founders").base.ownership).toBeCloseTo(80)
+    expect(byName("Founders").compare.ownership).toBeCloseTo(80)
+    expect(byName("Seed Investor").compare).toEqual({ ownership: 0, shares: 0, proceeds: 0 })
+    expect(byName("Series A Investor").base).toEqual({ ownership: 0, shares: 0, proceeds: 0 })
+    expect(byName("Series A Investor").compare).toMatchObject({ shares: 2_500_000, proceeds: 10_000_000 })
+  })
+})
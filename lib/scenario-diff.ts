@@ -0,0 +1,228 @@
+// Scenario diff: lines up the events of two scenarios and compares their key inputs, then compares
+// each holder's final ownership, share count and exit proceeds.
+
+import {
+  type CapTableBasis,
+  type Currency,
+  type Event,
+  type ExchangeRates,
+  type InitialHolder,
+  getCapTableOnBasis,
+  getInitialCapTable,
+} from "@/lib/dilution-engine"
+import { calculateExitWaterfall } from "@/lib/exit-waterfall"
+import { formatCurrency } from "@/lib/format"
+
+export interface DiffScenario {
+  id: string
+  name: string
+  initialHolders: InitialHolder[]
+  // Recalculated events, in order
+  events: Event[]
+}
+
+// How two events were paired: same id (cloned scenarios), same type and name, or the same
+// position among the remaining events of their type
+export type EventMatch = "id" | "name" | "order"
+
+export interface InputDifference {
+  label: string
+  // Formatted values, "—" when the input doesn't apply on that side
+  base: string
+  compare: string
+  changed: boolean
+}
+
+export interface AlignedEvent {
+  // null when the event only exists in the other scenario
+  base: Event | null
+  compare: Event | null
+  match: EventMatch | null
+  inputs: InputDifference[]
+  changed: boolean
+}
+
+export interface HolderOutcome {
+  // Final ownership in percent
+  ownership: number
+  shares: number
+  // Exit proceeds in the exit currency
+  proceeds: number
+}
+
+export interface HolderDifference {
+  name: string
+  base: HolderOutcome
+  compare: HolderOutcome
+}
+
+const MISSING_VALUE = "—"
+
+interface DiffInput {
+  label: string
+  kind: "currency" | "percentage" | "text"
+  // undefined when the input doesn't apply to the event type
+  value: (event: Event) => string | number | undefined
+}
+
+const DIFF_INPUTS: DiffInput[] = [
+  { label: "Currency", kind: "text", value: (e) => ("currency" in e ? e.currency : undefined) },
+  {
+    label: "Amount",
+    kind: "currency",
+    value: (e) =>
+      e.type === "funding" || e.type === "safe"
+        ? e.investmentAmount
+        : e.type === "convertible-note"
+          ? e.principal
+          : undefined,
+  },
+  {
+    label: "Valuation",
+    kind: "currency",
+    value: (e) => (e.type === "funding" ? e.calculatedValuation : undefined),
+  },
+  {
+    label: "Valuation Type",
+    kind: "text",
+    value: (e) => (e.type === "funding" ? e.valuationType : e.type === "safe" ? e.safeType : undefined),
+  },
+  {
+    label: "Valuation Cap",
+    kind: "currency",
+    value: (e) => (e.type === "safe" || e.type === "convertible-note" ? e.valuationCap : undefined),
+  },
+  {
+    label: "Pool %",
+    kind: "percentage",
+    value: (e) => (e.type === "funding" ? e.targetPoolPercentage : e.type === "option-pool" ? e.percentage : undefined),
+  },
+]
+
+const getCurrency = (event: Event): Currency => ("currency" in event ? event.currency : "USD")
+
+const formatInput = (input: DiffInput, event: Event | null): string => {
+  const value = event ? input.value(event) : undefined
+  if (value === undefined || !event) return MISSING_VALUE
+  if (typeof value === "string") return value
+  if (input.kind === "percentage") return `${value}%`
+  return formatCurrency(value, getCurrency(event))
+}
+
+const compareInputs = (base: Event | null, compare: Event | null): InputDifference[] =>
+  DIFF_INPUTS.filter((input) => [base, compare].some((event) => event && input.value(event) !== undefined)).map(
+    (input) => {
+      const baseValue = formatInput(input, base)
+      const compareValue = formatInput(input, compare)
+      return { label: input.label, base: baseValue, compare: compareValue, changed: baseValue !== compareValue }
+    },
+  )
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+// Pairs events by id, then by type and name, then by position among the unpaired events of each type.
+// Rows follow the base scenario's order, with events only in the compare scenario placed after the
+// row of the compare event before them.
+export const alignScenarioEvents = (baseEvents: Event[], compareEvents: Event[]): AlignedEvent[] => {
+  const pairs = new Map<Event, { event: Event; match: EventMatch }>()
+  const paired = new Set<Event>()
+  const pair = (base: Event, compare: Event | undefined, match: EventMatch) => {
+    if (!compare) return
+    pairs.set(base, { event: compare, match })
+    paired.add(compare)
+  }
+
+  const unpairedBase = () => baseEvents.filter((event) => !pairs.has(event))
+  const unpairedCompare = () => compareEvents.filter((event) => !paired.has(event))
+
+  unpairedBase().forEach((base) =>
+    pair(
+      base,
+      unpairedCompare().find((compare) => compare.id === base.id && compare.type === base.type),
+      "id",
+    ),
+  )
+  unpairedBase().forEach((base) =>
+    pair(
+      base,
+      unpairedCompare().find(
+        (compare) => compare.type === base.type && normalizeName(compare.name) === normalizeName(base.name),
+      ),
+      "name",
+    ),
+  )
+  const remainingBase = unpairedBase()
+  const remainingCompare = unpairedCompare()
+  remainingBase.forEach((base) => {
+    const position = remainingBase.filter((event) => event.type === base.type).indexOf(base)
+    pair(base, remainingCompare.filter((event) => event.type === base.type)[position], "order")
+  })
+
+  const toRow = (base: Event | null, compare: Event | null, match: EventMatch | null): AlignedEvent => {
+    const inputs = compareInputs(base, compare)
+    return { base, compare, match, inputs, changed: !base || !compare || inputs.some((input) => input.changed) }
+  }
+
+  const rows = baseEvents.map((base) => {
+    const match = pairs.get(base)
+    return toRow(base, match ? match.event : null, match ? match.match : null)
+  })
+
+  compareEvents.forEach((compare, index) => {
+    if (paired.has(compare)) return
+    // Every earlier compare event already has a row by now
+    const afterRow = index > 0 ? rows.findIndex((row) => row.compare === compareEvents[index - 1]) : -1
+    rows.splice(afterRow + 1, 0, toRow(null, compare, null))
+  })
+
+  return rows
+}
+
+const getHolderOutcomes = (
+  scenario: DiffScenario,
+  exchangeRates: ExchangeRates,
+  basis: CapTableBasis,
+  exitValue: number,
+  exitCurrency: Currency,
+): Map<string, HolderOutcome> => {
+  const { events } = scenario
+  const capTable = events.length > 0 ? events[events.length - 1].capTable : getInitialCapTable(scenario.initialHolders)
+  const outcomes = new Map<string, HolderOutcome>()
+  const getOutcome = (name: string) => {
+    if (!outcomes.has(name)) outcomes.set(name, { ownership: 0, shares: 0, proceeds: 0 })
+    return outcomes.get(name)!
+  }
+
+  // A holder can have several rows (share classes, granted options), so totals are per name
+  getCapTableOnBasis(capTable, basis).forEach((shareholder) => {
+    const outcome = getOutcome(shareholder.name)
+    outcome.ownership += shareholder.percentage
+    outcome.shares += shareholder.shares
+  })
+  calculateExitWaterfall(capTable, events, exitValue, exitCurrency, exchangeRates).payouts.forEach((payout) => {
+    getOutcome(payout.name).proceeds += payout.total
+  })
+
+  return outcomes
+}
+
+// Holders of the base scenario first, then holders only in the compare scenario
+export const compareHolderOutcomes = (
+  base: DiffScenario,
+  compare: DiffScenario,
+  exchangeRates: ExchangeRates,
+  basis: CapTableBasis,
+  exitValue: number,
+  exitCurrency: Currency,
+): HolderDifference[] => {
+  const baseOutcomes = getHolderOutcomes(base, exchangeRates, basis, exitValue, exitCurrency)
+  const compareOutcomes = getHolderOutcomes(compare, exchangeRates, basis, exitValue, exitCurrency)
+  const none: HolderOutcome = { ownership: 0, shares: 0, proceeds: 0 }
+
+  const names = Array.from(new Set([...Array.from(baseOutcomes.keys()), ...Array.from(compareOutcomes.keys())]))
+  return names.map((name) => ({
+    name,
+    base: baseOutcomes.get(name) || none,
+    compare: compareOutcomes.get(name) || none,
+  }))
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest"
+import type { ModelData } from "@/lib/dilution-engine"
+import {
+  type SensitivityAxis,
+  type SensitivityTarget,
+  calculateSensitivityGrid,
+  calculateTornado,
+  getSensitivityValues,
+} from "@/lib/sensitivity"
+import { EXCHANGE_RATES, fundingRound, holder } from "@/lib/test-fixtures"
+
+const FOUNDERS = [holder("Founders", 10_000_000)]
+
+// Founders hold 80% after a $2M raise at an $8M pre-money valuation
+const MODEL: ModelData = {
+  initialHolders: FOUNDERS,
+  events: [fundingRound({ id: "a", order: 1, manualValuation: 8_000_000, investmentAmount: 2_000_000 })],
+  variables: [],
+}
+
+const OWNERSHIP: SensitivityTarget = {
+  holder: "Founders",
+  measure: "ownership",
+  basis: "fully-diluted",
+  exitValue: 0,
+  exitCurrency: "USD",
+}
+
+const axis = (input: SensitivityAxis["input"], min: number, max: number, steps: number): SensitivityAxis => ({
+  eventId: "a",
+  input,
+  min,
+  max,
+  steps,
+})
+
+describe("getSensitivityValues", () => {
+  it("spaces the steps evenly from min to max", () => {
+    expect(getSensitivityValues(axis("valuation", 4_000_000, 16_000_000, 3))).toEqual([
+      4_000_000, 10_000_000, 16_000_000,
+    ])
+  })
+})
+
+describe("calculateSensitivityGrid", () => {
+  it("measures the target at each value of a single input", () => {
+    const grid = calculateSensitivityGrid(
+      MODEL,
+      EXCHANGE_RATES,
+      OWNERSHIP,
+      axis("valuation", 4_000_000, 16_000_000, 3),
+      null,
+    )
+
+    expect(grid.columnValues).toEqual([])
+    expect(grid.cells.map(([cell]) => cell)).toEqual([
+      expect.closeTo((4 / 6) * 100, 4),
+      expect.closeTo((10 / 12) * 100, 4),
+      expect.closeTo((16 / 18) * 100, 4),
+    ])
+    expect(grid.min).toBeCloseTo((4 / 6) * 100, 4)
+    expect(grid.max).toBeCloseTo((16 / 18) * 100, 4)
+  })
+
+  it("crosses two inputs, rows first", () => {
+    const grid = calculateSensitivityGrid(
+      MODEL,
+      EXCHANGE_RATES,
+      OWNERSHIP,
+      axis("valuation", 4_000_000, 8_000_000, 2),
+      axis("investment", 1_000_000, 3_000_000, 2),
+    )
+
+    expect(grid.cells).toEqual([
+      [expect.closeTo(80, 4), expect.closeTo((4 / 7) * 100, 4)],
+      [expect.closeTo((8 / 9) * 100, 4), expect.closeTo((8 / 11) * 100, 4)],
+    ])
+  })
+
+  it("measures the target's exit payout", () => {
+    const payout: SensitivityTarget = { ...OWNERSHIP, measure: "payout", exitValue: 20_000_000 }
+    const grid = calculateSensitivityGrid(
+      MODEL,
+      EXCHANGE_RATES,
+      payout,
+      axis("valuation", 4_000_000, 8_000_000, 2),
+      null,
+    )
+
+    // The investor converts in both cases, so the founders take their ownership of the exit
+    expect(grid.cells[0][0]).toBeCloseTo(20_000_000 * (4 / 6), 0)
+    expect(grid.cells[1][0]).toBeCloseTo(16_000_000, 0)
+  })
+})
+
+describe("calculateTornado", () => {
+  const tornado = calculateTornado(MODEL, EXCHANGE_RATES, OWNERSHIP, 50)
+
+  it("swings each input by the percentage and ranks them by their effect", () => {
+    expect(tornado.base).toBeCloseTo(80, 4)
+    expect(tornado.bars.map((bar) => bar.input)).toEqual(["valuation", "investment"])
+
+    const [valuation, investment] = tornado.bars
+    expect(valuation).toMatchObject({ eventId: "a", lowValue: 4_000_000, highValue: 12_000_000 })
+    expect(valuation.low).toBeCloseTo((4 / 6) * 100, 4)
+    expect(valuation.high).toBeCloseTo((12 / 14) * 100, 4)
+    expect(investment.low).toBeCloseTo((8 / 9) * 100, 4)
+    expect(investment.high).toBeCloseTo((8 / 11) * 100, 4)
+    expect(valuation.swing).toBeGreaterThan(investment.swing)
+  })
+
+  it("leaves out inputs currently at zero", () => {
+    expect(tornado.bars.some((bar) => bar.input === "pool-percentage")).toBe(false)
+  })
+})
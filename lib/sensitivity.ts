@@ -0,0 +1,161 @@
+// Sensitivity analysis: reruns the model over a grid of one or two inputs, and ranks every
+// input by how far an equal swing in it moves the target holder's final outcome.
+
+import {
+  type CapTableBasis,
+  type Currency,
+  type ExchangeRates,
+  type ModelData,
+  getInitialCapTable,
+  recalculateAllEvents,
+} from "@/lib/dilution-engine"
+import { calculateExitWaterfall } from "@/lib/exit-waterfall"
+import {
+  type GoalSeekInput,
+  applyGoalSeekInput,
+  getGoalSeekInputValue,
+  getGoalSeekInputs,
+  getOwnershipPercentage,
+  isTargetHolder,
+} from "@/lib/goal-seek"
+
+export type SensitivityMeasure = "ownership" | "payout"
+
+export interface SensitivityTarget {
+  // Holder name, or TEAM_TARGET
+  holder: string
+  measure: SensitivityMeasure
+  basis: CapTableBasis
+  // Exit used when measuring payout
+  exitValue: number
+  exitCurrency: Currency
+}
+
+export interface SensitivityAxis {
+  eventId: string
+  input: GoalSeekInput
+  min: number
+  max: number
+  steps: number
+}
+
+export interface SensitivityGrid {
+  rowValues: number[]
+  // Empty when only the row input varies
+  columnValues: number[]
+  // Outcome for each row, then each column (a single entry per row without a column input)
+  cells: number[][]
+  min: number
+  max: number
+}
+
+export interface TornadoBar {
+  eventId: string
+  eventName: string
+  input: GoalSeekInput
+  lowValue: number
+  highValue: number
+  // Outcome with the input at its low and high value
+  low: number
+  high: number
+  swing: number
+}
+
+export interface TornadoResult {
+  // Outcome with every input at its current value
+  base: number
+  bars: TornadoBar[]
+}
+
+// Grids are capped so a large step count can't stall the page
+const MAX_AXIS_STEPS = 11
+
+// Final outcome for the target holder once the model has been recalculated
+const measureModel = (model: ModelData, exchangeRates: ExchangeRates, target: SensitivityTarget): number => {
+  const events = recalculateAllEvents(model.events, model.initialHolders, exchangeRates, model.variables)
+  const capTable = events.length > 0 ? events[events.length - 1].capTable : getInitialCapTable(model.initialHolders)
+
+  if (target.measure === "ownership") {
+    return getOwnershipPercentage(capTable, target.holder, target.basis)
+  }
+
+  // Waterfall payouts are per holder name, so match on the names of the target's rows
+  const names = new Set(capTable.filter((shareholder) => isTargetHolder(shareholder, target.holder)).map((s) => s.name))
+  return calculateExitWaterfall(capTable, events, target.exitValue, target.exitCurrency, exchangeRates)
+    .payouts.filter((payout) => names.has(payout.name))
+    .reduce((sum, payout) => sum + payout.total, 0)
+}
+
+const withInput = (model: ModelData, eventId: string, input: GoalSeekInput, value: number): ModelData => ({
+  ...model,
+  events: applyGoalSeekInput(model.events, eventId, input, value),
+})
+
+export const getSensitivityValues = (axis: SensitivityAxis): number[] => {
+  const steps = Math.min(MAX_AXIS_STEPS, Math.max(2, Math.round(axis.steps)))
+  return Array.from({ length: steps }, (_, step) => axis.min + ((axis.max - axis.min) * step) / (steps - 1))
+}
+
+export const calculateSensitivityGrid = (
+  model: ModelData,
+  exchangeRates: ExchangeRates,
+  target: SensitivityTarget,
+  rows: SensitivityAxis,
+  columns: SensitivityAxis | null,
+): SensitivityGrid => {
+  const rowValues = getSensitivityValues(rows)
+  const columnValues = columns ? getSensitivityValues(columns) : []
+
+  const cells = rowValues.map((rowValue) => {
+    const rowModel = withInput(model, rows.eventId, rows.input, rowValue)
+    if (!columns) return [measureModel(rowModel, exchangeRates, target)]
+
+    return columnValues.map((columnValue) =>
+      measureModel(withInput(rowModel, columns.eventId, columns.input, columnValue), exchangeRates, target),
+    )
+  })
+
+  const outcomes = cells.flat()
+  return { rowValues, columnValues, cells, min: Math.min(...outcomes), max: Math.max(...outcomes) }
+}
+
+// Moves each input down and up by swingPercentage of its current value, one at a time.
+// Inputs currently at zero have nothing to scale and are left out.
+export const calculateTornado = (
+  model: ModelData,
+  exchangeRates: ExchangeRates,
+  target: SensitivityTarget,
+  swingPercentage: number,
+): TornadoResult => {
+  const recalculated = recalculateAllEvents(model.events, model.initialHolders, exchangeRates, model.variables)
+  const bars: TornadoBar[] = []
+
+  recalculated.forEach((event) => {
+    getGoalSeekInputs(event).forEach((input) => {
+      const current = getGoalSeekInputValue(event, input)
+      if (current <= 0) return
+
+      const lowValue = Math.max(0, current * (1 - swingPercentage / 100))
+      const scaledHigh = current * (1 + swingPercentage / 100)
+      const highValue = input === "pool-percentage" ? Math.min(99, scaledHigh) : scaledHigh
+      const low = measureModel(withInput(model, event.id, input, lowValue), exchangeRates, target)
+      const high = measureModel(withInput(model, event.id, input, highValue), exchangeRates, target)
+
+      bars.push({
+        eventId: event.id,
+        eventName: event.name,
+        input,
+        lowValue,
+        highValue,
+        low,
+        high,
+        swing: Math.abs(high - low),
+      })
+    })
+  })
+
+  return {
+    base: measureModel(model, exchangeRates, target),
+    bars: bars.sort((a, b) => b.swing - a.swing),
+  }
+}
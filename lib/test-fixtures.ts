@@ -0,0 +1,236 @@
+// Builders for the engine tests: complete events with neutral terms, overridden per test
+
+import {
+  type ConvertibleNote,
+  type Exercise,
+  type FundingRound,
+  type HolderRole,
+  type InitialHolder,
+  type OptionGrant,
+  type OptionPool,
+  type Safe,
+  type SecondarySale,
+  type ShareBuyback,
+  type StockSplit,
+  type Warrant,
+  DEFAULT_PRIMARY_EXCHANGE_RATES,
+  deriveAllExchangeRates,
+} from "@/lib/dilution-engine"
+
+export const EXCHANGE_RATES = deriveAllExchangeRates(DEFAULT_PRIMARY_EXCHANGE_RATES)
+
+export const holder = (name: string, shares: number, role: HolderRole = "founder"): InitialHolder => ({
+  id: `holder-${name}`,
+  name,
+  shares,
+  role,
+})
+
+// A pre-money USD round with a single investor filling the whole amount
+export const fundingRound = (overrides: Partial<FundingRound> & Pick<FundingRound, "id" | "order">): FundingRound => {
+  const name = overrides.name || overrides.id
+  const id = overrides.id
+  return {
+    type: "funding",
+    name,
+    currency: "USD",
+    investmentAmount: 0,
+    investmentSource: "manual",
+    investmentFormula: "",
+    investmentError: "",
+    valuationType: "pre-money",
+    valuationSource: "manual",
+    manualValuation: 0,
+    valuationFormula: "",
+    referenceRoundId: "",
+    referenceAdjustment: "discount",
+    discountPercentage: 0,
+    calculatedValuation: 0,
+    valuationError: "",
+    preMoneyValuation: 0,
+    postMoneyValuation: 0,
+    investors: [{ id: `${id}-lead`, name: `${name} Investor`, amount: 0, fillRemaining: true }],
+    date: "",
+    shareClassName: "",
+    liquidationPreferenceMultiple: 1,
+    participating: false,
+    participationCap: 0,
+    seniority: 1,
+    targetPoolPercentage: 0,
+    proRataParticipants: [],
+    antiDilution: "none",
+    poolTopUpName: "",
+    poolTopUpShares: 0,
+    effectivePreMoneyValuation: 0,
+    valuationDistribution: null,
+    investmentDistribution: null,
+    poolDistribution: null,
+    capTable: [],
+    totalSharesAfter: 0,
+    newSharesIssued: 0,
+    pricePerShare: 0,
+    pricePerShareBeforeConversions: 0,
+    conversions: [],
+    proRataAllocations: [],
+    investorAllocations: [],
+    unallocatedAmount: 0,
+    antiDilutionAdjustments: [],
+    ...overrides,
+  }
+}
+
+export const optionPool = (overrides: Partial<OptionPool> & Pick<OptionPool, "id" | "order">): OptionPool => ({
+  type: "option-pool",
+  name: overrides.id,
+  percentage: 10,
+  mode: "new",
+  topUpPoolName: "",
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  poolRowName: "",
+  ...overrides,
+})
+
+export const safe = (overrides: Partial<Safe> & Pick<Safe, "id" | "order">): Safe => ({
+  type: "safe",
+  name: overrides.id,
+  currency: "USD",
+  investmentAmount: 0,
+  safeType: "post-money",
+  valuationCap: 0,
+  discountPercentage: 0,
+  mfn: false,
+  investorName: `${overrides.id} Investor`,
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  convertedInRoundId: "",
+  conversionPrice: 0,
+  conversionShares: 0,
+  conversionBasis: "",
+  ...overrides,
+})
+
+export const convertibleNote = (
+  overrides: Partial<ConvertibleNote> & Pick<ConvertibleNote, "id" | "order">,
+): ConvertibleNote => ({
+  type: "convertible-note",
+  name: overrides.id,
+  currency: "USD",
+  principal: 0,
+  interestRate: 0,
+  interestType: "simple",
+  issueDate: "",
+  maturityDate: "",
+  valuationCap: 0,
+  discountPercentage: 0,
+  investorName: `${overrides.id} Holder`,
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  accruedInterest: 0,
+  convertedInRoundId: "",
+  conversionPrice: 0,
+  conversionShares: 0,
+  conversionBasis: "",
+  ...overrides,
+})
+
+// Vests in full on the grant date
+export const optionGrant = (overrides: Partial<OptionGrant> & Pick<OptionGrant, "id" | "order">): OptionGrant => ({
+  type: "option-grant",
+  name: overrides.id,
+  holderName: `${overrides.id} Employee`,
+  role: "employee",
+  poolName: "",
+  options: 0,
+  currency: "USD",
+  strikePrice: 0,
+  grantDate: "2024-01-01",
+  vestingMonths: 0,
+  cliffMonths: 0,
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  poolRowName: "",
+  availableOptions: 0,
+  grantedOptions: 0,
+  ...overrides,
+})
+
+export const secondarySale = (
+  overrides: Partial<SecondarySale> & Pick<SecondarySale, "id" | "order">,
+): SecondarySale => ({
+  type: "secondary",
+  name: overrides.id,
+  buyerName: `${overrides.id} Buyer`,
+  currency: "USD",
+  pricePerShare: 1,
+  sellers: [],
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  sales: [],
+  ...overrides,
+})
+
+export const shareBuyback = (overrides: Partial<ShareBuyback> & Pick<ShareBuyback, "id" | "order">): ShareBuyback => ({
+  type: "buyback",
+  name: overrides.id,
+  holderName: "",
+  quantityType: "shares",
+  quantity: 0,
+  currency: "USD",
+  pricePerShare: 1,
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  sharesCancelled: 0,
+  cost: 0,
+  ...overrides,
+})
+
+export const stockSplit = (overrides: Partial<StockSplit> & Pick<StockSplit, "id" | "order">): StockSplit => ({
+  type: "stock-split",
+  name: overrides.id,
+  ratio: 2,
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  ...overrides,
+})
+
+export const warrant = (overrides: Partial<Warrant> & Pick<Warrant, "id" | "order">): Warrant => ({
+  type: "warrant",
+  name: overrides.id,
+  holderName: `${overrides.id} Holder`,
+  coverageType: "shares",
+  coverage: 0,
+  currency: "USD",
+  strikePrice: 0,
+  expiryDate: "",
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  warrantShares: 0,
+  ...overrides,
+})
+
+// Exercises everything exercisable
+export const exercise = (overrides: Partial<Exercise> & Pick<Exercise, "id" | "order">): Exercise => ({
+  type: "exercise",
+  name: overrides.id,
+  instrumentId: "",
+  quantity: 0,
+  exerciseDate: "2025-01-01",
+  capTable: [],
+  totalSharesAfter: 0,
+  newSharesIssued: 0,
+  holderName: "",
+  currency: "USD",
+  exercisableShares: 0,
+  sharesExercised: 0,
+  cashReceived: 0,
+  ...overrides,
+})